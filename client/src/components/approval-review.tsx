@@ -0,0 +1,385 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import * as monaco from "monaco-editor";
+import { FileText, Terminal, ShieldAlert, Wand, Bug, Database } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { configureMonaco, getLanguageFromFileName } from "@/lib/monaco-config";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ApprovalReviewProps {
+  intentId: string;
+  onDecided: () => void;
+}
+
+interface ChangeFreeze {
+  reason: string;
+  action: "deny" | "require_approval";
+  intentTypes: string[];
+}
+
+interface FilePreview {
+  path: string;
+  operation: string;
+  newPath?: string;
+  exists: boolean;
+  current: string;
+  proposed: string;
+  rejectedHunks: unknown[];
+  diskAvailable: boolean;
+  beforeTransforms?: string;
+}
+
+interface AppliedTransform {
+  ruleId: string;
+  name: string;
+  changed: boolean;
+  skipped?: string;
+  error?: string;
+}
+
+interface CommandPreview {
+  command: string;
+  workingDirectory: string;
+  timeout?: number;
+  requireConfirmation: boolean;
+}
+
+interface MigrationPreview {
+  operation: "apply" | "revert";
+  project: string;
+  name: string;
+  description?: string;
+  up: string;
+  down: string | null;
+  statements: Array<{ sql: string; kind: string; tables: string[]; destructive: boolean }>;
+  destructive: boolean;
+  reversible: boolean;
+  parseError?: string;
+  dryRun: {
+    ok: boolean;
+    error?: string;
+    schemaChanges: string[];
+    roundTrip: "verified" | "failed" | "skipped";
+    roundTripError?: string;
+  };
+}
+
+interface QualityDiagnostic {
+  source: string;
+  severity: "error" | "warning";
+  code: string;
+  message: string;
+  line: number;
+  column: number;
+}
+
+interface ApprovalPreview {
+  intentId: string;
+  type: string;
+  priority: string;
+  status: string;
+  expiresAt: string;
+  appliedRules: string[];
+  warnings: string[];
+  errors: string[];
+  transforms: AppliedTransform[];
+  diagnostics: QualityDiagnostic[];
+  file?: FilePreview;
+  command?: CommandPreview;
+  migration?: MigrationPreview;
+}
+
+function FileDiff({ file }: { file: FilePreview }) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // "workspace": current file vs what will be written; "transforms": AI output vs transformed output
+  const [compare, setCompare] = useState<"workspace" | "transforms">("workspace");
+  const originalText = compare === "transforms" ? file.beforeTransforms ?? file.proposed : file.current;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    configureMonaco();
+    const language = getLanguageFromFileName(file.path);
+    const original = monaco.editor.createModel(originalText, language);
+    const modified = monaco.editor.createModel(file.proposed, language);
+
+    const diffEditor = monaco.editor.createDiffEditor(containerRef.current, {
+      theme: "rde-dark",
+      automaticLayout: true,
+      readOnly: true,
+      renderSideBySide: true,
+      minimap: { enabled: false },
+      scrollBeyondLastLine: false,
+      fontSize: 12,
+    });
+    diffEditor.setModel({ original, modified });
+
+    return () => {
+      diffEditor.dispose();
+      original.dispose();
+      modified.dispose();
+    };
+  }, [file.path, originalText, file.proposed]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-xs rde-text-secondary">
+        <FileText className="w-4 h-4" />
+        <span className="font-mono rde-text-primary">{file.path}</span>
+        {file.newPath && <span className="font-mono">→ {file.newPath}</span>}
+        <Badge variant="secondary" className="rde-bg-accent">{file.operation}</Badge>
+        {!file.exists && <span>(new file)</span>}
+        {file.beforeTransforms !== undefined && (
+          <div className="flex items-center space-x-1 ml-auto">
+            <Button
+              size="sm"
+              variant={compare === "workspace" ? "secondary" : "ghost"}
+              className="h-6 text-xs"
+              onClick={() => setCompare("workspace")}
+            >
+              Workspace
+            </Button>
+            <Button
+              size="sm"
+              variant={compare === "transforms" ? "secondary" : "ghost"}
+              className="h-6 text-xs"
+              onClick={() => setCompare("transforms")}
+            >
+              Transforms
+            </Button>
+          </div>
+        )}
+      </div>
+      {!file.diskAvailable && (
+        <p className="text-xs text-yellow-400">Execution Engine unavailable; current content could not be read.</p>
+      )}
+      {file.rejectedHunks.length > 0 && (
+        <p className="text-xs text-red-400">
+          {file.rejectedHunks.length} hunk(s) do not apply to the current file and would be rejected.
+        </p>
+      )}
+      <div ref={containerRef} className="h-72 border rde-border rounded" />
+    </div>
+  );
+}
+
+function CommandDetails({ command }: { command: CommandPreview }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-xs rde-text-secondary">
+        <Terminal className="w-4 h-4" />
+        <span>Working directory:</span>
+        <span className="font-mono rde-text-primary">{command.workingDirectory}</span>
+      </div>
+      <pre className="p-3 rounded bg-black text-green-400 text-sm font-mono whitespace-pre-wrap break-all">
+        $ {command.command}
+      </pre>
+      {command.timeout && (
+        <p className="text-xs rde-text-secondary">Timeout: {command.timeout}ms</p>
+      )}
+    </div>
+  );
+}
+
+function MigrationDetails({ migration }: { migration: MigrationPreview }) {
+  const reverting = migration.operation === "revert";
+  const { dryRun } = migration;
+  // The script that runs on approval comes first; a revert only withdraws a migration drizzle has not applied
+  const scripts = reverting
+    ? [{ label: "Down (checked on the stand-in)", sql: migration.down }, { label: "Up (withdrawn)", sql: migration.up }]
+    : [{ label: "Up (runs now)", sql: migration.up }, { label: "Down (reverts)", sql: migration.down }];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs rde-text-secondary">
+        <Database className="w-4 h-4" />
+        <span>{reverting ? "Revert" : "Migration"}</span>
+        <span className="font-mono rde-text-primary">{migration.name}</span>
+        <span>in</span>
+        <span className="font-mono rde-text-primary">{migration.project}</span>
+        {migration.destructive && <Badge variant="destructive" className="text-xs">destructive</Badge>}
+        {!migration.reversible && <Badge variant="destructive" className="text-xs">irreversible</Badge>}
+      </div>
+      {migration.description && <p className="text-xs rde-text-secondary">{migration.description}</p>}
+      {migration.parseError && <p className="text-xs text-red-400">SQL could not be split: {migration.parseError}</p>}
+
+      {scripts.map(script => (
+        <div key={script.label} className="space-y-1">
+          <p className="text-xs rde-text-secondary">{script.label}</p>
+          <pre className="p-3 rounded bg-black text-blue-300 text-xs font-mono whitespace-pre-wrap max-h-48 overflow-y-auto">
+            {script.sql || "-- none"}
+          </pre>
+        </div>
+      ))}
+
+      {/* Dry run against a scratch copy of the stand-in database */}
+      <div className="space-y-0.5 text-xs">
+        {dryRun.ok ? (
+          <p className="text-green-400">Runs cleanly on the stand-in database</p>
+        ) : (
+          <p className="text-red-400">Fails on the stand-in database: {dryRun.error}</p>
+        )}
+        {dryRun.roundTrip === "verified" && <p className="text-green-400">Reverse script restores the previous schema</p>}
+        {dryRun.roundTrip === "failed" && <p className="text-red-400">Reverse script does not restore the schema: {dryRun.roundTripError}</p>}
+        {dryRun.schemaChanges.length > 0 && (
+          <ul className="font-mono rde-text-secondary">
+            {dryRun.schemaChanges.map(change => <li key={change}>{change}</li>)}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ApprovalReview({ intentId, onDecided }: ApprovalReviewProps) {
+  const [reason, setReason] = useState("");
+  const queryClient = useQueryClient();
+
+  const { data: preview, isLoading, error } = useQuery<ApprovalPreview>({
+    queryKey: [`/api/middleware/approvals/${intentId}/preview`],
+  });
+
+  const { data: freezeState } = useQuery<{ freeze: ChangeFreeze | null }>({
+    queryKey: ["/api/middleware/governance/freeze"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (decision: "approve" | "reject" | "override") => {
+      const action = decision === "override" ? "approve" : decision;
+      return await apiRequest("POST", `/api/middleware/${action}/${intentId}`, {
+        reason: reason || undefined,
+        overrideFreeze: decision === "override",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/middleware/approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/execution/changesets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+      onDecided();
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-xs rde-text-secondary p-3">Loading preview...</p>;
+  }
+
+  if (error || !preview) {
+    return <p className="text-xs text-red-400 p-3">Failed to load preview: {(error as Error)?.message}</p>;
+  }
+
+  // Approved intents skip validation, so the server refuses them during a deny freeze unless overridden
+  const freeze = freezeState?.freeze;
+  const frozen = freeze?.action === "deny" && (freeze.intentTypes.length === 0 || freeze.intentTypes.includes(preview.type));
+
+  return (
+    <div className="space-y-4 p-3 border rde-border rounded">
+      {/* Triggered governance rules */}
+      <div className="space-y-1">
+        <div className="flex items-center space-x-2 text-xs rde-text-secondary">
+          <ShieldAlert className="w-4 h-4 text-yellow-500" />
+          <span>Triggered rules</span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {preview.appliedRules.length > 0 ? preview.appliedRules.map(rule => (
+            <Badge key={rule} variant="secondary" className="rde-bg-accent font-mono text-xs">{rule}</Badge>
+          )) : (
+            <span className="text-xs rde-text-secondary">None recorded</span>
+          )}
+        </div>
+        {preview.warnings.map((warning, index) => (
+          <p key={index} className="text-xs text-yellow-400">{warning}</p>
+        ))}
+      </div>
+
+      {/* Content transforms from 'modify' rules */}
+      {preview.transforms.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <Wand className="w-4 h-4 text-purple-400" />
+          {preview.transforms.map((transform, index) => (
+            <Badge
+              key={index}
+              variant="secondary"
+              className={`font-mono text-xs ${transform.error ? "text-red-400" : "rde-bg-accent"}`}
+              title={transform.error || transform.skipped || `From rule ${transform.ruleId}`}
+            >
+              {transform.name}
+              {transform.error ? " (failed)" : transform.skipped ? " (skipped)" : transform.changed ? "" : " (no change)"}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {/* Type-check and lint findings from the quality gate */}
+      {preview.diagnostics.length > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center space-x-2 text-xs rde-text-secondary">
+            <Bug className="w-4 h-4 text-orange-400" />
+            <span>Quality gate diagnostics</span>
+          </div>
+          <ul className="space-y-0.5 max-h-32 overflow-y-auto">
+            {preview.diagnostics.map((diagnostic, index) => (
+              <li key={index} className={`text-xs font-mono ${diagnostic.severity === "error" ? "text-red-400" : "text-yellow-400"}`}>
+                {diagnostic.line}:{diagnostic.column} {diagnostic.code} {diagnostic.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preview.file && <FileDiff file={preview.file} />}
+      {preview.command && <CommandDetails command={preview.command} />}
+      {preview.migration && <MigrationDetails migration={preview.migration} />}
+      {!preview.file && !preview.command && !preview.migration && (
+        <p className="text-xs rde-text-secondary">No preview available for {preview.type.replace('_', ' ')} intents.</p>
+      )}
+
+      {/* Decision */}
+      <div className="flex items-center space-x-2">
+        <Input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (optional)"
+          className="h-8 text-xs"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-xs"
+          disabled={reviewMutation.isPending || preview.status !== "pending" || frozen}
+          onClick={() => reviewMutation.mutate("approve")}
+        >
+          Approve
+        </Button>
+        {frozen && (
+          <Button
+            size="sm"
+            variant="destructive"
+            className="text-xs"
+            disabled={reviewMutation.isPending || preview.status !== "pending"}
+            title="Requires permission to manage rules"
+            onClick={() => reviewMutation.mutate("override")}
+          >
+            Approve during freeze
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-xs"
+          disabled={reviewMutation.isPending || preview.status !== "pending"}
+          onClick={() => reviewMutation.mutate("reject")}
+        >
+          Reject
+        </Button>
+      </div>
+      {frozen && (
+        <p className="text-xs text-yellow-400">Change freeze in effect: {freeze.reason}</p>
+      )}
+      {reviewMutation.error && (
+        <p className="text-xs text-red-400">{(reviewMutation.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,758 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowUp, ArrowDown, Pencil, Trash2, Plus, History, Save, Undo2, FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  INTENT_TYPES,
+  RULE_ACTIONS,
+  CONDITION_OPERATORS,
+  CONTENT_TRANSFORMS,
+  QUOTA_SCOPES,
+  QUOTA_MEASURES,
+  governanceRulesSchema,
+  formatRuleIssues,
+  type GovernanceRuleInput,
+  type RuleConditionInput,
+  type QuotaInput,
+  type ScheduleInput,
+  type ContentTransformInput,
+  type PolicyVersion,
+} from "@shared/governance";
+
+type Operator = (typeof CONDITION_OPERATORS)[number];
+
+interface PolicyTestReport {
+  passed: number;
+  failed: number;
+  results: Array<{ name: string; passed: boolean; diffs: Array<{ field: string; expected: unknown; actual: unknown }> }>;
+}
+
+// Operators whose value is entered as JSON (numbers, arrays, booleans)
+const JSON_VALUE_OPERATORS = new Set<Operator>([
+  "in",
+  "exists",
+  "greater_than",
+  "less_than",
+  "between",
+  "length_greater_than",
+  "length_less_than",
+  "byte_length_greater_than",
+  "byte_length_less_than",
+  "contains_any",
+]);
+
+const newRule = (index: number): GovernanceRuleInput => ({
+  id: `custom_rule_${index + 1}`,
+  name: "New Rule",
+  description: "",
+  intentTypes: ["file_operation"],
+  conditions: [],
+  action: "require_approval",
+});
+
+const newCondition = (): RuleConditionInput => ({ field: "target.path", operator: "glob", value: "**/*" });
+
+const newSchedule = (): RuleConditionInput => ({
+  schedule: { timezone: "UTC", weekly: [{ start: "fri 16:00", end: "mon 08:00" }] },
+});
+
+type TransformName = (typeof CONTENT_TRANSFORMS)[number];
+
+// Starting options for each content transform
+const newTransform = (name: TransformName): ContentTransformInput => {
+  switch (name) {
+    case "license_header":
+      return { name, options: { text: "Copyright (c) Your Company. All rights reserved." } };
+    case "line_endings":
+      return { name, options: { eol: "lf" } };
+    case "strip_console_log":
+      return { name, options: { methods: ["log"] } };
+    default:
+      return { name: "prettier" };
+  }
+};
+
+const newQuota = (): QuotaInput => ({ scope: "session", measure: "count", limit: 20, windowMs: 60000, onExceeded: "require_approval" });
+
+// Pull the server's validation details out of an apiRequest error ("400: {...}")
+function describeError(error: unknown): string[] {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body);
+    return parsed.details || [parsed.error || message];
+  } catch {
+    return [message];
+  }
+}
+
+// Weekly windows are edited one per line as "fri 16:00 - mon 08:00"
+function ScheduleEditor({
+  schedule,
+  onChange,
+  onRemove,
+}: {
+  schedule: ScheduleInput;
+  onChange: (schedule: ScheduleInput) => void;
+  onRemove: () => void;
+}) {
+  const [weeklyText, setWeeklyText] = useState((schedule.weekly || []).map(window => `${window.start} - ${window.end}`).join("\n"));
+
+  const setField = (key: "timezone" | "cron" | "from" | "until", value: string) => {
+    onChange({ ...schedule, [key]: value.trim() ? value : undefined });
+  };
+
+  const setWeekly = (text: string) => {
+    setWeeklyText(text);
+    const weekly = text
+      .split("\n")
+      .map(line => line.split(/\s+-\s+/))
+      .filter(parts => parts.length === 2)
+      .map(([start, end]) => ({ start: start.trim(), end: end.trim() }));
+    onChange({ ...schedule, weekly: weekly.length > 0 ? weekly : undefined });
+  };
+
+  return (
+    <div className="border-l-2 border-amber-400 pl-3 space-y-2">
+      <div className="flex items-center space-x-2">
+        <span className="text-xs rde-text-secondary w-24">schedule</span>
+        <Input
+          value={schedule.timezone || ""}
+          onChange={(e) => setField("timezone", e.target.value)}
+          placeholder="time zone (UTC)"
+          className="h-7 text-xs font-mono w-40"
+        />
+        <Input
+          value={schedule.cron || ""}
+          onChange={(e) => setField("cron", e.target.value)}
+          placeholder="cron (e.g. * 9-17 * * mon-fri)"
+          className="h-7 text-xs font-mono flex-1"
+        />
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onRemove}>
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Input
+          value={schedule.from || ""}
+          onChange={(e) => setField("from", e.target.value)}
+          placeholder="from (2025-12-20)"
+          className="h-7 text-xs font-mono"
+        />
+        <Input
+          value={schedule.until || ""}
+          onChange={(e) => setField("until", e.target.value)}
+          placeholder="until (2026-01-05T08:00)"
+          className="h-7 text-xs font-mono"
+        />
+      </div>
+      <Textarea
+        value={weeklyText}
+        onChange={(e) => setWeekly(e.target.value)}
+        placeholder="weekly windows, one per line: fri 16:00 - mon 08:00"
+        className="text-xs font-mono"
+        rows={2}
+      />
+    </div>
+  );
+}
+
+function ConditionEditor({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleConditionInput;
+  onChange: (condition: RuleConditionInput) => void;
+  onRemove: () => void;
+}) {
+  if ("schedule" in condition) {
+    return <ScheduleEditor schedule={condition.schedule} onChange={(schedule) => onChange({ schedule })} onRemove={onRemove} />;
+  }
+
+  if ("all" in condition || "any" in condition || "not" in condition) {
+    const kind = "all" in condition ? "all" : "any" in condition ? "any" : "not";
+    const children = "all" in condition ? condition.all : "any" in condition ? condition.any : [condition.not];
+
+    const setGroup = (nextKind: string, nextChildren: RuleConditionInput[]) => {
+      if (nextKind === "not") {
+        onChange({ not: nextChildren[0] || newCondition() });
+      } else {
+        onChange(nextKind === "all" ? { all: nextChildren } : { any: nextChildren });
+      }
+    };
+
+    return (
+      <div className="border-l-2 border-blue-400 pl-3 space-y-2">
+        <div className="flex items-center space-x-2">
+          <Select value={kind} onValueChange={(value) => setGroup(value, children)}>
+            <SelectTrigger className="h-7 w-24 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">all of</SelectItem>
+              <SelectItem value="any">any of</SelectItem>
+              <SelectItem value="not">not</SelectItem>
+            </SelectContent>
+          </Select>
+          {kind !== "not" && (
+            <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setGroup(kind, [...children, newCondition()])}>
+              <Plus className="w-3 h-3 mr-1" /> Condition
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onRemove}>
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+        {children.map((child, index) => (
+          <ConditionEditor
+            key={index}
+            condition={child}
+            onChange={(next) => setGroup(kind, children.map((item, i) => (i === index ? next : item)))}
+            onRemove={() => setGroup(kind, children.filter((_, i) => i !== index))}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const valueText = typeof condition.value === "string" ? condition.value : JSON.stringify(condition.value ?? "");
+
+  const parseValue = (operator: Operator, text: string) => {
+    if (!JSON_VALUE_OPERATORS.has(operator)) return text;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Input
+        value={condition.field}
+        onChange={(e) => onChange({ ...condition, field: e.target.value })}
+        placeholder="field (e.g. target.path)"
+        className="h-7 text-xs font-mono w-40"
+      />
+      <Select
+        value={condition.operator}
+        onValueChange={(value) => onChange({ ...condition, operator: value as Operator, value: parseValue(value as Operator, valueText) })}
+      >
+        <SelectTrigger className="h-7 w-48 text-xs"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {CONDITION_OPERATORS.map(operator => (
+            <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={valueText}
+        onChange={(e) => onChange({ ...condition, value: parseValue(condition.operator, e.target.value) })}
+        placeholder={JSON_VALUE_OPERATORS.has(condition.operator) ? "JSON value" : "value"}
+        className="h-7 text-xs font-mono flex-1"
+      />
+      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => onChange({ all: [condition] })}>
+        Group
+      </Button>
+      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onRemove}>
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
+
+function TransformEditor({
+  transform,
+  onChange,
+  onRemove,
+}: {
+  transform: ContentTransformInput;
+  onChange: (transform: ContentTransformInput) => void;
+  onRemove: () => void;
+}) {
+  const [optionsText, setOptionsText] = useState(transform.options ? JSON.stringify(transform.options) : "");
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Select
+        value={transform.name}
+        onValueChange={(value) => {
+          const next = newTransform(value as TransformName);
+          setOptionsText(next.options ? JSON.stringify(next.options) : "");
+          onChange(next);
+        }}
+      >
+        <SelectTrigger className="h-7 w-48 text-xs"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {CONTENT_TRANSFORMS.map(name => (
+            <SelectItem key={name} value={name}>{name.replace(/_/g, " ")}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={optionsText}
+        onChange={(e) => {
+          setOptionsText(e.target.value);
+          try {
+            const options = e.target.value.trim() ? JSON.parse(e.target.value) : undefined;
+            onChange({ ...transform, options } as ContentTransformInput);
+          } catch {
+            // Keep editing until the JSON parses
+          }
+        }}
+        placeholder="options (JSON)"
+        className="h-7 text-xs font-mono flex-1"
+      />
+      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onRemove}>
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
+
+function QuotaForm({ quota, onChange }: { quota: QuotaInput; onChange: (quota: QuotaInput) => void }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+      <div>
+        <Label className="text-xs">Per</Label>
+        <Select value={quota.scope} onValueChange={(value) => onChange({ ...quota, scope: value as QuotaInput["scope"] })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {QUOTA_SCOPES.map(scope => (
+              <SelectItem key={scope} value={scope}>{scope}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="text-xs">Measure</Label>
+        <Select value={quota.measure} onValueChange={(value) => onChange({ ...quota, measure: value as QuotaInput["measure"] })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {QUOTA_MEASURES.map(measure => (
+              <SelectItem key={measure} value={measure}>{measure}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label className="text-xs">Limit</Label>
+        <Input
+          type="number"
+          value={quota.limit}
+          onChange={(e) => onChange({ ...quota, limit: Number(e.target.value) || 0 })}
+          className="h-8 text-xs"
+        />
+      </div>
+      <div>
+        <Label className="text-xs">Window (seconds)</Label>
+        <Input
+          type="number"
+          value={quota.windowMs ? quota.windowMs / 1000 : ""}
+          placeholder="none"
+          onChange={(e) => onChange({ ...quota, windowMs: e.target.value ? Math.round(Number(e.target.value) * 1000) || undefined : undefined })}
+          className="h-8 text-xs"
+        />
+      </div>
+      <div>
+        <Label className="text-xs">When exceeded</Label>
+        <Select value={quota.onExceeded} onValueChange={(value) => onChange({ ...quota, onExceeded: value as QuotaInput["onExceeded"] })}>
+          <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="deny">deny</SelectItem>
+            <SelectItem value="require_approval">require approval</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+function RuleForm({ rule, onChange }: { rule: GovernanceRuleInput; onChange: (rule: GovernanceRuleInput) => void }) {
+  const [modificationsText, setModificationsText] = useState(JSON.stringify(rule.modifications || {}, null, 2));
+
+  const toggleIntentType = (type: GovernanceRuleInput["intentTypes"][number], checked: boolean) => {
+    const intentTypes = checked ? [...rule.intentTypes, type] : rule.intentTypes.filter(item => item !== type);
+    onChange({ ...rule, intentTypes });
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rde-border rounded">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Id</Label>
+          <Input value={rule.id} onChange={(e) => onChange({ ...rule, id: e.target.value })} className="h-8 text-xs font-mono" />
+        </div>
+        <div>
+          <Label className="text-xs">Name</Label>
+          <Input value={rule.name} onChange={(e) => onChange({ ...rule, name: e.target.value })} className="h-8 text-xs" />
+        </div>
+      </div>
+      <div>
+        <Label className="text-xs">Description</Label>
+        <Input value={rule.description} onChange={(e) => onChange({ ...rule, description: e.target.value })} className="h-8 text-xs" />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label className="text-xs">Action</Label>
+          <Select
+            value={rule.action}
+            onValueChange={(value) => onChange({
+              ...rule,
+              action: value as GovernanceRuleInput["action"],
+              quota: value === "quota" ? rule.quota || newQuota() : undefined,
+              transforms: value === "modify" ? rule.transforms : undefined,
+            })}
+          >
+            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RULE_ACTIONS.map(action => (
+                <SelectItem key={action} value={action}>{action.replace('_', ' ')}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Priority</Label>
+          <Input
+            type="number"
+            value={rule.priority ?? 0}
+            onChange={(e) => onChange({ ...rule, priority: parseInt(e.target.value) || 0 })}
+            className="h-8 text-xs"
+          />
+        </div>
+      </div>
+      <div>
+        <Label className="text-xs">Intent types</Label>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-1 mt-1">
+          {INTENT_TYPES.map(type => (
+            <label key={type} className="flex items-center space-x-1 text-xs rde-text-secondary">
+              <Checkbox
+                checked={rule.intentTypes.includes(type)}
+                onCheckedChange={(checked) => toggleIntentType(type, checked === true)}
+              />
+              <span>{type.replace('_', ' ')}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Conditions (all must match)</Label>
+          <div className="flex items-center">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => onChange({ ...rule, conditions: [...rule.conditions, newSchedule()] })}
+            >
+              <Plus className="w-3 h-3 mr-1" /> Schedule
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => onChange({ ...rule, conditions: [...rule.conditions, newCondition()] })}
+            >
+              <Plus className="w-3 h-3 mr-1" /> Condition
+            </Button>
+          </div>
+        </div>
+        {rule.conditions.length === 0 && (
+          <p className="text-xs rde-text-secondary">No conditions: the rule matches every intent of the selected types.</p>
+        )}
+        {rule.conditions.map((condition, index) => (
+          <ConditionEditor
+            key={index}
+            condition={condition}
+            onChange={(next) => onChange({ ...rule, conditions: rule.conditions.map((item, i) => (i === index ? next : item)) })}
+            onRemove={() => onChange({ ...rule, conditions: rule.conditions.filter((_, i) => i !== index) })}
+          />
+        ))}
+      </div>
+      {rule.action === "quota" && rule.quota && (
+        <QuotaForm quota={rule.quota} onChange={(quota) => onChange({ ...rule, quota })} />
+      )}
+      {rule.action === "modify" && (
+        <div>
+          <Label className="text-xs">Modifications (JSON)</Label>
+          <Textarea
+            value={modificationsText}
+            onChange={(e) => {
+              setModificationsText(e.target.value);
+              try {
+                onChange({ ...rule, modifications: JSON.parse(e.target.value) });
+              } catch {
+                // Keep editing until the JSON parses
+              }
+            }}
+            className="text-xs font-mono"
+            rows={4}
+          />
+          <div className="flex items-center justify-between mt-2">
+            <Label className="text-xs">Content transforms (run in order on written files)</Label>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 text-xs"
+              onClick={() => onChange({ ...rule, transforms: [...(rule.transforms || []), newTransform("prettier")] })}
+            >
+              <Plus className="w-3 h-3 mr-1" /> Transform
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {(rule.transforms || []).map((transform, index) => (
+              <TransformEditor
+                key={index}
+                transform={transform}
+                onChange={(next) => onChange({ ...rule, transforms: rule.transforms!.map((item, i) => (i === index ? next : item)) })}
+                onRemove={() => onChange({ ...rule, transforms: rule.transforms!.filter((_, i) => i !== index) })}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function GovernanceRuleEditor() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<GovernanceRuleInput[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [testReport, setTestReport] = useState<PolicyTestReport | null>(null);
+
+  const { data: rules } = useQuery<GovernanceRuleInput[]>({
+    queryKey: ["/api/middleware/rules"],
+  });
+
+  const { data: history = [] } = useQuery<PolicyVersion[]>({
+    queryKey: ["/api/middleware/rules/history"],
+    enabled: showHistory,
+  });
+
+  useEffect(() => {
+    if (rules && !isDirty) {
+      setDraft(rules);
+    }
+  }, [rules, isDirty]);
+
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/middleware/rules"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/middleware/rules/history"] });
+    setIsDirty(false);
+    setEditingIndex(null);
+    setErrors([]);
+    setNote("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", "/api/middleware/rules", { rules: draft, note: note || undefined });
+    },
+    onSuccess: onSaved,
+    onError: (error) => setErrors(describeError(error)),
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      return await apiRequest("POST", `/api/middleware/rules/revert/${versionId}`, {});
+    },
+    onSuccess: onSaved,
+    onError: (error) => setErrors(describeError(error)),
+  });
+
+  // Policy tests run against the draft, so breakage shows up before saving
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/middleware/governance/tests/run", { rules: draft });
+      return (await response.json()) as PolicyTestReport;
+    },
+    onSuccess: (report) => {
+      setTestReport(report);
+      setErrors([]);
+    },
+    onError: (error) => setErrors(describeError(error)),
+  });
+
+  const update = (next: GovernanceRuleInput[]) => {
+    setDraft(next);
+    setIsDirty(true);
+    setTestReport(null);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+    if (editingIndex === index) setEditingIndex(target);
+  };
+
+  const handleSave = () => {
+    const parsed = governanceRulesSchema.safeParse(draft);
+    if (!parsed.success) {
+      setErrors(formatRuleIssues(parsed.error));
+      return;
+    }
+    saveMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-3">
+      {draft.map((rule, index) => (
+        <div key={index} className="space-y-2">
+          <div className="flex items-center justify-between p-2 rde-bg-accent rounded">
+            <div className="flex items-center space-x-2 min-w-0">
+              <div className="flex flex-col">
+                <button className="rde-text-secondary hover:rde-text-primary" onClick={() => move(index, -1)} disabled={index === 0}>
+                  <ArrowUp className="w-3 h-3" />
+                </button>
+                <button className="rde-text-secondary hover:rde-text-primary" onClick={() => move(index, 1)} disabled={index === draft.length - 1}>
+                  <ArrowDown className="w-3 h-3" />
+                </button>
+              </div>
+              <Switch
+                checked={rule.enabled !== false}
+                onCheckedChange={(checked) => update(draft.map((item, i) => (i === index ? { ...item, enabled: checked } : item)))}
+              />
+              <div className="min-w-0">
+                <p className={`text-sm font-medium truncate ${rule.enabled === false ? 'rde-text-secondary line-through' : 'rde-text-primary'}`}>
+                  {rule.name}
+                </p>
+                <p className="text-xs rde-text-secondary font-mono truncate">{rule.id}</p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Badge variant="secondary" className="rde-bg-primary text-xs">{rule.action.replace('_', ' ')}</Badge>
+              <span className="text-xs rde-text-secondary">p{rule.priority ?? 0}</span>
+              <Button size="sm" variant="ghost" className="h-7" onClick={() => setEditingIndex(editingIndex === index ? null : index)}>
+                <Pencil className="w-3 h-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7"
+                onClick={() => {
+                  update(draft.filter((_, i) => i !== index));
+                  setEditingIndex(null);
+                }}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          </div>
+          {editingIndex === index && (
+            <RuleForm
+              rule={rule}
+              onChange={(next) => update(draft.map((item, i) => (i === index ? next : item)))}
+            />
+          )}
+        </div>
+      ))}
+
+      {errors.length > 0 && (
+        <div className="p-2 rounded border border-red-500 space-y-1">
+          {errors.map((error, index) => (
+            <p key={index} className="text-xs text-red-400 font-mono">{error}</p>
+          ))}
+        </div>
+      )}
+
+      {testReport && (
+        <div className={`p-2 rounded border space-y-1 ${testReport.failed > 0 ? 'border-red-500' : 'border-green-600'}`}>
+          <p className="text-xs rde-text-primary">
+            Policy tests: {testReport.passed} passed, {testReport.failed} failed
+          </p>
+          {testReport.results.filter(result => !result.passed).map(result => (
+            <div key={result.name}>
+              <p className="text-xs text-red-400">{result.name}</p>
+              {result.diffs.map(diff => (
+                <p key={diff.field} className="text-xs font-mono rde-text-secondary pl-2">
+                  {diff.field}: expected {JSON.stringify(diff.expected)}, got {JSON.stringify(diff.actual)}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <Button
+          size="sm"
+          variant="outline"
+          className="text-xs"
+          onClick={() => {
+            update([...draft, newRule(draft.length)]);
+            setEditingIndex(draft.length);
+          }}
+        >
+          <Plus className="w-3 h-3 mr-1" /> Add Rule
+        </Button>
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Change note (optional)"
+          className="h-8 text-xs flex-1"
+        />
+        <Button size="sm" className="text-xs" disabled={!isDirty || saveMutation.isPending} onClick={handleSave}>
+          <Save className="w-3 h-3 mr-1" /> Save
+        </Button>
+        <Button size="sm" variant="ghost" className="text-xs" disabled={testMutation.isPending} onClick={() => testMutation.mutate()}>
+          <FlaskConical className="w-3 h-3 mr-1" /> Run Tests
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-xs"
+          disabled={!isDirty}
+          onClick={() => {
+            setIsDirty(false);
+            setEditingIndex(null);
+            setErrors([]);
+          }}
+        >
+          Discard
+        </Button>
+        <Button size="sm" variant="ghost" className="text-xs" onClick={() => setShowHistory(!showHistory)}>
+          <History className="w-3 h-3 mr-1" /> History
+        </Button>
+      </div>
+
+      {showHistory && (
+        <div className="space-y-1">
+          {history.length === 0 && <p className="text-xs rde-text-secondary">No saved versions yet.</p>}
+          {history.map(version => (
+            <div key={version.id} className="flex items-center justify-between p-2 rde-bg-accent rounded">
+              <div>
+                <p className="text-xs rde-text-primary">{new Date(version.savedAt).toLocaleString()} • {version.ruleCount} rules</p>
+                {version.note && <p className="text-xs rde-text-secondary">{version.note}</p>}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs"
+                disabled={revertMutation.isPending}
+                onClick={() => revertMutation.mutate(version.id)}
+              >
+                <Undo2 className="w-3 h-3 mr-1" /> Revert
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
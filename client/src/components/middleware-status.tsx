@@ -1,10 +1,37 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { Shield, Activity, AlertTriangle, CheckCircle, Clock } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Shield, Activity, AlertTriangle, CheckCircle, Clock, GitCommit, Undo2, ScrollText, Snowflake, Database } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { apiRequest } from "@/lib/queryClient";
+import ApprovalReview from "@/components/approval-review";
+import GovernanceRuleEditor from "@/components/governance-rule-editor";
+
+interface ChangeFreeze {
+  reason: string;
+  action: "deny" | "require_approval";
+  intentTypes: string[];
+  declaredBy?: string;
+  declaredAt: string;
+  until?: string;
+}
+
+interface AppliedMigration {
+  idx: number;
+  tag: string;
+  project: string;
+  appliedAt: string;
+  up: string;
+  down: string | null;
+}
+
+interface RevertOutcome {
+  requiresApproval: boolean;
+  errors: string[];
+  execution: { success: boolean; error?: string } | null;
+}
 
 interface MiddlewareStatusProps {
   isVisible: boolean;
@@ -30,6 +57,79 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
     enabled: isVisible,
   });
 
+  const { data: changesets = [] } = useQuery({
+    queryKey: ["/api/execution/changesets"],
+    refetchInterval: 10000,
+    enabled: isVisible,
+  });
+
+  const { data: freezeData } = useQuery<{ freeze: ChangeFreeze | null }>({
+    queryKey: ["/api/middleware/governance/freeze"],
+    refetchInterval: 30000,
+    enabled: isVisible,
+  });
+
+  const { data: migrationData } = useQuery<{ project: string; enabled: boolean; migrations: AppliedMigration[] }>({
+    queryKey: ["/api/middleware/migrations"],
+    refetchInterval: 30000,
+    enabled: isVisible,
+  });
+
+  const queryClient = useQueryClient();
+
+  const [freezeReason, setFreezeReason] = useState("");
+
+  const freezeMutation = useMutation({
+    mutationFn: async (reason: string | null) => {
+      return reason === null
+        ? await apiRequest("DELETE", "/api/middleware/governance/freeze")
+        : await apiRequest("POST", "/api/middleware/governance/freeze", { reason });
+    },
+    onSuccess: () => {
+      setFreezeReason("");
+      queryClient.invalidateQueries({ queryKey: ["/api/middleware/governance/freeze"] });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (changesetId: string) => {
+      return await apiRequest("POST", `/api/execution/changesets/${changesetId}/rollback`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/execution/changesets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/files"] });
+    },
+  });
+
+  const revertMigrationMutation = useMutation({
+    mutationFn: async (migration: AppliedMigration): Promise<RevertOutcome> => {
+      const response = await apiRequest("POST", `/api/middleware/migrations/${migration.tag}/revert`, { project: migration.project });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/middleware/migrations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/middleware/approvals"] });
+    },
+  });
+
+  const revertOutcome = revertMigrationMutation.data;
+
+  const [reviewingIntentId, setReviewingIntentId] = useState<string | null>(null);
+  const [isEditingRules, setIsEditingRules] = useState(false);
+
+  const changesetStatusClass = (status: string) => {
+    switch (status) {
+      case 'applied':
+        return 'bg-green-600';
+      case 'failed':
+        return 'bg-red-600';
+      case 'rolled_back':
+        return 'bg-gray-600';
+      default:
+        return 'bg-yellow-600';
+    }
+  };
+
   if (!isVisible) return null;
 
   return (
@@ -100,6 +200,82 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
                 </CardContent>
               </Card>
 
+              {/* Build Protocol Errors */}
+              {(status as any)?.protocol && !(status as any).protocol.valid && (
+                <Card className="rde-bg-primary border-red-500">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <AlertTriangle className="w-5 h-5 text-red-500" />
+                      <span>Invalid Build Protocol</span>
+                    </CardTitle>
+                    <CardDescription>
+                      {(status as any).protocol.usingLastGood
+                        ? "system/build-protocol.json failed validation; the last good policy is still enforced"
+                        : "system/build-protocol.json failed validation; all AI actions are denied until it is fixed"}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="space-y-1">
+                      {(status as any).protocol.errors.map((error: string, index: number) => (
+                        <li key={index} className="text-xs font-mono text-red-400">{error}</li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Change Freeze */}
+              <Card className={`rde-bg-primary ${freezeData?.freeze ? "border-blue-400" : "rde-border"}`}>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Snowflake className="w-5 h-5 text-blue-400" />
+                    <span>Change Freeze</span>
+                  </CardTitle>
+                  <CardDescription>
+                    {freezeData?.freeze
+                      ? `${freezeData.freeze.action === "deny" ? "AI actions are denied" : "AI actions need approval"}${freezeData.freeze.until ? ` until ${new Date(freezeData.freeze.until).toLocaleString()}` : ""}`
+                      : "No freeze in effect"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {freezeData?.freeze ? (
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm rde-text-primary">{freezeData.freeze.reason}</p>
+                        <p className="text-xs rde-text-secondary">
+                          Declared {new Date(freezeData.freeze.declaredAt).toLocaleString()}
+                          {freezeData.freeze.declaredBy && ` by ${freezeData.freeze.declaredBy}`}
+                          {freezeData.freeze.intentTypes.length > 0 && ` · ${freezeData.freeze.intentTypes.join(", ")}`}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" disabled={freezeMutation.isPending} onClick={() => freezeMutation.mutate(null)}>
+                        Lift Freeze
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        value={freezeReason}
+                        onChange={(e) => setFreezeReason(e.target.value)}
+                        placeholder="Reason, e.g. Release 2.4 demo"
+                        className="h-8 text-xs"
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!freezeReason.trim() || freezeMutation.isPending}
+                        onClick={() => freezeMutation.mutate(freezeReason.trim())}
+                      >
+                        Freeze Changes
+                      </Button>
+                    </div>
+                  )}
+                  {freezeMutation.isError && (
+                    <p className="text-xs text-red-400 mt-2">{(freezeMutation.error as Error).message}</p>
+                  )}
+                </CardContent>
+              </Card>
+
               {/* Pending Approvals */}
               {Array.isArray(approvals) && approvals.length > 0 && (
                 <Card className="rde-bg-primary rde-border">
@@ -114,36 +290,34 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
-                      {Array.isArray(approvals) && approvals.slice(0, 5).map((approval: any, index: number) => (
-                        <div key={index} className="flex items-center justify-between p-3 rde-bg-accent rounded">
-                          <div className="flex-1">
-                            <p className="text-sm font-medium rde-text-primary">
-                              {approval.intent.type.replace('_', ' ').toUpperCase()}
-                            </p>
-                            <p className="text-xs rde-text-secondary">
-                              {approval.intent.id} • {new Date(approval.timestamp).toLocaleTimeString()}
-                            </p>
-                          </div>
-                          <div className="flex space-x-2">
+                      {Array.isArray(approvals) && approvals.slice(0, 5).map((approval: any) => (
+                        <div key={approval.intentId} className="space-y-2">
+                          <div className="flex items-center justify-between p-3 rde-bg-accent rounded">
+                            <div className="flex-1">
+                              <p className="text-sm font-medium rde-text-primary">
+                                {approval.intent.type.replace('_', ' ').toUpperCase()}
+                              </p>
+                              <p className="text-xs rde-text-secondary">
+                                {approval.intentId} • {new Date(approval.requestedAt).toLocaleTimeString()} • expires {new Date(approval.expiresAt).toLocaleString()}
+                              </p>
+                            </div>
                             <Button
                               size="sm"
                               variant="outline"
                               className="text-xs"
-                              onClick={() => {
-                                // Handle approval
-                                apiRequest("POST", `/api/middleware/approve/${approval.intent.id}`, {});
-                              }}
-                            >
-                              Approve
-                            </Button>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              className="text-xs"
+                              onClick={() => setReviewingIntentId(
+                                reviewingIntentId === approval.intentId ? null : approval.intentId
+                              )}
                             >
-                              Reject
+                              {reviewingIntentId === approval.intentId ? "Hide" : "Review"}
                             </Button>
                           </div>
+                          {reviewingIntentId === approval.intentId && (
+                            <ApprovalReview
+                              intentId={approval.intentId}
+                              onDecided={() => setReviewingIntentId(null)}
+                            />
+                          )}
                         </div>
                       ))}
                     </div>
@@ -151,6 +325,147 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
                 </Card>
               )}
 
+              {/* Governance Rules */}
+              <Card className="rde-bg-primary rde-border">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center space-x-2">
+                      <ScrollText className="w-5 h-5" />
+                      <span>Governance Rules</span>
+                    </CardTitle>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-xs"
+                      onClick={() => setIsEditingRules(!isEditingRules)}
+                    >
+                      {isEditingRules ? "Close Editor" : "Edit Rules"}
+                    </Button>
+                  </div>
+                  <CardDescription>
+                    Policy from system/build-protocol.json; every save is versioned
+                  </CardDescription>
+                </CardHeader>
+                {isEditingRules && (
+                  <CardContent>
+                    <GovernanceRuleEditor />
+                  </CardContent>
+                )}
+              </Card>
+
+              {/* Recent Changesets */}
+              {Array.isArray(changesets) && changesets.length > 0 && (
+                <Card className="rde-bg-primary rde-border">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <GitCommit className="w-5 h-5" />
+                      <span>Recent Changesets</span>
+                    </CardTitle>
+                    <CardDescription>
+                      File operations applied together from a single chat response
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-3">
+                      {changesets.slice(0, 5).map((changeset: any) => (
+                        <div key={changeset.id} className="flex items-center justify-between p-3 rde-bg-accent rounded">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium rde-text-primary truncate">
+                              {changeset.operations.map((operation: any) => operation.targetPath).join(', ')}
+                            </p>
+                            <p className="text-xs rde-text-secondary">
+                              {changeset.operations.length} operation(s) • {new Date(changeset.createdAt).toLocaleTimeString()}
+                            </p>
+                            {changeset.error && (
+                              <p className="text-xs text-red-400 truncate">{changeset.error}</p>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2 ml-3">
+                            <Badge className={`text-xs ${changesetStatusClass(changeset.status)}`}>
+                              {changeset.status.replace('_', ' ')}
+                            </Badge>
+                            {changeset.status === 'applied' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-xs"
+                                disabled={rollbackMutation.isPending}
+                                onClick={() => rollbackMutation.mutate(changeset.id)}
+                              >
+                                <Undo2 className="w-3 h-3 mr-1" />
+                                Rollback
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    {rollbackMutation.isError && (
+                      <p className="text-xs text-red-400 mt-2">{(rollbackMutation.error as Error).message}</p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Migrations */}
+              {migrationData?.enabled && (
+                <Card className="rde-bg-primary rde-border">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Database className="w-5 h-5" />
+                      <span>Migrations</span>
+                    </CardTitle>
+                    <CardDescription>
+                      Schema changes applied to {migrationData.project}; only the latest can be reverted
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {migrationData.migrations.length === 0 ? (
+                      <p className="text-xs rde-text-secondary">No migrations applied yet</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {migrationData.migrations.slice(-5).reverse().map((migration, index) => (
+                          <div key={migration.tag} className="flex items-center justify-between p-3 rde-bg-accent rounded">
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-mono rde-text-primary truncate">{migration.tag}</p>
+                              <p className="text-xs rde-text-secondary">
+                                {new Date(migration.appliedAt).toLocaleString()}
+                                {!migration.down && " • no down script"}
+                              </p>
+                            </div>
+                            {index === 0 && migration.down && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="text-xs ml-3"
+                                disabled={revertMigrationMutation.isPending}
+                                title="Withdraw this migration; only possible while drizzle has not applied it"
+                                onClick={() => revertMigrationMutation.mutate(migration)}
+                              >
+                                <Undo2 className="w-3 h-3 mr-1" />
+                                Revert
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {revertOutcome?.requiresApproval && (
+                      <p className="text-xs text-yellow-400 mt-2">Revert is waiting for approval</p>
+                    )}
+                    {revertOutcome && revertOutcome.errors.length > 0 && (
+                      <p className="text-xs text-red-400 mt-2">{revertOutcome.errors.join(", ")}</p>
+                    )}
+                    {revertOutcome?.execution && !revertOutcome.execution.success && (
+                      <p className="text-xs text-red-400 mt-2">{revertOutcome.execution.error}</p>
+                    )}
+                    {revertMigrationMutation.isError && (
+                      <p className="text-xs text-red-400 mt-2">{(revertMigrationMutation.error as Error).message}</p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Audit Statistics */}
               {auditStats && (
                 <Card className="rde-bg-primary rde-border">
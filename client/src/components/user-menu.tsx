@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { LogIn, LogOut, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface CurrentUser {
+  id: string;
+  role: string;
+  permissions: string[];
+}
+
+const ANONYMOUS_USER_ID = "anonymous";
+
+export default function UserMenu() {
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: user } = useQuery<CurrentUser>({
+    queryKey: ["/api/users/me"],
+  });
+
+  // Permissions change with the user, so every cached query is stale
+  const loginMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/login", { username, password });
+      return response.json();
+    },
+    onSuccess: () => {
+      setPassword("");
+      setOpen(false);
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+
+  if (user && user.id !== ANONYMOUS_USER_ID) {
+    return (
+      <div className="flex items-center space-x-1">
+        <User className="w-3 h-3" />
+        <span>User {user.id} ({user.role})</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-xs hover:rde-bg-accent"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+        >
+          <LogOut className="w-3 h-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs hover:rde-bg-accent">
+          <LogIn className="w-3 h-3 mr-1" />
+          Log in
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-2">
+        <p className="text-xs text-muted-foreground">Without logging in you can only read and chat.</p>
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            loginMutation.mutate();
+          }}
+        >
+          <Input placeholder="Username" value={username} onChange={(event) => setUsername(event.target.value)} />
+          <Input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+          />
+          {loginMutation.isError && (
+            <p className="text-xs text-red-400">Invalid username or password</p>
+          )}
+          <Button type="submit" size="sm" className="w-full" disabled={!username || !password || loginMutation.isPending}>
+            Log in
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
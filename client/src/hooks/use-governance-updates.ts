@@ -0,0 +1,63 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+
+// Middleware queries whose answers depend on the governance policy
+const POLICY_QUERY_PREFIXES = [
+  "/api/middleware/status",
+  "/api/middleware/rules",
+  "/api/middleware/approvals",
+  "/api/middleware/governance/freeze",
+];
+
+function describeDiff(diff: { added: string[]; removed: string[]; changed: string[]; settingsChanged: boolean }): string {
+  const parts = [
+    diff.added.length > 0 && `${diff.added.length} added`,
+    diff.removed.length > 0 && `${diff.removed.length} removed`,
+    diff.changed.length > 0 && `${diff.changed.length} changed`,
+    diff.settingsChanged && "settings changed",
+  ].filter(Boolean);
+  return parts.length > 0 ? `Rules: ${parts.join(", ")}` : "No rule changes";
+}
+
+/**
+ * Refresh governance views and raise alerts when the server reloads the build protocol
+ */
+export function useGovernanceUpdates() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const refreshPolicyQueries = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => POLICY_QUERY_PREFIXES.some(prefix => String(query.queryKey[0]).startsWith(prefix)),
+    });
+  };
+
+  useWebSocket({
+    onMessage: (message) => {
+      if (message.type === "governance:updated") {
+        refreshPolicyQueries();
+        toast({
+          title: message.source === "api" ? "Governance rules saved" : "Governance policy reloaded",
+          description: describeDiff(message.diff),
+        });
+      } else if (message.type === "governance:reload_failed") {
+        refreshPolicyQueries();
+        toast({
+          variant: "destructive",
+          title: "Build protocol reload failed",
+          description: message.keptLastGood
+            ? `The last good policy is still enforced. ${message.errors[0] ?? ""}`
+            : `All AI actions are denied until it is fixed. ${message.errors[0] ?? ""}`,
+        });
+      } else if (message.type === "governance:freeze") {
+        refreshPolicyQueries();
+        toast({
+          variant: message.freeze ? "destructive" : "default",
+          title: message.freeze ? "Change freeze declared" : "Change freeze lifted",
+          description: message.freeze?.reason,
+        });
+      }
+    },
+  });
+}
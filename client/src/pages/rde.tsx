@@ -6,6 +6,8 @@ import Terminal from "@/components/terminal";
 import ChatInterface from "@/components/chat-interface";
 import PreviewWindow from "@/components/preview-window";
 import MiddlewareStatus from "@/components/middleware-status";
+import UserMenu from "@/components/user-menu";
+import { useGovernanceUpdates } from "@/hooks/use-governance-updates";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { Eye, Layout, FileText, Terminal as TerminalIcon, MessageSquare, Shield } from "lucide-react";
@@ -16,6 +18,8 @@ export default function RDEPage() {
   const [showPreview, setShowPreview] = useState(false);
   const [showMiddleware, setShowMiddleware] = useState(false);
 
+  useGovernanceUpdates();
+
   const handleFileSelect = (filePath: string) => {
     setSelectedFile(filePath);
     if (!openTabs.includes(filePath)) {
@@ -72,6 +76,7 @@ export default function RDEPage() {
           >
             Middleware Status
           </Button>
+          <UserMenu />
         </div>
       </div>
 
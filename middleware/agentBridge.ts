@@ -3,11 +3,42 @@
  * Core coordinator linking AI chat output → Middleware → Execution layer
  */
 
-import { Intent, AgentBridgeConfig, ParsedChatOutput, ExecutionContext, ExecutionResult } from './types';
+import {
+  Intent,
+  AgentBridgeConfig,
+  ParsedChatOutput,
+  ExecutionContext,
+  ExecutionResult,
+  ChangesetOperation,
+  ChangesetApprovedEvent,
+  ChangesetApplier,
+  ChangesetOutcome,
+  ApprovalRecord,
+  ApprovalStatus,
+  GovernanceRule,
+  GovernanceSimulation,
+  UserContext,
+  ProtocolStatus,
+  PolicyTestReport,
+  GovernanceUpdateEvent,
+  GovernanceReloadFailedEvent,
+  ChangeFreeze,
+  MigrationIntent,
+  AppliedMigration,
+  MigrationDryRun,
+  MigrationSettings,
+} from './types';
 import { IntentParser } from './intentParser';
+import { ToolIntentParser } from './toolIntentParser';
 import { GovernanceValidator } from './governanceValidator';
 import { ExecutionRouter } from './executionRouter';
 import { AuditLogger } from './auditLogger';
+import { ApprovalStore } from './approvalStore';
+import { MigrationRunner } from './migrationRunner';
+import { analyzeMigration } from './sqlMigration';
+import { PERMISSIONS, hasPermission, assertPermissions, requiredApprovalPermissions } from './permissions';
+import { ChangeFreezeError, freezeAppliesTo } from './changeFreeze';
+import type { PolicyVersion, ChangeFreezeInput } from '../shared/governance';
 import { nanoid } from 'nanoid';
 import { EventEmitter } from 'events';
 
@@ -17,6 +48,9 @@ export class AgentBridge extends EventEmitter {
   private validator: GovernanceValidator;
   private router: ExecutionRouter;
   private auditor: AuditLogger;
+  private approvals: ApprovalStore;
+  private migrations: MigrationRunner;
+  private changesetApplier: ChangesetApplier | null = null;
   private isInitialized = false;
 
   private constructor() {
@@ -25,6 +59,13 @@ export class AgentBridge extends EventEmitter {
     this.validator = new GovernanceValidator();
     this.router = ExecutionRouter.getInstance();
     this.auditor = AuditLogger.getInstance();
+    this.approvals = ApprovalStore.getInstance();
+    this.migrations = MigrationRunner.getInstance();
+
+    // Re-announce policy reloads for the host application to push to clients
+    this.validator.on('policy-updated', (event: GovernanceUpdateEvent) => this.emit('governance-updated', event));
+    this.validator.on('policy-reload-failed', (event: GovernanceReloadFailedEvent) => this.emit('governance-reload-failed', event));
+    this.validator.on('freeze-changed', (freeze: ChangeFreeze | null) => this.emit('governance-freeze-changed', freeze));
   }
 
   public static getInstance(): AgentBridge {
@@ -45,6 +86,13 @@ export class AgentBridge extends EventEmitter {
     // Create default governance rules if needed
     await this.validator.createDefaultBuildProtocol();
 
+    const protocol = await this.validator.getProtocolStatus();
+    if (!protocol.valid) {
+      console.error('[AgentBridge] Build protocol is invalid; all intents will be denied until it is fixed:');
+      protocol.errors.forEach(error => console.error(`[AgentBridge]   ${error}`));
+    }
+    this.validator.watchProtocol();
+
     this.isInitialized = true;
     console.log('[AgentBridge] Initialized successfully');
     console.log('[AgentBridge] Configuration:', this.config);
@@ -57,12 +105,14 @@ export class AgentBridge extends EventEmitter {
     message: string,
     sessionId: string,
     options: {
-      userId?: string;
+      user: UserContext; // HOST_USER for work the host application starts itself
       currentFile?: string;
       autoExecute?: boolean;
-    } = {}
+    }
   ): Promise<{
     parsed: ParsedChatOutput;
+    changesetId: string;
+    changesetIds: string[]; // Changesets actually handed to the Execution Engine, in order
     results: Array<{
       intent: Intent;
       validation: any;
@@ -83,7 +133,7 @@ export class AgentBridge extends EventEmitter {
 
     // Step 1: Parse intents from chat message
     const parsed = this.config.enableIntentParsing 
-      ? IntentParser.parseChatMessage(message, sessionId)
+      ? await this.parseMessage(message, sessionId)
       : { 
           originalMessage: message, 
           intents: [], 
@@ -96,6 +146,14 @@ export class AgentBridge extends EventEmitter {
           } 
         };
 
+    // Credentials in the reply must not reach the audit log or approval queue
+    const auditMessage = await this.validator.maskSecrets(message);
+
+    // File operations are applied in reply order: consecutive ones form one changeset, which
+    // is applied before any later intent runs so commands see the files written before them
+    const changesetId = nanoid();
+    const changesetIds: string[] = [];
+    let pendingFiles: Array<{ result: any; operation: ChangesetOperation }> = [];
     const results: any[] = [];
     const summary = {
       totalIntents: parsed.intents.length,
@@ -105,24 +163,69 @@ export class AgentBridge extends EventEmitter {
       pendingApprovals: 0,
     };
 
+    const applyPendingFiles = async () => {
+      if (pendingFiles.length === 0) {
+        return;
+      }
+      const batch = pendingFiles;
+      pendingFiles = [];
+
+      const id = changesetIds.length === 0 ? changesetId : `${changesetId}-${changesetIds.length + 1}`;
+      changesetIds.push(id);
+      const outcome = await this.applyChangeset({
+        changesetId: id,
+        operations: batch.map(entry => entry.operation),
+        timestamp: new Date(),
+        userId: options.user.id,
+        sessionId,
+      });
+
+      for (const { result } of batch) {
+        result.execution = this.withChangesetOutcome(result.execution, outcome);
+        if (result.execution.success) {
+          summary.executedIntents++;
+        }
+        if (this.config.enableAudit) {
+          await this.auditor.logIntentProcessing(
+            result.intent,
+            result.validation,
+            result.execution,
+            { chatMessage: auditMessage, userId: options.user.id, sessionId },
+            id
+          );
+        }
+      }
+    };
+
     // Step 2: Process each intent
     for (const intent of parsed.intents) {
       try {
+        if (!this.toChangesetOperation(intent)) {
+          await applyPendingFiles();
+        }
+
         const result = await this.processIntent(intent, sessionId, {
-          userId: options.userId,
+          user: options.user,
           currentFile: options.currentFile,
           autoExecute: options.autoExecute ?? false,
-          chatMessage: message,
+          chatMessage: auditMessage,
+          changesetId,
         });
 
         results.push(result);
 
+        // The executed intent carries governance modifications such as redacted secrets
+        const operation = result.execution?.success ? this.toChangesetOperation(result.execution.intent) : null;
+
         // Update summary
         if (result.validation.isValid) {
           summary.validIntents++;
           
           if (result.validation.requiresApproval) {
             summary.pendingApprovals++;
+          } else if (operation) {
+            // Counted once the Execution Engine reports the changeset applied
+            pendingFiles.push({ result, operation });
           } else if (result.execution) {
             summary.executedIntents++;
           }
@@ -142,6 +245,8 @@ export class AgentBridge extends EventEmitter {
             warnings: [],
             modifications: {},
             requiresApproval: false,
+            decision: 'deny' as const,
+            overriddenRules: [],
           },
           error: errorMessage,
         };
@@ -155,13 +260,37 @@ export class AgentBridge extends EventEmitter {
             intent,
             errorResult.validation,
             undefined,
-            { chatMessage: message, userId: options.userId, sessionId }
+            { chatMessage: auditMessage, userId: options.user.id, sessionId },
+            changesetId
           );
         }
       }
     }
 
-    return { parsed, results, summary };
+    // Step 3: Apply the file operations that end the reply
+    await applyPendingFiles();
+
+    return { parsed, changesetId, changesetIds, results, summary };
+  }
+
+  /**
+   * Parse a chat message with the parser mode selected in the build protocol
+   */
+  private async parseMessage(message: string, sessionId: string): Promise<ParsedChatOutput> {
+    const settings = await this.validator.getIntentParserSettings();
+
+    const parsed = settings.mode === 'tool_use'
+      ? await ToolIntentParser.fromSettings(settings).parseChatMessage(message, sessionId)
+      : IntentParser.parseChatMessage(message, sessionId);
+
+    // Migration intents only exist when the build protocol turns them on
+    const migrations = parsed.intents.filter(intent => intent.type === 'migration');
+    if (migrations.length > 0 && !(await this.validator.getMigrationSettings()).enabled) {
+      parsed.intents = parsed.intents.filter(intent => intent.type !== 'migration');
+      parsed.parseErrors.push(`Ignored ${migrations.length} migration(s): migrations are disabled in the build protocol`);
+    }
+
+    return parsed;
   }
 
   /**
@@ -171,10 +300,11 @@ export class AgentBridge extends EventEmitter {
     intent: Intent,
     sessionId: string,
     options: {
-      userId?: string;
+      user: UserContext;
       currentFile?: string;
       autoExecute: boolean;
       chatMessage: string;
+      changesetId: string;
     }
   ): Promise<{
     intent: Intent;
@@ -183,7 +313,11 @@ export class AgentBridge extends EventEmitter {
   }> {
     // Step 1: Validate intent
     const validation = this.config.enableGovernance
-      ? await this.validator.validateIntent(intent)
+      ? await this.validator.validateIntent(intent, {
+          user: options.user,
+          sessionId,
+          changesetId: options.changesetId,
+        })
       : { 
           isValid: true, 
           intent,
@@ -191,17 +325,34 @@ export class AgentBridge extends EventEmitter {
           errors: [], 
           warnings: [], 
           modifications: {}, 
-          requiresApproval: false 
+          requiresApproval: false,
+          decision: 'allow' as const,
+          overriddenRules: [],
         };
 
     let execution: ExecutionResult | undefined;
 
+    const mayExecute = hasPermission(options.user, PERMISSIONS.EXECUTE);
+    if (!mayExecute && validation.isValid && !validation.requiresApproval && options.autoExecute) {
+      validation.warnings.push(
+        `Not executed: ${options.user.role} user ${options.user.id} lacks '${PERMISSIONS.EXECUTE}' permission`
+      );
+    }
+
     // Step 2: Execute if valid and conditions are met
-    if (validation.isValid && !validation.requiresApproval && options.autoExecute && this.config.enableExecution) {
+    if (validation.isValid && !validation.requiresApproval && options.autoExecute && this.config.enableExecution && mayExecute) {
+      if (this.config.enableGovernance) {
+        await this.validator.recordQuotaUsage(intent, {
+          user: options.user,
+          sessionId,
+          changesetId: options.changesetId,
+        });
+      }
+
       const context: ExecutionContext = {
         intent,
         validation,
-        user: options.userId ? { id: options.userId, permissions: ['read', 'write'] } : undefined,
+        user: options.user,
         environment: {
           workingDirectory: '/projects/default-app',
           nodeEnv: process.env.NODE_ENV || 'development',
@@ -210,41 +361,115 @@ export class AgentBridge extends EventEmitter {
       };
 
       execution = await this.router.routeIntent(context);
-      
-      // Emit approved intent event for Execution Engine
-      if (execution.success && (intent.type === 'file_operation' || intent.type === 'code_generation')) {
-        const intentAny = intent as any;
-        this.emit('intent-approved', {
-          intentId: intent.id,
-          operation: intentAny.operation || 'create',
-          targetPath: intentAny.target?.file || intentAny.target?.path,
-          content: intentAny.target?.content,
-          newPath: intentAny.target?.newPath,
-          timestamp: new Date(),
-          userId: options.userId,
-          sessionId,
-          executionResult: execution,
-        });
-      }
     }
 
-    // Step 3: Audit the processing
-    if (this.config.enableAudit) {
+    // Queue for manual review when governance requires approval
+    if (validation.isValid && validation.requiresApproval) {
+      await this.approvals.enqueue(
+        intent,
+        validation,
+        { chatMessage: options.chatMessage, userId: options.user.id, sessionId },
+        this.config.approvalTimeout,
+        options.changesetId
+      );
+    }
+
+    // Step 3: Audit the processing; executed file operations are audited by the caller once
+    // their changeset has been applied or has failed
+    const appliesChangeset = execution?.success && this.toChangesetOperation(execution.intent);
+    if (this.config.enableAudit && !appliesChangeset) {
       await this.auditor.logIntentProcessing(
         intent,
         validation,
         execution,
         {
           chatMessage: options.chatMessage,
-          userId: options.userId,
+          userId: options.user.id,
           sessionId,
-        }
+        },
+        options.changesetId
       );
     }
 
     return { intent, validation, execution };
   }
 
+  /**
+   * Describe a file-writing intent as a changeset operation
+   */
+  private toChangesetOperation(intent: Intent): ChangesetOperation | null {
+    if (intent.type !== 'file_operation' && intent.type !== 'code_generation') {
+      return null;
+    }
+
+    const intentAny = intent as any;
+    const targetPath = intentAny.target?.file || intentAny.target?.path;
+    if (!targetPath) {
+      return null;
+    }
+
+    return {
+      intentId: intent.id,
+      operation: intentAny.operation || 'create',
+      targetPath,
+      content: intentAny.target?.content,
+      newPath: intentAny.target?.newPath,
+      hunks: intentAny.target?.hunks,
+    };
+  }
+
+  /**
+   * Attach the Execution Engine that applies approved changesets
+   */
+  public setChangesetApplier(applier: ChangesetApplier | null): void {
+    this.changesetApplier = applier;
+  }
+
+  /**
+   * Announce an approved changeset and wait for the Execution Engine to apply it
+   */
+  private async applyChangeset(changeset: ChangesetApprovedEvent): Promise<ChangesetOutcome> {
+    this.emit('changeset-approved', changeset);
+
+    if (!this.changesetApplier) {
+      return {
+        changesetId: changeset.changesetId,
+        status: 'failed',
+        error: 'No execution engine is attached; the changeset was not applied',
+        results: [],
+      };
+    }
+
+    try {
+      return await this.changesetApplier(changeset);
+    } catch (error: unknown) {
+      return {
+        changesetId: changeset.changesetId,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        results: [],
+      };
+    }
+  }
+
+  /**
+   * Report a file operation as applied or failed according to its changeset
+   */
+  private withChangesetOutcome(execution: ExecutionResult, outcome: ChangesetOutcome): ExecutionResult {
+    if (outcome.status === 'applied') {
+      return { ...execution, output: `Applied in changeset ${outcome.changesetId}` };
+    }
+
+    // A failed changeset is rolled back as a whole, including operations that succeeded
+    const own = outcome.results.find(result => result.intentId === execution.intent.id);
+    return {
+      ...execution,
+      success: false,
+      output: undefined,
+      error: own && !own.success ? own.error : `Changeset ${outcome.changesetId} was not applied: ${outcome.error}`,
+    };
+  }
+
   /**
    * Execute a previously validated intent
    */
@@ -252,18 +477,24 @@ export class AgentBridge extends EventEmitter {
     intent: Intent,
     sessionId: string,
     options: {
-      userId?: string;
+      user: UserContext; // HOST_USER for work the host application starts itself
       skipValidation?: boolean;
-    } = {}
+      modifications?: Record<string, any>; // Governance modifications decided before approval
+    }
   ): Promise<ExecutionResult> {
     if (!this.isInitialized) {
       throw new Error('AgentBridge not initialized');
     }
 
+    assertPermissions(options.user, [PERMISSIONS.EXECUTE]);
+
+    const changesetId = nanoid();
+    const quotaContext = { user: options.user, sessionId, changesetId };
+
     // Validate intent unless skipped
     let validation;
     if (!options.skipValidation) {
-      validation = await this.validator.validateIntent(intent);
+      validation = await this.validator.validateIntent(intent, quotaContext);
       if (!validation.isValid) {
         throw new Error(`Intent validation failed: ${validation.errors.join(', ')}`);
       }
@@ -274,8 +505,10 @@ export class AgentBridge extends EventEmitter {
         appliedRules: [], 
         errors: [], 
         warnings: [], 
-        modifications: {}, 
-        requiresApproval: false 
+        modifications: options.modifications || {},
+        requiresApproval: false,
+        decision: 'allow' as const,
+        overriddenRules: [],
       };
     }
 
@@ -283,7 +516,7 @@ export class AgentBridge extends EventEmitter {
     const context: ExecutionContext = {
       intent,
       validation,
-      user: options.userId ? { id: options.userId, permissions: ['read', 'write'] } : undefined,
+      user: options.user,
       environment: {
         workingDirectory: '/projects/default-app',
         nodeEnv: process.env.NODE_ENV || 'development',
@@ -291,8 +524,24 @@ export class AgentBridge extends EventEmitter {
       },
     };
 
-    // Execute intent
-    const execution = await this.router.routeIntent(context);
+    // Approved intents count against quotas too
+    if (this.config.enableGovernance) {
+      await this.validator.recordQuotaUsage(intent, quotaContext);
+    }
+
+    // Execute intent; file operations count only once the Execution Engine has applied them
+    let execution = await this.router.routeIntent(context);
+    const operation = execution.success ? this.toChangesetOperation(execution.intent) : null;
+    if (operation) {
+      const outcome = await this.applyChangeset({
+        changesetId,
+        operations: [operation],
+        timestamp: new Date(),
+        userId: options.user.id,
+        sessionId,
+      });
+      execution = this.withChangesetOutcome(execution, outcome);
+    }
 
     // Audit the execution
     if (this.config.enableAudit) {
@@ -300,7 +549,8 @@ export class AgentBridge extends EventEmitter {
         intent,
         validation,
         execution,
-        { sessionId, userId: options.userId }
+        { sessionId, userId: options.user.id },
+        changesetId
       );
     }
 
@@ -308,48 +558,201 @@ export class AgentBridge extends EventEmitter {
   }
 
   /**
-   * Get pending intents requiring approval
+   * Migration settings from the build protocol
    */
-  public async getPendingApprovals(): Promise<Array<{
-    intent: Intent;
-    validation: any;
-    source: any;
-    timestamp: Date;
-  }>> {
-    const entries = await this.auditor.queryAuditLog({
-      outcomes: ['pending_approval'],
-      limit: 100,
+  public async getMigrationSettings(): Promise<MigrationSettings> {
+    return await this.validator.getMigrationSettings();
+  }
+
+  /**
+   * Migrations applied to a project, oldest first
+   */
+  public async listMigrations(project: string): Promise<AppliedMigration[]> {
+    return await this.migrations.list(project);
+  }
+
+  /**
+   * Run a migration intent against a scratch copy of the stand-in database
+   */
+  public async dryRunMigration(intent: MigrationIntent): Promise<MigrationDryRun> {
+    try {
+      return await this.migrations.dryRun(intent);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return { ok: false, error: errorMessage, schemaChanges: [], roundTrip: 'skipped' };
+    }
+  }
+
+  /**
+   * Revert the latest migration of a project. The revert is an intent of its own, so
+   * governance decides whether it runs now or waits for approval, and it is audited.
+   */
+  public async revertMigration(
+    project: string,
+    tag: string,
+    sessionId: string,
+    user: UserContext
+  ): Promise<{ intent: Intent; validation: any; execution?: ExecutionResult }> {
+    if (!this.isInitialized) {
+      throw new Error('AgentBridge not initialized');
+    }
+    if (!(await this.validator.getMigrationSettings()).enabled) {
+      throw new Error('Migrations are disabled in the build protocol');
+    }
+
+    const applied = await this.migrations.list(project);
+    const migration = applied.find(candidate => candidate.tag === tag);
+    if (!migration) {
+      throw new Error(`Migration ${tag} not found in ${project}`);
+    }
+    const latest = applied[applied.length - 1];
+    if (migration !== latest) {
+      throw new Error(`Only the latest migration can be reverted; the latest is ${latest?.tag}`);
+    }
+    if (!migration.down) {
+      throw new Error(`Migration ${tag} has no down script`);
+    }
+
+    const intent: MigrationIntent = {
+      id: nanoid(),
+      type: 'migration',
+      timestamp: new Date(),
+      source: 'user_input',
+      priority: analyzeMigration(migration.down).destructive ? 'critical' : 'high',
+      operation: 'revert',
+      project: migration.project,
+      name: migration.tag,
+      up: migration.up,
+      down: migration.down,
+      description: `Revert ${migration.tag}`,
+    };
+
+    return await this.processIntent(intent, sessionId, {
+      user,
+      autoExecute: true,
+      chatMessage: `Revert migration ${migration.tag} in ${migration.project}`,
+      changesetId: nanoid(),
     });
+  }
+
+  /**
+   * Get pending intents requiring approval
+   */
+  public async getPendingApprovals(): Promise<ApprovalRecord[]> {
+    return await this.approvals.list('pending');
+  }
+
+  /**
+   * Get approval records, optionally filtered by status
+   */
+  public async getApprovals(status?: ApprovalStatus): Promise<ApprovalRecord[]> {
+    return await this.approvals.list(status);
+  }
+
+  /**
+   * Get a single approval record
+   */
+  public async getApproval(intentId: string): Promise<ApprovalRecord | undefined> {
+    return await this.approvals.get(intentId);
+  }
+
+  /**
+   * Check that a reviewer may decide on a queued intent; critical intents need maintainers
+   */
+  private async assertCanReview(intentId: string, reviewer: UserContext): Promise<ApprovalRecord> {
+    const pending = await this.approvals.get(intentId);
+    if (!pending) {
+      throw new Error(`Intent ${intentId} not found in approval queue`);
+    }
+    assertPermissions(reviewer, requiredApprovalPermissions(pending.intent));
+    return pending;
+  }
 
-    return entries.map(entry => ({
-      intent: entry.intent,
-      validation: entry.validation,
-      source: entry.source,
-      timestamp: entry.timestamp,
-    }));
+  /**
+   * Approved intents run without validation, so a deny freeze declared after they were
+   * queued is checked here. Only users who manage rules, and so could lift the freeze, may
+   * override it. Returns whether the freeze was overridden.
+   */
+  private async assertNotFrozen(intent: Intent, reviewer: UserContext, overrideFreeze: boolean): Promise<boolean> {
+    const freeze = await this.validator.getChangeFreeze();
+    if (!freeze || freeze.action !== 'deny' || !freezeAppliesTo(freeze, intent.type)) {
+      return false;
+    }
+    if (!overrideFreeze) {
+      throw new ChangeFreezeError(freeze);
+    }
+    assertPermissions(reviewer, [PERMISSIONS.MANAGE_RULES]);
+    console.log(`[AgentBridge] ${reviewer.id} approved ${intent.id} despite the change freeze: ${freeze.reason}`);
+    return true;
   }
 
   /**
-   * Approve a pending intent
+   * Approve a pending intent and execute it exactly once. Refused with ChangeFreezeError
+   * while a deny freeze covers the intent, unless overrideFreeze is set, and with
+   * PermissionDeniedError when the reviewer may not execute it; either way it stays pending.
    */
   public async approveIntent(
     intentId: string,
     sessionId: string,
-    userId?: string
+    reviewer: UserContext,
+    reason?: string,
+    options: { overrideFreeze?: boolean } = {}
   ): Promise<ExecutionResult> {
-    const entries = await this.auditor.queryAuditLog({
-      outcomes: ['pending_approval'],
-    });
+    const pending = await this.assertCanReview(intentId, reviewer);
+    // The intent runs as the reviewer; check that before it leaves the queue, which cannot be undone
+    assertPermissions(reviewer, [PERMISSIONS.EXECUTE]);
+    const overridden = await this.assertNotFrozen(pending.intent, reviewer, options.overrideFreeze ?? false);
+    const reviewReason = overridden ? [reason, 'Overrode the change freeze'].filter(Boolean).join('; ') : reason;
+    const record = await this.approvals.approve(intentId, reviewer.id, reviewReason);
+
+    let execution: ExecutionResult;
+    try {
+      execution = await this.executeIntent(record.intent, sessionId, {
+        user: reviewer,
+        skipValidation: true,
+        modifications: record.validation.modifications,
+      });
+    } catch (error: unknown) {
+      execution = {
+        success: false,
+        intent: record.intent,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: 0,
+      };
+    }
+
+    await this.approvals.markExecuted(intentId, execution);
+    return execution;
+  }
 
-    const entry = entries.find(e => e.intent.id === intentId);
-    if (!entry) {
-      throw new Error(`Intent ${intentId} not found or not pending approval`);
+  /**
+   * Reject a pending intent
+   */
+  public async rejectIntent(
+    intentId: string,
+    reviewer: UserContext,
+    reason?: string
+  ): Promise<ApprovalRecord> {
+    await this.assertCanReview(intentId, reviewer);
+    const record = await this.approvals.reject(intentId, reviewer.id, reason);
+
+    if (this.config.enableAudit) {
+      await this.auditor.logIntentProcessing(
+        record.intent,
+        {
+          ...record.validation,
+          isValid: false,
+          errors: [...record.validation.errors, `Rejected by ${reviewer.id}${reason ? `: ${reason}` : ''}`],
+          requiresApproval: false,
+          decision: 'deny',
+        },
+        undefined,
+        { ...record.source, userId: reviewer.id },
+        record.changesetId
+      );
     }
 
-    return await this.executeIntent(entry.intent, sessionId, {
-      userId,
-      skipValidation: true,
-    });
+    return record;
   }
 
   /**
@@ -384,8 +787,110 @@ export class AgentBridge extends EventEmitter {
   /**
    * Update governance rules
    */
-  public async updateGovernanceRules(rules: any[]): Promise<void> {
-    await this.validator.updateRules(rules);
+  public async updateGovernanceRules(rules: any[], note?: string): Promise<PolicyVersion> {
+    return await this.validator.updateRules(rules, note);
+  }
+
+  /**
+   * List saved governance policy versions
+   */
+  public async getGovernanceRuleHistory(): Promise<PolicyVersion[]> {
+    return await this.validator.getRuleHistory();
+  }
+
+  /**
+   * Revert governance rules to a saved version
+   */
+  public async revertGovernanceRules(versionId: string): Promise<PolicyVersion> {
+    return await this.validator.revertRules(versionId);
+  }
+
+  /**
+   * Run the build protocol's policy tests, optionally against draft rules
+   */
+  public async runPolicyTests(rules?: GovernanceRule[]): Promise<PolicyTestReport> {
+    return await this.validator.runPolicyTests(rules);
+  }
+
+  /**
+   * Usage recorded per quota rule and scope
+   */
+  public async getQuotaUsage(): Promise<Record<string, number>> {
+    return await this.validator.getQuotaUsage();
+  }
+
+  /**
+   * Dry-run governance for an intent or the intents parsed from a chat message.
+   * Nothing is executed, queued or audited.
+   */
+  public async simulateGovernance(input: {
+    intent?: Partial<Intent>;
+    message?: string;
+    rules?: GovernanceRule[];
+    user?: UserContext;
+    at?: Date;
+  }): Promise<{
+    parseErrors: string[];
+    results: Array<{ intent: Intent } & GovernanceSimulation>;
+  }> {
+    let intents: Intent[];
+    let parseErrors: string[] = [];
+
+    if (input.intent) {
+      intents = [{
+        id: `sim_${nanoid()}`,
+        timestamp: new Date(),
+        source: 'ai_chat',
+        priority: 'medium',
+        ...input.intent,
+      } as Intent];
+    } else if (input.message) {
+      const parsed = await this.parseMessage(input.message, 'governance-simulation');
+      intents = parsed.intents;
+      parseErrors = parsed.parseErrors;
+    } else {
+      throw new Error('Either an intent or a message is required');
+    }
+
+    const results = [];
+    for (const intent of intents) {
+      const simulation = await this.validator.simulateIntent(intent, input.rules, { user: input.user, now: input.at });
+      results.push({ intent, ...simulation });
+    }
+
+    return { parseErrors, results };
+  }
+
+  /**
+   * The change freeze in effect, if any
+   */
+  public async getChangeFreeze(): Promise<ChangeFreeze | null> {
+    return await this.validator.getChangeFreeze();
+  }
+
+  /**
+   * Declare a change freeze on behalf of a user
+   */
+  public async declareChangeFreeze(input: ChangeFreezeInput, user?: UserContext): Promise<ChangeFreeze> {
+    return await this.validator.declareChangeFreeze({
+      ...input,
+      declaredBy: user?.id,
+      declaredAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Lift the change freeze; returns the freeze that was in effect
+   */
+  public async liftChangeFreeze(): Promise<ChangeFreeze | null> {
+    return await this.validator.liftChangeFreeze();
+  }
+
+  /**
+   * Validity of the build protocol, re-read if it changed on disk
+   */
+  public async getProtocolStatus(): Promise<ProtocolStatus> {
+    return await this.validator.getProtocolStatus();
   }
 
   /**
@@ -400,6 +905,7 @@ export class AgentBridge extends EventEmitter {
       execution: boolean;
       audit: boolean;
     };
+    ruleErrors: string[];
   } {
     return {
       initialized: this.isInitialized,
@@ -410,6 +916,7 @@ export class AgentBridge extends EventEmitter {
         execution: this.config.enableExecution,
         audit: this.config.enableAudit,
       },
+      ruleErrors: this.validator.getRuleErrors(),
     };
   }
 
@@ -426,6 +933,7 @@ export class AgentBridge extends EventEmitter {
       auditLogPath: './system/audit.log',
       maxConcurrentIntents: 3,
       intentTimeout: 30000,
+      approvalTimeout: 24 * 60 * 60 * 1000, // 24 hours
     };
   }
 
@@ -0,0 +1,218 @@
+/**
+ * Approval Store - Agent Bridge Middleware v2.0
+ * Persists intents awaiting manual approval and tracks their review lifecycle
+ */
+
+import { Intent, ValidationResult, ExecutionResult, ApprovalRecord, ApprovalStatus } from './types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export class ApprovalStore {
+  private static instance: ApprovalStore;
+  private storePath: string;
+  private records: Map<string, ApprovalRecord> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  private constructor(storePath: string = './system/approvals.json') {
+    this.storePath = storePath;
+  }
+
+  public static getInstance(storePath?: string): ApprovalStore {
+    if (!ApprovalStore.instance) {
+      ApprovalStore.instance = new ApprovalStore(storePath);
+    }
+    return ApprovalStore.instance;
+  }
+
+  /**
+   * Queue an intent for manual approval
+   */
+  public async enqueue(
+    intent: Intent,
+    validation: ValidationResult,
+    source: ApprovalRecord['source'],
+    timeoutMs: number,
+    changesetId?: string
+  ): Promise<ApprovalRecord> {
+    const records = await this.load();
+    const requestedAt = new Date();
+
+    const record: ApprovalRecord = {
+      intentId: intent.id,
+      intent,
+      validation,
+      source,
+      changesetId,
+      status: 'pending',
+      requestedAt,
+      expiresAt: new Date(requestedAt.getTime() + timeoutMs),
+    };
+
+    records.set(intent.id, record);
+    await this.save();
+    return record;
+  }
+
+  /**
+   * Get a single approval record
+   */
+  public async get(intentId: string): Promise<ApprovalRecord | undefined> {
+    await this.expireStale();
+    return (await this.load()).get(intentId);
+  }
+
+  /**
+   * List approval records, newest first
+   */
+  public async list(status?: ApprovalStatus): Promise<ApprovalRecord[]> {
+    await this.expireStale();
+    const records = Array.from((await this.load()).values());
+
+    return records
+      .filter(record => !status || record.status === status)
+      .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
+  }
+
+  /**
+   * Mark a pending intent as approved; only one caller can win this transition
+   */
+  public async approve(intentId: string, reviewer?: string, reason?: string): Promise<ApprovalRecord> {
+    await this.expireStale();
+    const record = this.transition(await this.load(), intentId, 'approved', { reviewer, reason });
+    await this.save();
+    return record;
+  }
+
+  /**
+   * Mark a pending intent as rejected
+   */
+  public async reject(intentId: string, reviewer?: string, reason?: string): Promise<ApprovalRecord> {
+    await this.expireStale();
+    const record = this.transition(await this.load(), intentId, 'rejected', { reviewer, reason });
+    await this.save();
+    return record;
+  }
+
+  /**
+   * Record the execution of an approved intent
+   */
+  public async markExecuted(intentId: string, execution: ExecutionResult): Promise<ApprovalRecord> {
+    const record = (await this.load()).get(intentId);
+    if (!record) {
+      throw new Error(`Intent ${intentId} not found in approval queue`);
+    }
+    if (record.status !== 'approved') {
+      throw new Error(`Intent ${intentId} is not approved (status: ${record.status})`);
+    }
+
+    record.status = 'executed';
+    record.executedAt = new Date();
+    record.execution = execution;
+    await this.save();
+    return record;
+  }
+
+  /**
+   * Expire pending intents whose approval window has passed
+   */
+  public async expireStale(now: Date = new Date()): Promise<number> {
+    const records = await this.load();
+    let expired = 0;
+
+    records.forEach(record => {
+      if (record.status === 'pending' && record.expiresAt <= now) {
+        record.status = 'expired';
+        record.reviewedAt = now;
+        expired++;
+      }
+    });
+
+    if (expired > 0) {
+      console.log(`[ApprovalStore] Expired ${expired} pending approval(s)`);
+      await this.save();
+    }
+    return expired;
+  }
+
+  /**
+   * Move a pending record to a reviewed state; synchronous so concurrent reviews cannot both succeed
+   */
+  private transition(
+    records: Map<string, ApprovalRecord>,
+    intentId: string,
+    status: 'approved' | 'rejected',
+    review: { reviewer?: string; reason?: string }
+  ): ApprovalRecord {
+    const record = records.get(intentId);
+    if (!record) {
+      throw new Error(`Intent ${intentId} not found in approval queue`);
+    }
+    if (record.status !== 'pending') {
+      throw new Error(`Intent ${intentId} is not pending approval (status: ${record.status})`);
+    }
+
+    record.status = status;
+    record.reviewer = review.reviewer;
+    record.reason = review.reason;
+    record.reviewedAt = new Date();
+    return record;
+  }
+
+  /**
+   * Load records from disk on first use
+   */
+  private async load(): Promise<Map<string, ApprovalRecord>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    const records = new Map<string, ApprovalRecord>();
+    try {
+      const content = await fs.readFile(this.storePath, 'utf-8');
+      const data = JSON.parse(content);
+      for (const item of data.approvals || []) {
+        const record = this.reconstructRecord(item);
+        records.set(record.intentId, record);
+      }
+    } catch (error) {
+      if ((error as any).code !== 'ENOENT') {
+        console.error('[ApprovalStore] Failed to load approval queue:', error);
+      }
+    }
+
+    // Another caller may have finished loading while we were reading
+    if (!this.records) {
+      this.records = records;
+    }
+    return this.records;
+  }
+
+  /**
+   * Write records to disk, serialising concurrent writes
+   */
+  private async save(): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const approvals = Array.from(this.records?.values() || []);
+      await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+      await fs.writeFile(this.storePath, JSON.stringify({ approvals }, null, 2), 'utf-8');
+    });
+
+    this.writeChain = write.catch(error => {
+      console.error('[ApprovalStore] Failed to save approval queue:', error);
+    });
+    await write;
+  }
+
+  /**
+   * Restore Date fields of a stored record
+   */
+  private reconstructRecord(data: any): ApprovalRecord {
+    return {
+      ...data,
+      requestedAt: new Date(data.requestedAt),
+      expiresAt: new Date(data.expiresAt),
+      reviewedAt: data.reviewedAt ? new Date(data.reviewedAt) : undefined,
+      executedAt: data.executedAt ? new Date(data.executedAt) : undefined,
+    };
+  }
+}
@@ -38,7 +38,8 @@ export class AuditLogger {
       chatMessage?: string;
       userId?: string;
       sessionId: string;
-    }
+    },
+    changesetId?: string
   ): Promise<void> {
     const entry: AuditEntry = {
       id: this.generateId(),
@@ -47,6 +48,7 @@ export class AuditLogger {
       validation,
       execution,
       source: source || { sessionId: 'unknown' },
+      changesetId,
       outcome: this.determineOutcome(validation, execution),
     };
 
@@ -102,6 +104,16 @@ export class AuditLogger {
         type: entry.intent.type,
         priority: entry.intent.priority,
         source: entry.intent.source,
+        // Both scripts, so any audited migration or revert can be undone by hand
+        ...(entry.intent.type === 'migration' && {
+          migration: {
+            operation: entry.intent.operation,
+            project: entry.intent.project,
+            name: entry.intent.name,
+            up: entry.intent.up,
+            down: entry.intent.down,
+          },
+        }),
       },
       validation: {
         isValid: entry.validation.isValid,
@@ -109,6 +121,11 @@ export class AuditLogger {
         errors: entry.validation.errors,
         warnings: entry.validation.warnings,
         requiresApproval: entry.validation.requiresApproval,
+        decision: entry.validation.decision,
+        decidedBy: entry.validation.decidedBy,
+        overriddenRules: entry.validation.overriddenRules,
+        secretFindings: entry.validation.secretFindings,
+        transforms: entry.validation.transforms,
       },
       execution: entry.execution ? {
         success: entry.execution.success,
@@ -117,6 +134,7 @@ export class AuditLogger {
         error: entry.execution.error,
       } : null,
       source: entry.source,
+      changesetId: entry.changesetId,
       outcome: entry.outcome,
     });
   }
@@ -212,6 +230,7 @@ export class AuditLogger {
       validation: data.validation as ValidationResult,
       execution: data.execution as ExecutionResult,
       source: data.source,
+      changesetId: data.changesetId,
       outcome: data.outcome,
     };
   }
@@ -0,0 +1,94 @@
+/**
+ * Change Freeze - Agent Bridge Middleware v2.0
+ * Holds the change freeze declared through the API and persists it across restarts
+ */
+
+import { ChangeFreeze, IntentType } from './types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Raised when an approved intent would run while a deny freeze covers it
+ */
+export class ChangeFreezeError extends Error {
+  constructor(public readonly freeze: ChangeFreeze) {
+    super(`${describeChangeFreeze(freeze)}; lift the freeze or approve with a freeze override`);
+    this.name = 'ChangeFreezeError';
+  }
+}
+
+/**
+ * Whether a freeze covers an intent type; an empty type list covers all of them
+ */
+export function freezeAppliesTo(freeze: ChangeFreeze, intentType: IntentType): boolean {
+  return freeze.intentTypes.length === 0 || freeze.intentTypes.includes(intentType);
+}
+
+export function describeChangeFreeze(freeze: ChangeFreeze): string {
+  return `Change freeze in effect: ${freeze.reason}${freeze.until ? ` (until ${freeze.until})` : ''}`;
+}
+
+export class ChangeFreezeStore {
+  private statePath: string;
+  private freeze: ChangeFreeze | null = null;
+  private loaded = false;
+
+  constructor(statePath: string = './system/change-freeze.json') {
+    this.statePath = statePath;
+  }
+
+  /**
+   * Load the persisted freeze on first use
+   */
+  public async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.statePath, 'utf-8'));
+      this.freeze = data.freeze && typeof data.freeze.reason === 'string' ? data.freeze : null;
+    } catch (error) {
+      if ((error as any).code !== 'ENOENT') {
+        console.error('[ChangeFreeze] Failed to load change freeze:', error);
+      }
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * The freeze in effect at a moment; an expired freeze counts as lifted
+   */
+  public get(now: Date = new Date()): ChangeFreeze | null {
+    if (this.freeze?.until && new Date(this.freeze.until) <= now) {
+      return null;
+    }
+    return this.freeze;
+  }
+
+  /**
+   * Declare a freeze, replacing any current one
+   */
+  public async declare(freeze: ChangeFreeze): Promise<ChangeFreeze> {
+    await this.load();
+    this.freeze = freeze;
+    await this.save();
+    return freeze;
+  }
+
+  /**
+   * Lift the current freeze; returns it, or null when none was in effect
+   */
+  public async lift(): Promise<ChangeFreeze | null> {
+    await this.load();
+    const lifted = this.get();
+    this.freeze = null;
+    await this.save();
+    return lifted;
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+    await fs.writeFile(this.statePath, JSON.stringify({ freeze: this.freeze }, null, 2), 'utf-8');
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateOperator, globToRegExp, validateRuleConditions } from './conditionOperators';
+import { GovernanceRule } from './types';
+
+function rule(conditions: GovernanceRule['conditions'], intentTypes: GovernanceRule['intentTypes'] = ['file_operation']): GovernanceRule {
+  return { id: 'r', name: 'r', description: 'r', intentTypes, conditions, action: 'deny' };
+}
+
+describe('evaluateOperator', () => {
+  it('compares string and array lengths', () => {
+    assert.equal(evaluateOperator('length_greater_than', 'abcd', 3), true);
+    assert.equal(evaluateOperator('length_greater_than', ['a', 'b'], 3), false);
+    assert.equal(evaluateOperator('length_less_than', ['a', 'b'], 3), true);
+    assert.equal(evaluateOperator('length_less_than', undefined, 3), false);
+  });
+
+  it('counts bytes rather than characters', () => {
+    assert.equal(evaluateOperator('byte_length_greater_than', 'ééé', 5), true);
+    assert.equal(evaluateOperator('length_greater_than', 'ééé', 5), false);
+    assert.equal(evaluateOperator('byte_length_less_than', 'abc', 4), true);
+  });
+
+  it('matches prefixes and suffixes of strings only', () => {
+    assert.equal(evaluateOperator('starts_with', '/projects/app/src/a.ts', '/projects/app/'), true);
+    assert.equal(evaluateOperator('ends_with', '/projects/app/.env', '.env'), true);
+    assert.equal(evaluateOperator('starts_with', ['/projects/app/'], '/projects/app/'), false);
+  });
+
+  it('includes both bounds of a range', () => {
+    assert.equal(evaluateOperator('between', 1, [1, 3]), true);
+    assert.equal(evaluateOperator('between', 3, [1, 3]), true);
+    assert.equal(evaluateOperator('between', 3.5, [1, 3]), false);
+    assert.equal(evaluateOperator('between', '2', [1, 3]), false);
+  });
+
+  it('checks array members against values and patterns', () => {
+    assert.equal(evaluateOperator('contains_any', ['npm', 'rm'], ['rm', 'dd']), true);
+    assert.equal(evaluateOperator('contains_any', ['npm'], ['rm', 'dd']), false);
+    assert.equal(evaluateOperator('any_matches', ['/projects/app/a', '/etc/hosts'], '^/etc/'), true);
+    assert.equal(evaluateOperator('any_matches', [1, 2], '1'), false);
+  });
+
+  it('never matches an unknown operator', () => {
+    assert.equal(evaluateOperator('sounds_like' as any, 'a', 'a'), false);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within one directory', () => {
+    assert.equal(globToRegExp('/projects/*/src/?.ts').test('/projects/app/src/a.ts'), true);
+    assert.equal(globToRegExp('/projects/*/src/?.ts').test('/projects/app/nested/src/a.ts'), false);
+    assert.equal(globToRegExp('/projects/*/src/?.ts').test('/projects/app/src/ab.ts'), false);
+  });
+
+  it('lets ** span any number of directories, including none', () => {
+    const pattern = globToRegExp('/projects/**/migrations/*.sql');
+    assert.equal(pattern.test('/projects/migrations/0001.sql'), true);
+    assert.equal(pattern.test('/projects/app/db/migrations/0001.sql'), true);
+    assert.equal(globToRegExp('**.env').test('/projects/app/.env'), true);
+  });
+
+  it('escapes regular expression characters', () => {
+    assert.equal(globToRegExp('/projects/app/(a).ts').test('/projects/app/(a).ts'), true);
+    assert.equal(globToRegExp('/projects/app/a.ts').test('/projects/app/abts'), false);
+  });
+});
+
+describe('validateRuleConditions', () => {
+  it('accepts operators on fields of a matching type', () => {
+    assert.deepEqual(validateRuleConditions(rule([
+      { field: 'target.content', operator: 'byte_length_greater_than', value: 1024 },
+      { field: 'target.path', operator: 'glob', value: '/projects/**/*.ts' },
+      { field: 'validation.sizeLimit', operator: 'between', value: [0, 10] },
+    ])), []);
+  });
+
+  it('rejects operators that cannot apply to a known field type', () => {
+    assert.deepEqual(validateRuleConditions(rule([{ field: 'target.path', operator: 'greater_than', value: 3 }])), [
+      "Rule r conditions[0]: operator 'greater_than' cannot be used on string field 'target.path' of file_operation intents",
+    ]);
+    assert.match(
+      validateRuleConditions(rule([{ field: 'shell.executables', operator: 'starts_with', value: 'rm' }], ['terminal_command'])).join('\n'),
+      /cannot be used on array field 'shell.executables'/,
+    );
+  });
+
+  it('rejects malformed values', () => {
+    const errors = validateRuleConditions(rule([
+      { field: 'validation.sizeLimit', operator: 'between', value: [10, 1] },
+      { field: 'target.path', operator: 'matches', value: '(' },
+      { field: 'target.content', operator: 'length_greater_than', value: '10' },
+      { field: 'target.hunks', operator: 'contains_any', value: 'x' },
+    ]));
+    assert.deepEqual(errors, [
+      'Rule r conditions[0]: between value must be a [min, max] number pair',
+      'Rule r conditions[1]: matches invalid regular expression: (',
+      'Rule r conditions[2]: length_greater_than value must be a number',
+      'Rule r conditions[3]: contains_any value must be an array',
+    ]);
+  });
+
+  it('leaves fields it does not know untyped', () => {
+    assert.deepEqual(validateRuleConditions(rule([{ field: 'metadata.ticket', operator: 'greater_than', value: 3 }])), []);
+  });
+});
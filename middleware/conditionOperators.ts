@@ -0,0 +1,341 @@
+/**
+ * Condition Operators - Agent Bridge Middleware v2.0
+ * Operator semantics and intent field types for governance rule conditions
+ */
+
+import { ConditionOperator, IntentType, RuleCondition, GovernanceRule } from './types';
+import { validateSchedule } from './schedule';
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+// Known intent fields and their types; unlisted fields are not type-checked
+const COMMON_FIELDS: Record<string, FieldType> = {
+  id: 'string',
+  type: 'string',
+  source: 'string',
+  priority: 'string',
+  metadata: 'object',
+  'user.id': 'string',
+  'user.role': 'string',
+  'user.permissions': 'array',
+};
+
+export const INTENT_FIELD_TYPES: Record<IntentType, Record<string, FieldType>> = {
+  file_operation: {
+    ...COMMON_FIELDS,
+    operation: 'string',
+    'target.path': 'string',
+    'target.content': 'string',
+    'target.newPath': 'string',
+    'target.backup': 'boolean',
+    'target.hunks': 'array',
+    'validation.fileType': 'string',
+    'validation.sizeLimit': 'number',
+    'validation.permissions': 'array',
+  },
+  terminal_command: {
+    ...COMMON_FIELDS,
+    command: 'string',
+    workingDirectory: 'string',
+    environment: 'object',
+    timeout: 'number',
+    // Derived from the parsed command line, see shellAnalyzer
+    'shell.executables': 'array',
+    'shell.arguments': 'array',
+    'shell.commandLines': 'array',
+    'shell.commandCount': 'number',
+    'shell.sudo': 'boolean',
+    'shell.redirects': 'array',
+    'shell.writePaths': 'array',
+    'shell.writesOutsideWorkspace': 'boolean',
+    'shell.destructive': 'boolean',
+    'shell.pipesToShell': 'boolean',
+    'shell.parseError': 'string',
+  },
+  external_service: {
+    ...COMMON_FIELDS,
+    service: 'string',
+    action: 'string',
+    parameters: 'object',
+    'authentication.type': 'string',
+  },
+  project_scaffold: {
+    ...COMMON_FIELDS,
+    framework: 'string',
+    'structure.directories': 'array',
+    'structure.files': 'array',
+    dependencies: 'array',
+  },
+  code_generation: {
+    ...COMMON_FIELDS,
+    'target.file': 'string',
+    'target.function': 'string',
+    'target.component': 'string',
+    'target.class': 'string',
+    'requirements.language': 'string',
+    'requirements.framework': 'string',
+    'requirements.patterns': 'array',
+    'context.existingCode': 'string',
+    'context.imports': 'array',
+    'context.dependencies': 'array',
+  },
+  migration: {
+    ...COMMON_FIELDS,
+    operation: 'string',
+    project: 'string',
+    name: 'string',
+    up: 'string',
+    down: 'string',
+    description: 'string',
+    // Derived from the SQL that runs, see sqlMigration
+    'sql.statementCount': 'number',
+    'sql.kinds': 'array',
+    'sql.tables': 'array',
+    'sql.destructive': 'boolean',
+    'sql.reversible': 'boolean',
+    'sql.parseError': 'string',
+  },
+  seo_optimization: { ...COMMON_FIELDS },
+  deployment: { ...COMMON_FIELDS },
+};
+
+interface OperatorSpec {
+  fieldTypes: FieldType[] | 'any';
+  validateValue?: (value: any) => string | null;
+  evaluate: (actual: any, expected: any) => boolean;
+}
+
+const ANY_TYPE = 'any' as const;
+
+const expectString = (value: any) => typeof value === 'string' ? null : 'value must be a string';
+const expectNumber = (value: any) => typeof value === 'number' && !isNaN(value) ? null : 'value must be a number';
+const expectRegex = (value: any) => {
+  if (typeof value !== 'string') return 'value must be a regular expression string';
+  try {
+    new RegExp(value);
+    return null;
+  } catch (error) {
+    return `invalid regular expression: ${value}`;
+  }
+};
+
+const lengthOf = (value: any) => typeof value === 'string' || Array.isArray(value) ? value.length : NaN;
+const byteLengthOf = (value: any) => typeof value === 'string' ? Buffer.byteLength(value, 'utf8') : NaN;
+
+export const OPERATORS: Record<ConditionOperator, OperatorSpec> = {
+  equals: {
+    fieldTypes: ANY_TYPE,
+    evaluate: (actual, expected) => actual === expected,
+  },
+  contains: {
+    fieldTypes: ['string', 'array'],
+    evaluate: (actual, expected) =>
+      (typeof actual === 'string' || Array.isArray(actual)) && actual.includes(expected),
+  },
+  matches: {
+    fieldTypes: ['string'],
+    validateValue: expectRegex,
+    evaluate: (actual, expected) => typeof actual === 'string' && new RegExp(expected).test(actual),
+  },
+  not_matches: {
+    fieldTypes: ['string'],
+    validateValue: expectRegex,
+    evaluate: (actual, expected) => typeof actual === 'string' && !new RegExp(expected).test(actual),
+  },
+  starts_with: {
+    fieldTypes: ['string'],
+    validateValue: expectString,
+    evaluate: (actual, expected) => typeof actual === 'string' && actual.startsWith(expected),
+  },
+  ends_with: {
+    fieldTypes: ['string'],
+    validateValue: expectString,
+    evaluate: (actual, expected) => typeof actual === 'string' && actual.endsWith(expected),
+  },
+  glob: {
+    fieldTypes: ['string'],
+    validateValue: expectString,
+    evaluate: (actual, expected) => typeof actual === 'string' && globToRegExp(expected).test(actual),
+  },
+  in: {
+    fieldTypes: ANY_TYPE,
+    validateValue: (value) => Array.isArray(value) ? null : 'value must be an array',
+    evaluate: (actual, expected) => Array.isArray(expected) && expected.includes(actual),
+  },
+  exists: {
+    fieldTypes: ANY_TYPE,
+    validateValue: (value) => typeof value === 'boolean' ? null : 'value must be true or false',
+    evaluate: (actual, expected) => (actual !== undefined && actual !== null) === expected,
+  },
+  greater_than: {
+    fieldTypes: ['number'],
+    validateValue: expectNumber,
+    evaluate: (actual, expected) => typeof actual === 'number' && actual > expected,
+  },
+  less_than: {
+    fieldTypes: ['number'],
+    validateValue: expectNumber,
+    evaluate: (actual, expected) => typeof actual === 'number' && actual < expected,
+  },
+  between: {
+    fieldTypes: ['number'],
+    validateValue: (value) => {
+      const [min, max] = Array.isArray(value) ? value : [];
+      return Array.isArray(value) && value.length === 2 && typeof min === 'number' && typeof max === 'number' && min <= max
+        ? null
+        : 'value must be a [min, max] number pair';
+    },
+    evaluate: (actual, expected) => typeof actual === 'number' && actual >= expected[0] && actual <= expected[1],
+  },
+  length_greater_than: {
+    fieldTypes: ['string', 'array'],
+    validateValue: expectNumber,
+    evaluate: (actual, expected) => lengthOf(actual) > expected,
+  },
+  length_less_than: {
+    fieldTypes: ['string', 'array'],
+    validateValue: expectNumber,
+    evaluate: (actual, expected) => lengthOf(actual) < expected,
+  },
+  byte_length_greater_than: {
+    fieldTypes: ['string'],
+    validateValue: expectNumber,
+    evaluate: (actual, expected) => byteLengthOf(actual) > expected,
+  },
+  byte_length_less_than: {
+    fieldTypes: ['string'],
+    validateValue: expectNumber,
+    evaluate: (actual, expected) => byteLengthOf(actual) < expected,
+  },
+  contains_any: {
+    fieldTypes: ['array'],
+    validateValue: (value) => Array.isArray(value) ? null : 'value must be an array',
+    evaluate: (actual, expected) => Array.isArray(actual) && actual.some(item => expected.includes(item)),
+  },
+  any_matches: {
+    fieldTypes: ['array'],
+    validateValue: expectRegex,
+    evaluate: (actual, expected) => {
+      if (!Array.isArray(actual)) return false;
+      const pattern = new RegExp(expected);
+      return actual.some(item => typeof item === 'string' && pattern.test(item));
+    },
+  },
+};
+
+/**
+ * Raised when governance rules fail validation
+ */
+export class RuleValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid governance rules: ${errors.join('; ')}`);
+    this.name = 'RuleValidationError';
+  }
+}
+
+/**
+ * Evaluate a field comparison; unknown operators never match
+ */
+export function evaluateOperator(operator: ConditionOperator, actual: any, expected: any): boolean {
+  const spec = OPERATORS[operator];
+  return spec ? spec.evaluate(actual, expected) : false;
+}
+
+/**
+ * Validate a rule's condition tree against the fields of each intent type it targets
+ */
+export function validateRuleConditions(rule: GovernanceRule): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(rule.conditions)) {
+    return [`Rule ${rule.id}: conditions must be an array`];
+  }
+
+  const visit = (condition: RuleCondition, location: string) => {
+    if (!condition || typeof condition !== 'object') {
+      errors.push(`Rule ${rule.id} ${location}: condition must be an object`);
+      return;
+    }
+
+    if ('all' in condition || 'any' in condition) {
+      const group = 'all' in condition ? 'all' : 'any';
+      const children = (condition as any)[group];
+      if (!Array.isArray(children)) {
+        errors.push(`Rule ${rule.id} ${location}: '${group}' must be an array`);
+        return;
+      }
+      children.forEach((child: RuleCondition, index: number) => visit(child, `${location}.${group}[${index}]`));
+      return;
+    }
+
+    if ('not' in condition) {
+      visit(condition.not, `${location}.not`);
+      return;
+    }
+
+    if ('schedule' in condition) {
+      validateSchedule(condition.schedule).forEach(error => errors.push(`Rule ${rule.id} ${location}: ${error}`));
+      return;
+    }
+
+    const { field, operator, value } = condition;
+    const spec = OPERATORS[operator];
+    if (typeof field !== 'string' || !field) {
+      errors.push(`Rule ${rule.id} ${location}: field is required`);
+      return;
+    }
+    if (!spec) {
+      errors.push(`Rule ${rule.id} ${location}: unknown operator '${operator}'`);
+      return;
+    }
+
+    const valueError = spec.validateValue?.(value);
+    if (valueError) {
+      errors.push(`Rule ${rule.id} ${location}: ${operator} ${valueError}`);
+    }
+
+    if (spec.fieldTypes === ANY_TYPE) {
+      return;
+    }
+    for (const intentType of rule.intentTypes) {
+      const fieldType = INTENT_FIELD_TYPES[intentType]?.[field];
+      if (fieldType && !spec.fieldTypes.includes(fieldType)) {
+        errors.push(
+          `Rule ${rule.id} ${location}: operator '${operator}' cannot be used on ${fieldType} field '${field}' of ${intentType} intents`
+        );
+      }
+    }
+  };
+
+  rule.conditions.forEach((condition, index) => visit(condition, `conditions[${index}]`));
+  return errors;
+}
+
+/**
+ * Convert a path glob to a regular expression; `**` spans directories, `*` and `?` do not
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
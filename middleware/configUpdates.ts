@@ -0,0 +1,51 @@
+/**
+ * Config Updates - Agent Bridge Middleware v2.0
+ * Validates runtime configuration changes made through PUT /api/middleware/config
+ */
+
+import type { AgentBridgeConfig } from './types';
+
+export type ConfigValueType = 'boolean' | 'number' | 'string';
+
+// Config keys that may be changed at runtime, with their expected value types
+export const UPDATABLE_CONFIG_KEYS: Record<keyof AgentBridgeConfig, ConfigValueType> = {
+  enableIntentParsing: 'boolean',
+  enableGovernance: 'boolean',
+  enableExecution: 'boolean',
+  enableAudit: 'boolean',
+  governanceRulesPath: 'string',
+  auditLogPath: 'string',
+  maxConcurrentIntents: 'number',
+  intentTimeout: 'number',
+  approvalTimeout: 'number',
+};
+
+/**
+ * Split a PUT /config body into type-checked updates and errors; numbers are counts or
+ * durations, so they must be positive integers
+ */
+export function pickConfigUpdates(body: unknown): { updates: Partial<AgentBridgeConfig>; errors: string[] } {
+  const updates: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    return { updates: {}, errors: ['Configuration must be a JSON object'] };
+  }
+
+  for (const [key, value] of Object.entries(body)) {
+    const expectedType = UPDATABLE_CONFIG_KEYS[key as keyof AgentBridgeConfig];
+    if (!expectedType) {
+      errors.push(`Unknown configuration key: ${key}`);
+    } else if (typeof value !== expectedType) {
+      errors.push(`Configuration key ${key} must be a ${expectedType}`);
+    } else if (expectedType === 'number' && !(Number.isInteger(value) && (value as number) > 0)) {
+      errors.push(`Configuration key ${key} must be a positive integer`);
+    } else if (expectedType === 'string' && !(value as string).trim()) {
+      errors.push(`Configuration key ${key} must not be empty`);
+    } else {
+      updates[key] = value;
+    }
+  }
+
+  return { updates: updates as Partial<AgentBridgeConfig>, errors };
+}
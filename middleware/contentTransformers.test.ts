@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyContentTransforms } from './contentTransformers';
+import { ContentTransformSpec } from './types';
+
+async function transform(content: string, filePath: string, ...specs: ContentTransformSpec[]) {
+  return await applyContentTransforms(content, filePath, specs.map(spec => ({ ...spec, ruleId: 'r' })));
+}
+
+async function strip(content: string, options?: Record<string, any>): Promise<string> {
+  return (await transform(content, '/projects/app/src/a.ts', { name: 'strip_console_log', options })).content;
+}
+
+describe('strip_console_log', () => {
+  it('removes calls that stand as statements, with their line', async () => {
+    assert.equal(await strip('start();\n  console.log("a", f(b));\nconsole.log(1)\nend();\n'), 'start();\nend();\n');
+    assert.equal(await strip('function f() { console.log(x); return 1; }\n'), 'function f() {  return 1; }\n');
+  });
+
+  it('keeps the unbraced body of if, else, do and arrow functions', async () => {
+    for (const source of [
+      'if (x) console.log(y)\nnext();\n',
+      'if (x)\n  console.log(y);\nnext();\n',
+      'if (a) foo();\nelse\n  console.log(x);\nbar();\n',
+      'do\n  console.log(i);\nwhile (i++ < 3);\n',
+      'const f = () =>\n  console.log(1);\n',
+    ]) {
+      assert.equal(await strip(source), source);
+    }
+  });
+
+  it('keeps calls used in expressions, strings and comments', async () => {
+    const source = [
+      'const log = console.log(1) || 2;',
+      'run(console.log(2));',
+      'const text = "console.log(3);";',
+      '// console.log(4);',
+      '/* console.log(5); */',
+      'const t = `${x}\nconsole.log(6);`;',
+      'myconsole.log(7);',
+      '',
+    ].join('\n');
+    assert.equal(await strip(source), source);
+  });
+
+  it('strips only the configured methods', async () => {
+    assert.equal(await strip('console.debug(1);\nconsole.error(2);\n', { methods: ['debug'] }), 'console.error(2);\n');
+  });
+
+  it('skips files that are not scripts', async () => {
+    const { content, applied } = await transform('console.log(1);\n', '/projects/app/notes.md', { name: 'strip_console_log' });
+    assert.equal(content, 'console.log(1);\n');
+    assert.deepEqual(applied, [{ ruleId: 'r', name: 'strip_console_log', changed: false, skipped: 'Only JavaScript and TypeScript files are stripped' }]);
+  });
+});
+
+describe('license_header', () => {
+  const options = { text: 'Copyright Example Ltd.\nSPDX-License-Identifier: MIT' };
+
+  it('adds a header in the comment syntax of the file, after any shebang', async () => {
+    assert.equal(
+      (await transform('#!/usr/bin/env node\nmain();\n', '/projects/app/cli.js', { name: 'license_header', options })).content,
+      '#!/usr/bin/env node\n// Copyright Example Ltd.\n// SPDX-License-Identifier: MIT\n\nmain();\n',
+    );
+    assert.equal(
+      (await transform('a { }\n', '/projects/app/a.css', { name: 'license_header', options })).content,
+      '/*\n * Copyright Example Ltd.\n * SPDX-License-Identifier: MIT\n */\n\na { }\n',
+    );
+  });
+
+  it('is idempotent and skips unknown file types', async () => {
+    const once = (await transform('x = 1\n', '/projects/app/a.py', { name: 'license_header', options })).content;
+    const twice = await transform(once, '/projects/app/a.py', { name: 'license_header', options });
+    assert.equal(twice.content, once);
+    assert.equal(twice.applied[0]?.changed, false);
+    assert.match((await transform('x', '/projects/app/Makefile', { name: 'license_header', options })).applied[0]?.skipped ?? '', /No comment syntax known/);
+  });
+});
+
+describe('applyContentTransforms', () => {
+  it('runs transforms in order, each on the output of the last', async () => {
+    const { content, applied } = await transform(
+      'console.log(1);\r\nrun();',
+      '/projects/app/a.ts',
+      { name: 'strip_console_log' },
+      { name: 'line_endings', options: { eol: 'lf' } },
+    );
+    assert.equal(content, 'run();\n');
+    assert.deepEqual(applied.map(record => record.changed), [true, true]);
+  });
+
+  it('formats with prettier using the parser for the file type', async () => {
+    const { content } = await transform('const a = {b:1,\nc:"d"}', '/projects/app/a.ts', { name: 'prettier', options: { singleQuote: true } });
+    assert.equal(content, "const a = { b: 1, c: 'd' };\n");
+  });
+
+  it('records a failing transform and passes its input on unchanged', async () => {
+    const { content, applied } = await transform('const = ;', '/projects/app/a.ts', { name: 'prettier' }, { name: 'line_endings' });
+    assert.equal(content, 'const = ;\n');
+    assert.ok(applied[0]?.error);
+    assert.equal(applied[1]?.changed, true);
+  });
+});
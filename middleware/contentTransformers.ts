@@ -0,0 +1,245 @@
+/**
+ * Content Transformers - Agent Bridge Middleware v2.0
+ * Named rewrites that 'modify' rules apply to the file content an intent writes:
+ * formatting, license headers, line endings and debug logging removal
+ */
+
+import * as path from 'path';
+import type * as Prettier from 'prettier';
+import { AppliedTransform, ContentTransformName, ContentTransformSpec } from './types';
+import { importOptional } from './optionalModule';
+
+// Either the rewritten content or the reason the transform does not apply to this file
+type TransformOutcome = { content: string } | { skipped: string };
+
+type ContentTransformer = (content: string, filePath: string, options: Record<string, any>) => Promise<TransformOutcome>;
+
+// Comment syntax for license headers, by file extension
+const LINE_COMMENT_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.scss', '.less', '.go', '.rs', '.java', '.c', '.h', '.cpp', '.cs', '.swift', '.kt']);
+const HASH_COMMENT_EXTENSIONS = new Set(['.py', '.rb', '.sh', '.yml', '.yaml', '.toml']);
+const MARKUP_COMMENT_EXTENSIONS = new Set(['.html', '.htm', '.vue', '.svelte', '.xml', '.svg', '.md']);
+
+const SCRIPT_EXTENSIONS = new Set(['.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx']);
+
+// Characters after which a console call cannot be a statement of its own
+const EXPRESSION_CONTINUATION = new Set([')', '=', ',', '(', '?', ':', '&', '|', '+', '-', '*', '/', '<', '>', '!', '.', '[']);
+
+const CONTENT_TRANSFORMERS: Record<ContentTransformName, ContentTransformer> = {
+  // Parser inferred from the file extension, e.g. babel for .jsx and css for .css
+  prettier: async (content, filePath, options) => {
+    const prettier = await importOptional<typeof Prettier>('prettier', 'The prettier transform');
+    const info = await prettier.getFileInfo(filePath);
+    if (!info.inferredParser) {
+      return { skipped: `Prettier has no parser for ${path.extname(filePath) || 'extensionless files'}` };
+    }
+    return { content: await prettier.format(content, { ...options, parser: info.inferredParser }) };
+  },
+
+  license_header: async (content, filePath, options) => {
+    const header = commentBlock(String(options.text), path.extname(filePath).toLowerCase());
+    if (!header) {
+      return { skipped: `No comment syntax known for ${path.extname(filePath) || 'extensionless files'}` };
+    }
+
+    // Idempotent: a header already near the top of the file is left alone
+    const [firstLine = ''] = String(options.text).trim().split('\n').map(line => line.trim());
+    if (content.slice(0, 2048).includes(firstLine)) {
+      return { content };
+    }
+
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const shebang = /^#![^\n]*\n/.exec(content)?.[0] ?? '';
+    const rest = content.slice(shebang.length);
+    return { content: `${shebang}${header.join(eol)}${eol}${rest.trim() ? eol : ''}${rest}` };
+  },
+
+  line_endings: async (content, _filePath, options) => {
+    const eol = options.eol === 'crlf' ? '\r\n' : '\n';
+    let normalized = content.replace(/\r\n|\r|\n/g, eol);
+    if (options.finalNewline !== false && normalized.length > 0 && !normalized.endsWith(eol)) {
+      normalized += eol;
+    }
+    return { content: normalized };
+  },
+
+  strip_console_log: async (content, filePath, options) => {
+    if (!SCRIPT_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+      return { skipped: 'Only JavaScript and TypeScript files are stripped' };
+    }
+    return { content: stripConsoleCalls(content, options.methods || ['log']) };
+  },
+};
+
+/**
+ * Run transforms in order. A failing transform is recorded and the content it was given
+ * is passed on unchanged, so one bad transform does not block the intent.
+ */
+export async function applyContentTransforms(
+  content: string,
+  filePath: string,
+  transforms: Array<ContentTransformSpec & { ruleId: string }>
+): Promise<{ content: string; applied: AppliedTransform[] }> {
+  const applied: AppliedTransform[] = [];
+  let current = content;
+
+  for (const transform of transforms) {
+    const record: AppliedTransform = { ruleId: transform.ruleId, name: transform.name, changed: false };
+    try {
+      const outcome = await CONTENT_TRANSFORMERS[transform.name](current, filePath, transform.options || {});
+      if ('skipped' in outcome) {
+        record.skipped = outcome.skipped;
+      } else {
+        record.changed = outcome.content !== current;
+        current = outcome.content;
+      }
+    } catch (error) {
+      record.error = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    }
+    applied.push(record);
+  }
+
+  return { content: current, applied };
+}
+
+/**
+ * The header text as comment lines for a file type, or null when the type is unknown
+ */
+function commentBlock(text: string, extension: string): string[] | null {
+  const lines = text.trim().split(/\r?\n/);
+  if (LINE_COMMENT_EXTENSIONS.has(extension)) {
+    return lines.map(line => `// ${line}`.trimEnd());
+  }
+  if (HASH_COMMENT_EXTENSIONS.has(extension)) {
+    return lines.map(line => `# ${line}`.trimEnd());
+  }
+  if (extension === '.css') {
+    return ['/*', ...lines.map(line => ` * ${line}`.trimEnd()), ' */'];
+  }
+  if (MARKUP_COMMENT_EXTENSIONS.has(extension)) {
+    return ['<!--', ...lines, '-->'];
+  }
+  return null;
+}
+
+/**
+ * Remove `console.<method>(...)` calls that stand as statements of their own. Strings,
+ * template literals and comments are skipped; calls used inside expressions are kept.
+ */
+function stripConsoleCalls(source: string, methods: string[]): string {
+  const call = new RegExp(`console\\s*\\.\\s*(?:${methods.join('|')})\\s*\\(`, 'y');
+  let output = '';
+  let copiedUpTo = 0;
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '/' && source[index + 1] === '/') {
+      index = indexOrEnd(source, '\n', index);
+      continue;
+    }
+    if (char === '/' && source[index + 1] === '*') {
+      index = indexOrEnd(source, '*/', index + 2) + 2;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === '`') {
+      index = skipString(source, index);
+      continue;
+    }
+
+    call.lastIndex = index;
+    if (char === 'c' && !/[\w$.]/.test(source[index - 1] || '') && call.test(source) && startsStatement(source, index)) {
+      const close = matchingParen(source, call.lastIndex - 1);
+      const end = close >= 0 ? statementEnd(source, close + 1) : -1;
+      if (end >= 0) {
+        const [from, to] = wholeLine(source, index, end);
+        output += source.slice(copiedUpTo, from);
+        copiedUpTo = index = to;
+        continue;
+      }
+    }
+    index++;
+  }
+
+  return output + source.slice(copiedUpTo);
+}
+
+function indexOrEnd(source: string, token: string, from: number): number {
+  const found = source.indexOf(token, from);
+  return found === -1 ? source.length : found;
+}
+
+// Index just past a string or template literal starting at `start`
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  let index = start + 1;
+  while (index < source.length && source[index] !== quote) {
+    if (source[index] === '\\') {
+      index++;
+    } else if (quote !== '`' && source[index] === '\n') {
+      break;
+    }
+    index++;
+  }
+  return index + 1;
+}
+
+function matchingParen(source: string, open: number): number {
+  let depth = 0;
+  for (let index = open; index < source.length; index++) {
+    const char = source[index];
+    if (char === '"' || char === "'" || char === '`') {
+      index = skipString(source, index) - 1;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function startsStatement(source: string, index: number): boolean {
+  let before = index - 1;
+  let crossedLine = false;
+  while (before >= 0 && /\s/.test(source.charAt(before))) {
+    crossedLine = crossedLine || source.charAt(before) === '\n';
+    before--;
+  }
+  if (before < 0 || ';{}'.includes(source.charAt(before))) {
+    return true;
+  }
+
+  // The unbraced body of else or do cannot be removed without changing what follows
+  let wordStart = before;
+  while (wordStart > 0 && /[\w$]/.test(source.charAt(wordStart - 1))) {
+    wordStart--;
+  }
+  const word = source.slice(wordStart, before + 1);
+  if (word === 'else' || word === 'do') {
+    return false;
+  }
+  return crossedLine && !EXPRESSION_CONTINUATION.has(source.charAt(before));
+}
+
+// End of the statement after the call's closing parenthesis, or -1 when the call continues an expression
+function statementEnd(source: string, from: number): number {
+  let index = from;
+  while (index < source.length && (source[index] === ' ' || source[index] === '\t')) {
+    index++;
+  }
+  if (source[index] === ';') {
+    return index + 1;
+  }
+  return index >= source.length || source[index] === '\n' || source[index] === '\r' || source[index] === '}' ? from : -1;
+}
+
+// Widen a removal to the whole line when nothing else is on it
+function wholeLine(source: string, start: number, end: number): [number, number] {
+  const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+  const rest = /^[ \t]*(\r?\n|$)/.exec(source.slice(end));
+  if (rest && /^[ \t]*$/.test(source.slice(lineStart, start))) {
+    return [lineStart, end + rest[0].length];
+  }
+  return [start, end];
+}
@@ -7,6 +7,8 @@ import { Intent, ValidationResult, ExecutionContext, ExecutionResult } from './t
 import { fileService } from '../server/src/services/fileService.js';
 import { terminalService } from '../server/src/services/terminalService.js';
 import { chatService } from '../server/src/services/chatService.js';
+import { MigrationRunner } from './migrationRunner';
+import { DEFAULT_PROJECT_PATH, canonicalizeVirtualPath, resolveWorkspacePath } from './pathResolver';
 import * as fs from 'fs/promises';
 
 export class ExecutionRouter {
@@ -14,6 +16,7 @@ export class ExecutionRouter {
   private executionQueue: Array<{ context: ExecutionContext; resolve: Function; reject: Function }> = [];
   private isProcessing = false;
   private maxConcurrentExecutions = 3;
+  private projectsRoot = './projects'; // Disk location of the virtual /projects root
 
   private constructor() {}
 
@@ -93,6 +96,9 @@ export class ExecutionRouter {
         
         case 'project_scaffold':
           return await this.executeProjectScaffold(modifiedIntent, context, startTime);
+
+        case 'migration':
+          return await this.executeMigration(modifiedIntent, context, startTime);
         
         default:
           return this.createErrorResult(
@@ -181,15 +187,21 @@ export class ExecutionRouter {
    * Execute terminal command intent
    */
   private async executeTerminalCommand(intent: any, context: ExecutionContext, startTime: number): Promise<ExecutionResult> {
-    const { command, workingDirectory, timeout } = intent;
+    const { command, workingDirectory = DEFAULT_PROJECT_PATH, timeout } = intent;
     const sessionId = `execution_${Date.now()}`;
 
+    // The model chooses the directory, so it must resolve inside the projects root
+    const cwd = await resolveWorkspacePath(workingDirectory, this.projectsRoot);
+    if (!(await fs.stat(cwd).catch(() => null))?.isDirectory()) {
+      return this.createErrorResult(intent, `Working directory ${workingDirectory} does not exist`, startTime);
+    }
+
     return new Promise((resolve) => {
       let output = '';
       let hasResolved = false;
 
       // Create terminal session
-      const session = terminalService.createSession(sessionId, workingDirectory);
+      const session = terminalService.createSession(sessionId, cwd);
 
       // Set up timeout
       const timeoutId = setTimeout(() => {
@@ -291,8 +303,16 @@ export class ExecutionRouter {
     const { structure, dependencies } = intent;
     const affectedFiles: string[] = [];
 
+    // Resolve every path before writing anything, so one path outside the workspace fails the whole scaffold
+    const directories: string[] = await Promise.all(
+      structure.directories.map((dir: string) => this.resolveScaffoldPath(dir))
+    );
+    const files: Array<{ path: string; content?: string }> = await Promise.all(
+      structure.files.map(async (fileSpec: any) => ({ ...fileSpec, path: await this.resolveScaffoldPath(fileSpec.path) }))
+    );
+
     // Create directories
-    for (const dir of structure.directories) {
+    for (const dir of directories) {
       await fileService.createFileInStorage(
         this.getFileName(dir),
         dir,
@@ -304,7 +324,7 @@ export class ExecutionRouter {
     }
 
     // Create files
-    for (const fileSpec of structure.files) {
+    for (const fileSpec of files) {
       await fileService.createFileInStorage(
         this.getFileName(fileSpec.path),
         fileSpec.path,
@@ -325,6 +345,26 @@ export class ExecutionRouter {
     };
   }
 
+  /**
+   * Execute migration intent against the project's drizzle migrations
+   */
+  private async executeMigration(intent: any, context: ExecutionContext, startTime: number): Promise<ExecutionResult> {
+    const runner = MigrationRunner.getInstance();
+    const reverting = intent.operation === 'revert';
+    const { migration, files, dryRun } = reverting ? await runner.revert(intent) : await runner.apply(intent);
+
+    return {
+      success: true,
+      intent,
+      output: reverting
+        ? `Migration ${migration.tag} withdrawn from ${migration.project} before drizzle applied it`
+        : `Migration ${migration.tag} applied to ${migration.project}`,
+      duration: Date.now() - startTime,
+      affectedFiles: files,
+      sideEffects: dryRun.schemaChanges.length > 0 ? dryRun.schemaChanges : ['No schema changes'],
+    };
+  }
+
   /**
    * Apply modifications to intent based on validation result
    */
@@ -400,6 +440,15 @@ export class ExecutionRouter {
     };
   }
 
+  /**
+   * Canonical intent path of a scaffold entry; throws PathOutsideWorkspaceError when it would
+   * land outside the projects directory, symlinks included
+   */
+  private async resolveScaffoldPath(filePath: string): Promise<string> {
+    await resolveWorkspacePath(filePath, this.projectsRoot);
+    return canonicalizeVirtualPath(filePath);
+  }
+
   /**
    * Utility methods
    */
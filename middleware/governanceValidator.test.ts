@@ -0,0 +1,289 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GovernanceValidator } from './governanceValidator';
+import { RuleValidationError } from './conditionOperators';
+import { DEFAULT_QUALITY_GATE } from './qualityGate';
+import { FileOperationIntent, GovernanceRule } from './types';
+
+const dirs: string[] = [];
+
+after(async () => {
+  await Promise.all(dirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+});
+
+/**
+ * A validator over the default build protocol with its rules replaced and settings overridden
+ */
+async function validatorWith(rules: GovernanceRule[], settings: Record<string, any> = {}): Promise<GovernanceValidator> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'governance-'));
+  dirs.push(dir);
+  const rulesPath = path.join(dir, 'build-protocol.json');
+  const validator = new GovernanceValidator(rulesPath);
+  await validator.createDefaultBuildProtocol();
+
+  const protocol = JSON.parse(await fs.readFile(rulesPath, 'utf-8'));
+  protocol.governance.rules = rules;
+  protocol.governance.tests = [];
+  protocol.governance.settings = { ...protocol.governance.settings, autoApprove: ['low', 'medium', 'high', 'critical'], ...settings };
+  await fs.writeFile(rulesPath, JSON.stringify(protocol, null, 2), 'utf-8');
+  return validator;
+}
+
+function rule(id: string, action: GovernanceRule['action'], conditions: GovernanceRule['conditions'], extra: Partial<GovernanceRule> = {}): GovernanceRule {
+  return { id, name: id, description: id, intentTypes: ['file_operation'], conditions, action, ...extra };
+}
+
+function fileIntent(filePath: string, overrides: Partial<FileOperationIntent> = {}): FileOperationIntent {
+  return {
+    id: `intent-${filePath}`,
+    type: 'file_operation',
+    timestamp: new Date('2025-01-03T12:00:00Z'),
+    source: 'ai_chat',
+    priority: 'low',
+    operation: 'create',
+    target: { path: filePath, content: 'export const value = 1;\n' },
+    validation: { fileType: path.extname(filePath).slice(1) },
+    ...overrides,
+  };
+}
+
+describe('condition groups', () => {
+  const protectEnv = rule('protect_env', 'deny', [
+    { any: [
+      { field: 'target.path', operator: 'ends_with', value: '.env' },
+      { field: 'target.path', operator: 'starts_with', value: '/projects/default-app/secrets/' },
+    ] },
+    { not: { field: 'source', operator: 'equals', value: 'user_input' } },
+  ]);
+
+  it('denies when every top-level condition holds', async () => {
+    const validator = await validatorWith([protectEnv]);
+    const result = await validator.validateIntent(fileIntent('/projects/default-app/.env'));
+    assert.equal(result.decision, 'deny');
+    assert.equal(result.decidedBy, 'protect_env');
+  });
+
+  it('needs only one branch of an any group', async () => {
+    const validator = await validatorWith([protectEnv]);
+    assert.equal((await validator.validateIntent(fileIntent('/projects/default-app/secrets/key.pem'))).decision, 'deny');
+    assert.equal((await validator.validateIntent(fileIntent('/projects/default-app/src/index.ts'))).decision, 'allow');
+  });
+
+  it('negates the condition under not', async () => {
+    const validator = await validatorWith([protectEnv]);
+    const result = await validator.validateIntent(fileIntent('/projects/default-app/.env', { source: 'user_input' }));
+    assert.equal(result.decision, 'allow');
+    assert.deepEqual(result.appliedRules, []);
+  });
+
+  it('traces every branch of the tree', async () => {
+    const validator = await validatorWith([protectEnv]);
+    const { trace } = await validator.simulateIntent(fileIntent('/projects/default-app/.env'));
+    const [any, not] = trace[0]?.conditions ?? [];
+
+    assert.equal(any?.kind, 'any');
+    assert.deepEqual(any?.kind === 'any' ? any.children.map(child => child.passed) : null, [true, false]);
+    assert.equal(not?.kind, 'not');
+    assert.equal(not?.kind === 'not' ? not.child.passed : null, false);
+    assert.equal(not?.passed, true);
+  });
+
+  it('rejects malformed groups with the location of the problem', async () => {
+    const validator = await validatorWith([]);
+    await assert.rejects(
+      validator.simulateIntent(fileIntent('/projects/default-app/a.ts'), [
+        rule('broken', 'deny', [{ not: { any: [{ field: 'target.path', operator: 'sounds_like' as any, value: 'x' }] } }]),
+      ]),
+      (error: unknown) => error instanceof RuleValidationError
+        && /Rule broken conditions\[0\]\.not\.any\[0\]: unknown operator 'sounds_like'/.test(error.message),
+    );
+  });
+});
+
+describe('combining algorithms', () => {
+  const rules = [
+    rule('allow_src', 'allow', [{ field: 'target.path', operator: 'starts_with', value: '/projects/default-app/src/' }]),
+    rule('deny_ts', 'deny', [{ field: 'target.path', operator: 'ends_with', value: '.ts' }]),
+    rule('review_all', 'require_approval', [], { priority: 10 }),
+    rule('deny_disabled', 'deny', [], { priority: 20, enabled: false }),
+  ];
+  const intent = fileIntent('/projects/default-app/src/index.ts');
+
+  it('lets any deny win under deny-overrides', async () => {
+    const result = await (await validatorWith(rules, { combiningAlgorithm: 'deny-overrides' })).validateIntent(intent);
+    assert.equal(result.decision, 'deny');
+    assert.equal(result.decidedBy, 'deny_ts');
+    assert.deepEqual(result.appliedRules, ['review_all', 'allow_src', 'deny_ts']);
+    assert.deepEqual(result.overriddenRules, ['review_all', 'allow_src']);
+  });
+
+  it('lets any allow win under allow-overrides', async () => {
+    const result = await (await validatorWith(rules, { combiningAlgorithm: 'allow-overrides' })).validateIntent(intent);
+    assert.equal(result.decision, 'allow');
+    assert.equal(result.decidedBy, 'allow_src');
+    assert.equal(result.isValid, true);
+  });
+
+  it('takes the highest priority rule, then file order, under first-match', async () => {
+    const validator = await validatorWith(rules, { combiningAlgorithm: 'first-match' });
+    const result = await validator.validateIntent(intent);
+    assert.equal(result.decision, 'require_approval');
+    assert.equal(result.decidedBy, 'review_all');
+    assert.equal(result.requiresApproval, true);
+
+    const withoutReview = await validatorWith(rules.filter(candidate => candidate.id !== 'review_all'), { combiningAlgorithm: 'first-match' });
+    assert.equal((await withoutReview.validateIntent(intent)).decidedBy, 'allow_src');
+  });
+
+  it('merges modifications so higher priority rules win conflicting keys', async () => {
+    const validator = await validatorWith([
+      rule('backup_low', 'modify', [], { modifications: { 'target.backup': false, 'validation.sizeLimit': 10 } }),
+      rule('backup_high', 'modify', [], { priority: 5, modifications: { 'target.backup': true } }),
+    ]);
+    const result = await validator.validateIntent(intent);
+    assert.equal(result.decision, 'allow');
+    assert.deepEqual(result.modifications, { 'target.backup': true, 'validation.sizeLimit': 10 });
+  });
+});
+
+describe('quota rules', () => {
+  it('decide only once the intent would exceed the budget', async () => {
+    const validator = await validatorWith([
+      rule('one_write', 'quota', [], { quota: { scope: 'session', measure: 'count', limit: 1, onExceeded: 'require_approval' } }),
+    ]);
+    const intent = fileIntent('/projects/default-app/src/index.ts');
+    const context = { sessionId: 's1' };
+
+    const first = await validator.validateIntent(intent, context);
+    assert.equal(first.decision, 'allow');
+    assert.deepEqual(first.appliedRules, ['one_write']);
+    await validator.recordQuotaUsage(intent, context);
+
+    const second = await validator.validateIntent(intent, context);
+    assert.equal(second.decision, 'require_approval');
+    assert.equal(second.decidedBy, 'one_write');
+    assert.deepEqual(second.exhaustedQuotas, ['one_write']);
+    assert.match(second.warnings.join('\n'), /Quota exhausted: one_write \(1 used, 1 requested, limit 1 intents per session\)/);
+    assert.equal((await validator.validateIntent(intent, { sessionId: 's2' })).decision, 'allow');
+  });
+});
+
+describe('approval thresholds', () => {
+  const allowAll = rule('allow_all', 'allow', []);
+  const atPriority = (priority: FileOperationIntent['priority']) => fileIntent('/projects/default-app/src/index.ts', { priority });
+
+  it('requires approval above the threshold unless the priority is auto-approved', async () => {
+    const validator = await validatorWith([], { requireApprovalThreshold: 'medium', autoApprove: ['low', 'critical'] });
+
+    assert.equal((await validator.validateIntent(atPriority('medium'))).decision, 'allow');
+    const high = await validator.validateIntent(atPriority('high'));
+    assert.equal(high.decision, 'require_approval');
+    assert.equal(high.decidedBy, 'approval_threshold');
+    assert.match(high.warnings.join('\n'), /high priority is above the approval threshold \(medium\)/);
+
+    const critical = await validator.validateIntent(atPriority('critical'));
+    assert.equal(critical.decision, 'allow');
+    assert.match(critical.warnings.join('\n'), /Auto-approved: critical priority is listed in autoApprove/);
+  });
+
+  it('overrides an allow rule under deny-overrides but not under allow-overrides', async () => {
+    const denyOverrides = await validatorWith([allowAll], { requireApprovalThreshold: 'low', autoApprove: [] });
+    const result = await denyOverrides.validateIntent(atPriority('high'));
+    assert.equal(result.decision, 'require_approval');
+    assert.deepEqual(result.overriddenRules, ['allow_all']);
+
+    const allowOverrides = await validatorWith([allowAll], { requireApprovalThreshold: 'low', autoApprove: [], combiningAlgorithm: 'allow-overrides' });
+    assert.equal((await allowOverrides.validateIntent(atPriority('high'))).decision, 'allow');
+  });
+
+  it('never relaxes a deny', async () => {
+    const validator = await validatorWith([rule('deny_all', 'deny', [])], { requireApprovalThreshold: 'low', autoApprove: ['high'] });
+    const result = await validator.validateIntent(atPriority('high'));
+    assert.equal(result.decision, 'deny');
+    assert.equal(result.decidedBy, 'deny_all');
+  });
+});
+
+describe('schedules and change freezes', () => {
+  const friday = new Date('2025-01-03T17:00:00Z');
+  const monday = new Date('2025-01-06T10:00:00Z');
+
+  it('applies a rule only inside its schedule', async () => {
+    const validator = await validatorWith([
+      rule('no_weekend_deploys', 'deny', [{ schedule: { weekly: [{ start: 'fri 16:00', end: 'mon 08:00' }] } }]),
+    ]);
+    const intent = fileIntent('/projects/default-app/src/index.ts');
+    assert.equal((await validator.validateIntent(intent, { now: friday })).decision, 'deny');
+    assert.equal((await validator.validateIntent(intent, { now: monday })).decision, 'allow');
+  });
+
+  it('lets a deny freeze override allow rules until it lifts', async () => {
+    const validator = await validatorWith([rule('allow_all', 'allow', [])]);
+    await validator.declareChangeFreeze({
+      reason: 'Release demo',
+      action: 'deny',
+      intentTypes: ['file_operation'],
+      declaredAt: friday.toISOString(),
+      until: monday.toISOString(),
+    });
+    const intent = fileIntent('/projects/default-app/src/index.ts');
+
+    const frozen = await validator.validateIntent(intent, { now: friday });
+    assert.equal(frozen.decision, 'deny');
+    assert.equal(frozen.decidedBy, 'change_freeze');
+    assert.deepEqual(frozen.overriddenRules, ['allow_all']);
+    assert.match(frozen.errors.join('\n'), /Change freeze in effect: Release demo \(until 2025-01-06T10:00:00.000Z\)/);
+
+    assert.equal((await validator.validateIntent(intent, { now: monday })).decision, 'allow');
+  });
+
+  it('only tightens decisions and only for the frozen intent types', async () => {
+    const validator = await validatorWith([rule('review_all', 'require_approval', [])]);
+    await validator.declareChangeFreeze({ reason: 'Audit', action: 'require_approval', intentTypes: [], declaredAt: friday.toISOString() });
+
+    const result = await validator.validateIntent(fileIntent('/projects/default-app/src/index.ts'), { now: friday });
+    assert.equal(result.decidedBy, 'review_all');
+    assert.match(result.warnings.join('\n'), /Change freeze in effect: Audit/);
+
+    await validator.declareChangeFreeze({ reason: 'Audit', action: 'deny', intentTypes: ['terminal_command'], declaredAt: friday.toISOString() });
+    assert.equal((await validator.validateIntent(fileIntent('/projects/default-app/src/index.ts'), { now: friday })).decidedBy, 'review_all');
+    assert.equal(await validator.liftChangeFreeze().then(lifted => lifted?.action), 'deny');
+  });
+});
+
+describe('quality gate', () => {
+  async function gated(rules: GovernanceRule[], onError: 'deny' | 'require_approval' | 'allow') {
+    const projectsRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'gate-projects-'));
+    dirs.push(projectsRoot);
+    return await validatorWith(rules, { qualityGate: { ...DEFAULT_QUALITY_GATE, enabled: true, eslint: false, onError, projectsRoot } });
+  }
+  const broken = fileIntent('/projects/default-app/src/index.ts', { target: { path: '/projects/default-app/src/index.ts', content: 'export const n: number = "one";\n' } });
+
+  it('overrides the rule decision when the written file has errors', async () => {
+    const result = await (await gated([rule('allow_all', 'allow', [])], 'deny')).validateIntent(broken);
+    assert.equal(result.decision, 'deny');
+    assert.equal(result.decidedBy, 'quality_gate');
+    assert.deepEqual(result.overriddenRules, ['allow_all']);
+    assert.match(result.errors.join('\n'), /Quality gate failed: 1 error\(s\), 0 warning\(s\) in \/projects\/default-app\/src\/index.ts; first: .*:1:14 error TS2322/);
+    assert.equal(result.diagnostics?.length, 1);
+  });
+
+  it('checks content after transforms and leaves clean files alone', async () => {
+    const validator = await gated([
+      rule('strip_logs', 'modify', [], { transforms: [{ name: 'strip_console_log' }] }),
+    ], 'deny');
+    const clean = fileIntent('/projects/default-app/src/index.ts', { target: { path: '/projects/default-app/src/index.ts', content: 'console.log(undefinedName);\nexport const n = 1;\n' } });
+    const result = await validator.validateIntent(clean);
+    assert.equal(result.decision, 'allow');
+    assert.equal(result.diagnostics, undefined);
+  });
+
+  it('only attaches diagnostics when errors are allowed', async () => {
+    const result = await (await gated([], 'allow')).validateIntent(broken);
+    assert.equal(result.decision, 'allow');
+    assert.match(result.warnings.join('\n'), /Quality gate: 1 error\(s\)/);
+  });
+});
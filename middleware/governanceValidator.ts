@@ -3,25 +3,268 @@
  * Reads and enforces governance rules from build protocol
  */
 
-import { Intent, GovernanceRule, ValidationResult } from './types';
+import {
+  Intent,
+  GovernanceRule,
+  RuleCondition,
+  ValidationResult,
+  IntentParserSettings,
+  CombiningAlgorithm,
+  PolicyDecision,
+  ConditionTrace,
+  RuleTrace,
+  GovernanceSimulation,
+  UserContext,
+  QuotaUsage,
+  SecretScanningSettings,
+  ProtocolStatus,
+  ApprovalSettings,
+  PolicyTest,
+  PolicyTestReport,
+  GovernanceUpdateEvent,
+  GovernanceReloadFailedEvent,
+  ChangeFreeze,
+  QualityGateSettings,
+  QualityDiagnostic,
+  MigrationSettings,
+} from './types';
+import { evaluateOperator, validateRuleConditions, RuleValidationError } from './conditionOperators';
+import { ProtocolHistory } from './protocolHistory';
+import { QuotaTracker, QuotaScope, validateQuotaSpec, describeQuota } from './quotaTracker';
+import { scanIntent, redactSecrets, DEFAULT_SECRET_SCANNING } from './secretScanner';
+import { analyzeShellCommand } from './shellAnalyzer';
+import { analyzeMigration } from './sqlMigration';
+import { canonicalizeVirtualPath } from './pathResolver';
+import { parseBuildProtocol, migrateBuildProtocol } from './protocolMigrations';
+import { runPolicyTests, PolicyTestFailureError } from './policyTests';
+import { diffRules } from './ruleDiff';
+import { scheduleMatches } from './schedule';
+import { ChangeFreezeStore, freezeAppliesTo, describeChangeFreeze } from './changeFreeze';
+import { applyContentTransforms } from './contentTransformers';
+import { checkFileQuality, formatDiagnostic, isGatedFile, DEFAULT_QUALITY_GATE } from './qualityGate';
+import {
+  governanceRulesSchema,
+  formatRuleIssues,
+  PolicyVersion,
+  BuildProtocol,
+  CURRENT_PROTOCOL_VERSION,
+} from '../shared/governance';
 import * as fs from 'fs/promises';
+import { watch as watchPath, FSWatcher } from 'fs';
 import * as path from 'path';
+import { EventEmitter } from 'events';
 
-export class GovernanceValidator {
+// Which decisive action wins under each algorithm, strongest first
+const DECISION_PRECEDENCE: Record<Exclude<CombiningAlgorithm, 'first-match'>, PolicyDecision[]> = {
+  'deny-overrides': ['deny', 'require_approval', 'allow'],
+  'allow-overrides': ['allow', 'require_approval', 'deny'],
+};
+
+const PRIORITY_ORDER: Intent['priority'][] = ['low', 'medium', 'high', 'critical'];
+
+const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  requireApprovalThreshold: 'medium',
+  autoApprove: ['low'],
+};
+
+const DEFAULT_INTENT_PARSER: IntentParserSettings = {
+  mode: 'regex',
+  provider: 'anthropic',
+};
+
+const DEFAULT_MIGRATION_SETTINGS: MigrationSettings = {
+  enabled: false,
+};
+
+// Request context available to rule conditions alongside the intent
+export interface ValidationContext {
+  user?: UserContext;
+  sessionId?: string;
+  changesetId?: string; // Groups the intents of one chat message
+  now?: Date; // Evaluation time for schedule conditions and the change freeze; defaults to now
+}
+
+// Policy state swapped as a whole on every successful load
+interface LoadedPolicy {
+  rules: GovernanceRule[];
+  combiningAlgorithm: CombiningAlgorithm;
+  secretScanning: SecretScanningSettings;
+  qualityGate: QualityGateSettings;
+  approvalSettings: ApprovalSettings;
+  policyTests: PolicyTest[];
+  intentParser: IntentParserSettings;
+  migration: MigrationSettings;
+}
+
+// Quiet period after the last change event before the protocol is reloaded
+const RELOAD_DEBOUNCE_MS = 200;
+
+export class GovernanceValidator extends EventEmitter {
   private rules: GovernanceRule[] = [];
+  private protocolStatus: ProtocolStatus = { valid: true, errors: [] };
+  private combiningAlgorithm: CombiningAlgorithm = 'deny-overrides';
+  private secretScanning: SecretScanningSettings = { ...DEFAULT_SECRET_SCANNING };
+  private qualityGate: QualityGateSettings = { ...DEFAULT_QUALITY_GATE };
+  private approvalSettings: ApprovalSettings = { ...DEFAULT_APPROVAL_SETTINGS };
+  private policyTests: PolicyTest[] = [];
+  private intentParserSettings: IntentParserSettings = { ...DEFAULT_INTENT_PARSER };
+  private migrationSettings: MigrationSettings = { ...DEFAULT_MIGRATION_SETTINGS };
+  private hasGoodPolicy = false; // Whether any valid policy has been loaded since startup
+  private loading: Promise<void> | null = null;
+  private watcher: FSWatcher | null = null;
+  private reloadTimer: NodeJS.Timeout | null = null;
   private rulesPath: string;
   private lastRulesUpdate: Date = new Date(0);
+  private history: ProtocolHistory;
+  private quotas: QuotaTracker;
+  private freezes: ChangeFreezeStore;
 
   constructor(rulesPath: string = './system/build-protocol.json') {
+    super();
     this.rulesPath = rulesPath;
+    this.history = new ProtocolHistory(path.join(path.dirname(rulesPath), 'protocol-history'));
+    this.quotas = new QuotaTracker(path.join(path.dirname(rulesPath), 'quota-state.json'));
+    this.freezes = new ChangeFreezeStore(path.join(path.dirname(rulesPath), 'change-freeze.json'));
   }
 
   /**
    * Validate intent against governance rules
    */
-  public async validateIntent(intent: Intent): Promise<ValidationResult> {
+  public async validateIntent(intent: Intent, context: ValidationContext = {}): Promise<ValidationResult> {
+    await this.loadRulesIfNeeded();
+    await this.quotas.load();
+    await this.freezes.load();
+    if (!this.hasGoodPolicy) {
+      return this.invalidProtocolResult(intent);
+    }
+
+    const result = this.evaluatePolicy(intent, this.rules, context);
+    this.applyChangeFreeze(intent, result, context.now ?? new Date());
+    await this.applyContentTransforms(intent, result, this.rules);
+    await this.applyQualityGate(intent, result);
+    return result;
+  }
+
+  /**
+   * Consume quota budget for an intent that is about to run
+   */
+  public async recordQuotaUsage(intent: Intent, context: ValidationContext = {}): Promise<void> {
+    await this.loadRulesIfNeeded();
+    await this.quotas.load();
+
+    const subject = this.ruleSubject(intent, context);
+    const now = context.now ?? new Date();
+    const usages = this.rules
+      .filter(rule => rule.enabled !== false && rule.action === 'quota' && this.ruleApplies(rule, subject, now))
+      .map(rule => this.quotas.check(rule, intent, this.quotaScope(context)))
+      .filter((usage): usage is QuotaUsage => usage !== null);
+
+    if (usages.length > 0) {
+      await this.quotas.record(usages);
+    }
+  }
+
+  /**
+   * Usage recorded per quota key
+   */
+  public async getQuotaUsage(): Promise<Record<string, number>> {
+    return await this.quotas.getUsage();
+  }
+
+  /**
+   * Evaluate an intent without executing or auditing it, tracing every rule and condition.
+   * Candidate rules replace the loaded rule set for the simulation only.
+   */
+  public async simulateIntent(
+    intent: Intent,
+    candidateRules?: GovernanceRule[],
+    context: ValidationContext = {}
+  ): Promise<GovernanceSimulation> {
+    return await this.simulate(intent, candidateRules, context, true);
+  }
+
+  /**
+   * Simulation with or without the change freeze; policy tests check the rules alone
+   */
+  private async simulate(
+    intent: Intent,
+    candidateRules: GovernanceRule[] | undefined,
+    context: ValidationContext,
+    applyFreeze: boolean
+  ): Promise<GovernanceSimulation> {
     await this.loadRulesIfNeeded();
+    await this.quotas.load();
+    await this.freezes.load();
+
+    let rules = this.rules;
+    if (!candidateRules && !this.hasGoodPolicy) {
+      return { validation: this.invalidProtocolResult(intent), combiningAlgorithm: this.combiningAlgorithm, trace: [] };
+    }
+    if (candidateRules) {
+      rules = candidateRules.map(rule => this.normalizeRule(rule));
+      const errors = rules.flatMap(rule => this.validateRule(rule));
+      if (errors.length > 0) {
+        throw new RuleValidationError(errors);
+      }
+    }
+
+    const trace: RuleTrace[] = [];
+    const validation = this.evaluatePolicy(intent, rules, context, trace);
+    if (applyFreeze) {
+      this.applyChangeFreeze(intent, validation, context.now ?? new Date());
+    }
+    await this.applyContentTransforms(intent, validation, rules);
+    await this.applyQualityGate(intent, validation);
+    return { validation, combiningAlgorithm: this.combiningAlgorithm, trace };
+  }
+
+  /**
+   * Run the protocol's policy tests against the loaded rules, or against candidate rules
+   * to check a change before it is saved
+   */
+  public async runPolicyTests(candidateRules?: GovernanceRule[], tests?: PolicyTest[]): Promise<PolicyTestReport> {
+    await this.loadRulesIfNeeded();
+    const errors = (candidateRules || []).flatMap(rule => this.validateRule(this.normalizeRule(rule)));
+    if (errors.length > 0) {
+      throw new RuleValidationError(errors);
+    }
+
+    return await runPolicyTests(
+      tests ?? this.policyTests,
+      (intent, user, now) => this.simulate(intent, candidateRules, { user, now }, false)
+    );
+  }
+
+  /**
+   * Deny everything while the build protocol is invalid rather than guess at the intended policy
+   */
+  private invalidProtocolResult(intent: Intent): ValidationResult {
+    return {
+      isValid: false,
+      intent,
+      appliedRules: [],
+      errors: [
+        `Build protocol ${this.rulesPath} is invalid; all actions are denied until it is fixed`,
+        ...this.protocolStatus.errors,
+      ],
+      warnings: [],
+      modifications: {},
+      requiresApproval: false,
+      decision: 'deny',
+      decidedBy: 'protocol_validation',
+      overriddenRules: [],
+    };
+  }
 
+  /**
+   * Combine the matching rules into a validation result
+   */
+  private evaluatePolicy(
+    intent: Intent,
+    rules: GovernanceRule[],
+    context: ValidationContext,
+    trace?: RuleTrace[]
+  ): ValidationResult {
     const result: ValidationResult = {
       isValid: true,
       intent,
@@ -30,176 +273,741 @@ export class GovernanceValidator {
       warnings: [],
       modifications: {},
       requiresApproval: false,
+      decision: 'allow',
+      overriddenRules: [],
     };
 
-    // Apply all matching rules
-    for (const rule of this.rules) {
-      if (this.ruleApplies(rule, intent)) {
-        const ruleResult = this.applyRule(rule, intent);
-        this.mergeRuleResult(result, ruleResult, rule.id);
+    const subject = this.ruleSubject(intent, context);
+    const now = context.now ?? new Date();
+
+    // Matching enabled rules in precedence order: priority descending, then file order
+    const matched = rules
+      .filter(rule => rule.enabled !== false)
+      .map((rule, index) => ({ rule, index }))
+      .filter(({ rule }) => this.ruleApplies(rule, subject, now, trace))
+      .sort((a, b) => (b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index)
+      .map(({ rule }) => rule);
+
+    result.appliedRules = matched.map(rule => rule.id);
+
+    // Quota rules only take part in the decision once this intent would exceed their budget
+    const quotaMessages = new Map<string, string>();
+    const exhausted = new Set<string>();
+    for (const rule of matched.filter(candidate => candidate.action === 'quota')) {
+      const usage = this.quotas.check(rule, intent, this.quotaScope(context));
+      const ruleTrace = trace?.find(entry => entry.ruleId === rule.id);
+      if (ruleTrace && usage) {
+        ruleTrace.quota = usage;
+      }
+      if (usage?.exceeded) {
+        exhausted.add(rule.id);
+        quotaMessages.set(
+          rule.id,
+          `Quota exhausted: ${rule.name} (${usage.used} used, ${usage.requested} requested, limit ${describeQuota(rule.quota!)})`
+        );
       }
     }
+    if (exhausted.size > 0) {
+      result.exhaustedQuotas = Array.from(exhausted);
+    }
 
+    // Decide between the matching allow/deny/require_approval rules and exhausted quotas
+    const decisive = matched
+      .filter(rule => rule.action !== 'modify' && (rule.action !== 'quota' || exhausted.has(rule.id)))
+      .map(rule => rule.action === 'quota' ? { ...rule, action: rule.quota!.onExceeded } : rule);
+    const decider = this.selectDecidingRule(decisive);
+    if (decider) {
+      result.decision = decider.action as PolicyDecision;
+      result.decidedBy = decider.id;
+      result.overriddenRules = decisive
+        .filter(rule => rule.action !== decider.action)
+        .map(rule => rule.id);
+    }
+
+    for (const rule of decisive) {
+      if (rule.action !== result.decision) {
+        continue;
+      }
+      const quotaMessage = quotaMessages.get(rule.id);
+      if (rule.action === 'deny') {
+        result.errors.push(quotaMessage || `Action denied by rule: ${rule.name}`);
+      } else if (rule.action === 'require_approval') {
+        result.warnings.push(quotaMessage || `Action requires approval: ${rule.description}`);
+      }
+    }
+
+    this.applyApprovalSettings(intent, result);
+
+    // Modifications apply lowest priority first so higher priority rules win conflicting keys
+    for (const rule of [...matched].reverse()) {
+      if (rule.action === 'modify' && rule.modifications) {
+        result.modifications = { ...result.modifications, ...rule.modifications };
+        result.warnings.push(`Action modified by rule: ${rule.name}`);
+      }
+    }
+
+    this.applySecretScanning(intent, result, decisive);
+
+    result.isValid = result.decision !== 'deny';
+    result.requiresApproval = result.decision === 'require_approval';
     return result;
   }
 
   /**
-   * Load governance rules from file system
+   * Run the content transforms of matching 'modify' rules over the content a file
+   * operation writes, in rule precedence order. Denied intents are left alone.
+   */
+  private async applyContentTransforms(intent: Intent, result: ValidationResult, rules: GovernanceRule[]): Promise<void> {
+    const target = (intent as any).target;
+    if (result.decision === 'deny' || intent.type !== 'file_operation' || typeof target?.content !== 'string') {
+      return;
+    }
+
+    const byId = new Map(rules.map(rule => [rule.id, rule]));
+    const transforms = result.appliedRules
+      .map(id => byId.get(id))
+      .filter((rule): rule is GovernanceRule => rule?.action === 'modify' && !!rule.transforms?.length)
+      .flatMap(rule => rule.transforms!.map(transform => ({ ...transform, ruleId: rule.id })));
+    if (transforms.length === 0) {
+      return;
+    }
+
+    // Secret redaction has already replaced the content; transform what will be written
+    const before: string = result.modifications['target.content'] ?? target.content;
+    const { content, applied } = await applyContentTransforms(before, target.path, transforms);
+    result.transforms = applied;
+
+    if (content !== before) {
+      result.modifications = { ...result.modifications, 'target.content': content };
+      result.contentBeforeTransforms = before;
+      result.warnings.push(`Content transformed: ${applied.filter(transform => transform.changed).map(transform => transform.name).join(', ')}`);
+    }
+    for (const transform of applied.filter(transform => transform.error)) {
+      result.warnings.push(`Transform ${transform.name} (rule ${transform.ruleId}) failed, content left unchanged: ${transform.error}`);
+    }
+  }
+
+  /**
+   * Type-check and lint the source a file operation writes, after transforms, in the
+   * context of its project. Errors deny, require approval or are only attached,
+   * as configured; a gate that cannot run leaves the decision alone.
    */
-  private async loadRulesIfNeeded(): Promise<void> {
+  private async applyQualityGate(intent: Intent, result: ValidationResult): Promise<void> {
+    const target = (intent as any).target;
+    if (
+      !this.qualityGate.enabled ||
+      result.decision === 'deny' ||
+      intent.type !== 'file_operation' ||
+      typeof target?.content !== 'string' ||
+      !isGatedFile(target.path, this.qualityGate)
+    ) {
+      return;
+    }
+
+    let diagnostics: QualityDiagnostic[];
     try {
-      const stats = await fs.stat(this.rulesPath);
-      if (stats.mtime > this.lastRulesUpdate) {
-        const rulesContent = await fs.readFile(this.rulesPath, 'utf-8');
-        const rulesData = JSON.parse(rulesContent);
-        this.rules = this.parseRules(rulesData);
-        this.lastRulesUpdate = stats.mtime;
-      }
+      diagnostics = await checkFileQuality(target.path, result.modifications['target.content'] ?? target.content, this.qualityGate);
     } catch (error) {
-      // If rules file doesn't exist, use default rules
-      this.rules = this.getDefaultRules();
-      this.lastRulesUpdate = new Date();
+      result.warnings.push(`Quality gate could not check ${target.path}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (diagnostics.length === 0) {
+      return;
+    }
+
+    result.diagnostics = diagnostics;
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+    const [firstError] = errors;
+    const summary = `${errors.length} error(s), ${diagnostics.length - errors.length} warning(s) in ${target.path}`;
+    if (!firstError || this.qualityGate.onError === 'allow') {
+      result.warnings.push(`Quality gate: ${summary}`);
+      return;
     }
+
+    const message = `Quality gate failed: ${summary}; first: ${formatDiagnostic(firstError)}`;
+    if (this.qualityGate.onError === 'require_approval' && result.decision === 'require_approval') {
+      result.warnings.push(message);
+      return;
+    }
+
+    if (result.decidedBy) {
+      result.overriddenRules.push(result.decidedBy);
+    }
+    result.decision = this.qualityGate.onError;
+    result.decidedBy = 'quality_gate';
+    (result.decision === 'deny' ? result.errors : result.warnings).push(message);
+    result.isValid = result.decision !== 'deny';
+    result.requiresApproval = result.decision === 'require_approval';
   }
 
   /**
-   * Check if a rule applies to the given intent
+   * Apply a declared change freeze on top of the rule decision. It only tightens: a deny
+   * stands, and a require_approval freeze leaves intents that already need approval alone.
    */
-  private ruleApplies(rule: GovernanceRule, intent: Intent): boolean {
-    // Check if intent type matches
-    if (!rule.intentTypes.includes(intent.type)) {
-      return false;
+  private applyChangeFreeze(intent: Intent, result: ValidationResult, now: Date): void {
+    const freeze = this.freezes.get(now);
+    if (!freeze || !freezeAppliesTo(freeze, intent.type)) {
+      return;
     }
 
-    // Check all conditions
-    return rule.conditions.every(condition => 
-      this.evaluateCondition(condition, intent)
-    );
+    const message = describeChangeFreeze(freeze);
+    if (result.decision === 'deny' || (freeze.action === 'require_approval' && result.decision === 'require_approval')) {
+      (result.decision === 'deny' ? result.errors : result.warnings).push(message);
+      return;
+    }
+
+    if (result.decidedBy) {
+      result.overriddenRules.push(result.decidedBy);
+    }
+    result.decision = freeze.action;
+    result.decidedBy = 'change_freeze';
+    (freeze.action === 'deny' ? result.errors : result.warnings).push(message);
+    result.isValid = result.decision !== 'deny';
+    result.requiresApproval = result.decision === 'require_approval';
   }
 
   /**
-   * Evaluate a single condition against an intent
+   * The change freeze in effect, if any
    */
-  private evaluateCondition(condition: any, intent: Intent): boolean {
-    const value = this.getFieldValue(condition.field, intent);
+  public async getChangeFreeze(): Promise<ChangeFreeze | null> {
+    await this.freezes.load();
+    return this.freezes.get();
+  }
+
+  /**
+   * Declare a change freeze; it applies to every intent validated from now on
+   */
+  public async declareChangeFreeze(freeze: ChangeFreeze): Promise<ChangeFreeze> {
+    const declared = await this.freezes.declare(freeze);
+    console.log(`[GovernanceValidator] Change freeze declared by ${freeze.declaredBy || 'unknown'}: ${freeze.reason}`);
+    this.emit('freeze-changed', declared);
+    return declared;
+  }
 
-    switch (condition.operator) {
-      case 'equals':
-        return value === condition.value;
-      case 'contains':
-        return typeof value === 'string' && value.includes(condition.value);
-      case 'matches':
-        return new RegExp(condition.value).test(String(value));
-      case 'in':
-        return Array.isArray(condition.value) && condition.value.includes(value);
-      case 'greater_than':
-        return Number(value) > Number(condition.value);
-      case 'less_than':
-        return Number(value) < Number(condition.value);
-      default:
-        return false;
+  /**
+   * Lift the change freeze; returns the freeze that was in effect
+   */
+  public async liftChangeFreeze(): Promise<ChangeFreeze | null> {
+    const lifted = await this.freezes.lift();
+    if (lifted) {
+      console.log(`[GovernanceValidator] Change freeze lifted: ${lifted.reason}`);
     }
+    this.emit('freeze-changed', null);
+    return lifted;
   }
 
   /**
-   * Get field value from intent using dot notation
+   * Require approval for intents whose priority is above the configured threshold unless
+   * the priority is auto-approved. Only escalates an allow: rules that deny or require
+   * approval always stand, and under allow-overrides an explicit allow rule wins.
    */
-  private getFieldValue(field: string, intent: Intent): any {
-    const parts = field.split('.');
-    let value: any = intent;
-    
-    for (const part of parts) {
-      if (value && typeof value === 'object') {
-        value = value[part];
-      } else {
-        return undefined;
-      }
+  private applyApprovalSettings(intent: Intent, result: ValidationResult): void {
+    const { requireApprovalThreshold, autoApprove } = this.approvalSettings;
+    if (result.decision !== 'allow' || PRIORITY_ORDER.indexOf(intent.priority) <= PRIORITY_ORDER.indexOf(requireApprovalThreshold)) {
+      return;
     }
-    
-    return value;
+
+    if (autoApprove.includes(intent.priority)) {
+      result.warnings.push(`Auto-approved: ${intent.priority} priority is listed in autoApprove`);
+      return;
+    }
+    if (this.combiningAlgorithm === 'allow-overrides' && result.decidedBy) {
+      return;
+    }
+
+    if (result.decidedBy) {
+      result.overriddenRules.push(result.decidedBy);
+    }
+    result.decision = 'require_approval';
+    result.decidedBy = 'approval_threshold';
+    result.warnings.push(
+      `Action requires approval: ${intent.priority} priority is above the approval threshold (${requireApprovalThreshold})`
+    );
   }
 
   /**
-   * Apply a rule to an intent
+   * Scan written content and commands for credentials. Findings can only tighten the
+   * rule outcome; redaction replaces the secret through the intent's modifications.
    */
-  private applyRule(rule: GovernanceRule, intent: Intent): Partial<ValidationResult> {
-    const result: Partial<ValidationResult> = {
-      errors: [],
-      warnings: [],
-      modifications: {},
-      requiresApproval: false,
-    };
+  private applySecretScanning(intent: Intent, result: ValidationResult, decisive: GovernanceRule[]): void {
+    if (!this.secretScanning.enabled) {
+      return;
+    }
+
+    const { findings, redactions } = scanIntent(intent, this.secretScanning);
+    if (findings.length === 0) {
+      return;
+    }
+
+    result.secretFindings = findings;
+    const summary = findings.map(finding => `${finding.kind} in ${finding.field} line ${finding.line} (${finding.masked})`).join(', ');
 
-    switch (rule.action) {
+    switch (this.secretScanning.action) {
       case 'deny':
-        result.errors = [`Action denied by rule: ${rule.name}`];
+        if (result.decision !== 'deny') {
+          result.overriddenRules = decisive.map(rule => rule.id);
+          result.decision = 'deny';
+          result.decidedBy = 'secret_scanning';
+        }
+        result.errors.push(`Secrets detected: ${summary}`);
         break;
-
       case 'require_approval':
-        result.requiresApproval = true;
-        result.warnings = [`Action requires approval: ${rule.description}`];
+        if (result.decision === 'allow') {
+          result.overriddenRules = decisive.map(rule => rule.id);
+          result.decision = 'require_approval';
+          result.decidedBy = 'secret_scanning';
+        }
+        result.warnings.push(`Secrets detected, approval required: ${summary}`);
+        break;
+      case 'redact':
+        result.modifications = { ...result.modifications, ...redactions };
+        result.warnings.push(`Secrets redacted: ${summary}`);
         break;
+    }
+  }
+
+  /**
+   * Mask secrets in free text such as chat messages before it is stored
+   */
+  public async maskSecrets(text: string): Promise<string> {
+    await this.loadRulesIfNeeded();
+    return this.secretScanning.enabled ? redactSecrets(text, this.secretScanning) : text;
+  }
+
+  /**
+   * What rule conditions see: the intent's fields with canonical paths, `user.*` for the
+   * requesting user and, for terminal commands, `shell.*` from the parsed command line
+   */
+  private ruleSubject(intent: Intent, context: ValidationContext): Intent {
+    const intentAny = intent as any;
+    const canonical = (value: unknown) => typeof value === 'string' ? canonicalizeVirtualPath(value) : value;
+    const overrides: Record<string, any> = { user: context.user };
+
+    if (intentAny.target && (intent.type === 'file_operation' || intent.type === 'code_generation')) {
+      overrides.target = {
+        ...intentAny.target,
+        ...('path' in intentAny.target && { path: canonical(intentAny.target.path) }),
+        ...('newPath' in intentAny.target && { newPath: canonical(intentAny.target.newPath) }),
+        ...('file' in intentAny.target && { file: canonical(intentAny.target.file) }),
+      };
+    }
+    if (intent.type === 'terminal_command') {
+      overrides.workingDirectory = canonical(intent.workingDirectory);
+      overrides.shell = analyzeShellCommand(intent.command, overrides.workingDirectory);
+    }
+    if (intent.type === 'migration') {
+      overrides.project = canonical(intent.project);
+      // Describe the SQL that runs: the down script when reverting
+      const { statements, derivedDown, ...sql } = intent.operation === 'revert'
+        ? analyzeMigration(intent.down || '', intent.up)
+        : analyzeMigration(intent.up, intent.down);
+      overrides.sql = sql;
+    }
+
+    return Object.assign({}, intent, overrides);
+  }
+
+  /**
+   * Identifiers quota rules can be scoped to
+   */
+  private quotaScope(context: ValidationContext): QuotaScope {
+    return { sessionId: context.sessionId, changesetId: context.changesetId, userId: context.user?.id };
+  }
+
+  /**
+   * Pick the rule whose action decides the outcome under the combining algorithm
+   */
+  private selectDecidingRule(decisive: GovernanceRule[]): GovernanceRule | undefined {
+    if (this.combiningAlgorithm === 'first-match') {
+      return decisive[0];
+    }
+
+    for (const action of DECISION_PRECEDENCE[this.combiningAlgorithm]) {
+      const rule = decisive.find(candidate => candidate.action === action);
+      if (rule) {
+        return rule;
+      }
+    }
+    return undefined;
+  }
 
-      case 'modify':
-        if (rule.modifications) {
-          result.modifications = { ...rule.modifications };
-          result.warnings = [`Action modified by rule: ${rule.name}`];
+  /**
+   * Current combining algorithm
+   */
+  public getCombiningAlgorithm(): CombiningAlgorithm {
+    return this.combiningAlgorithm;
+  }
+
+  /**
+   * Load governance rules from file system when the protocol changed. Concurrent callers
+   * share one load.
+   */
+  private loadRulesIfNeeded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.reloadIfChanged().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async reloadIfChanged(): Promise<void> {
+    let stats;
+    try {
+      stats = await fs.stat(this.rulesPath);
+    } catch (error) {
+      // No protocol file yet: the built-in defaults apply until one is created
+      if ((error as any).code === 'ENOENT') {
+        if (!this.hasGoodPolicy) {
+          this.applyPolicy(this.getDefaultPolicy(), { valid: true, version: CURRENT_PROTOCOL_VERSION, errors: [] }, 'file');
         }
-        break;
+        return;
+      }
+      this.rejectProtocol({ valid: false, errors: [`Failed to read build protocol: ${(error as Error).message}`] });
+      return;
+    }
 
-      case 'allow':
-        // No additional action needed
-        break;
+    if (stats.mtime <= this.lastRulesUpdate) {
+      return;
     }
+    this.lastRulesUpdate = stats.mtime;
 
-    return result;
+    let content: string;
+    try {
+      content = await fs.readFile(this.rulesPath, 'utf-8');
+    } catch (error) {
+      this.rejectProtocol({ valid: false, errors: [`Failed to read build protocol: ${(error as Error).message}`] });
+      return;
+    }
+
+    const { protocol, status } = parseBuildProtocol(content);
+    if (!protocol) {
+      this.rejectProtocol(status);
+      return;
+    }
+
+    const rules = protocol.governance.rules.map(rule => this.normalizeRule(rule));
+    const ruleErrors = rules.flatMap(rule => this.validateRule(rule));
+    if (ruleErrors.length > 0) {
+      this.rejectProtocol({ ...status, valid: false, errors: ruleErrors });
+      return;
+    }
+
+    this.applyPolicy(this.policyFromProtocol(protocol, rules), status, 'file');
+
+    if (status.migratedFrom) {
+      await this.writeMigratedProtocol(protocol, status.migratedFrom);
+    }
+  }
+
+  /**
+   * Enforceable state of a validated protocol
+   */
+  private policyFromProtocol(protocol: BuildProtocol, rules: GovernanceRule[]): LoadedPolicy {
+    const { combiningAlgorithm, secretScanning, qualityGate, requireApprovalThreshold, autoApprove } = protocol.governance.settings;
+    const { mode, provider, recordingsPath, model } = protocol.middleware.intentParser;
+    return {
+      rules,
+      combiningAlgorithm,
+      secretScanning,
+      qualityGate,
+      approvalSettings: { requireApprovalThreshold, autoApprove },
+      policyTests: (protocol.governance.tests || []) as PolicyTest[],
+      intentParser: { mode, provider, recordingsPath, model },
+      migration: { enabled: protocol.migration.enabled },
+    };
+  }
+
+  private getDefaultPolicy(): LoadedPolicy {
+    return {
+      rules: this.getDefaultRules(),
+      combiningAlgorithm: 'deny-overrides',
+      secretScanning: { ...DEFAULT_SECRET_SCANNING },
+      qualityGate: { ...DEFAULT_QUALITY_GATE },
+      approvalSettings: { ...DEFAULT_APPROVAL_SETTINGS },
+      policyTests: this.getDefaultPolicyTests(),
+      intentParser: { ...DEFAULT_INTENT_PARSER },
+      migration: { ...DEFAULT_MIGRATION_SETTINGS },
+    };
+  }
+
+  /**
+   * Swap in a validated policy in one step and announce what changed
+   */
+  private applyPolicy(policy: LoadedPolicy, status: ProtocolStatus, source: GovernanceUpdateEvent['source']): void {
+    const wasLoaded = this.hasGoodPolicy;
+    const settingsBefore = JSON.stringify([
+      this.combiningAlgorithm,
+      this.secretScanning,
+      this.qualityGate,
+      this.approvalSettings,
+      this.policyTests,
+      this.intentParserSettings,
+      this.migrationSettings,
+    ]);
+    const diff = {
+      ...diffRules(this.rules, policy.rules),
+      settingsChanged: settingsBefore !== JSON.stringify([
+        policy.combiningAlgorithm,
+        policy.secretScanning,
+        policy.qualityGate,
+        policy.approvalSettings,
+        policy.policyTests,
+        policy.intentParser,
+        policy.migration,
+      ]),
+    };
+
+    this.rules = policy.rules;
+    this.combiningAlgorithm = policy.combiningAlgorithm;
+    this.secretScanning = policy.secretScanning;
+    this.qualityGate = policy.qualityGate;
+    this.approvalSettings = policy.approvalSettings;
+    this.policyTests = policy.policyTests;
+    this.intentParserSettings = policy.intentParser;
+    this.migrationSettings = policy.migration;
+    this.protocolStatus = status;
+    this.hasGoodPolicy = true;
+
+    const changed = diff.added.length + diff.removed.length + diff.changed.length > 0 || diff.settingsChanged;
+    if (wasLoaded && changed) {
+      const event: GovernanceUpdateEvent = {
+        source,
+        version: status.version,
+        ruleCount: policy.rules.length,
+        diff,
+        updatedAt: new Date().toISOString(),
+      };
+      console.log(`[GovernanceValidator] Policy updated from ${source}:`, diff);
+      this.emit('policy-updated', event);
+    }
+  }
+
+  /**
+   * Handle a protocol that failed to load: keep the last good policy if there is one,
+   * otherwise fail closed with no rules so every intent is denied until it is fixed
+   */
+  private rejectProtocol(status: ProtocolStatus): void {
+    const keptLastGood = this.hasGoodPolicy;
+    if (keptLastGood) {
+      console.error(`[GovernanceValidator] Invalid build protocol ${this.rulesPath}; keeping the last good policy:`, status.errors);
+      this.protocolStatus = { ...status, usingLastGood: true };
+    } else {
+      console.error(`[GovernanceValidator] Invalid build protocol ${this.rulesPath}; denying all intents:`, status.errors);
+      this.rules = [];
+      this.protocolStatus = status;
+    }
+
+    const event: GovernanceReloadFailedEvent = { errors: status.errors, keptLastGood, failedAt: new Date().toISOString() };
+    this.emit('policy-reload-failed', event);
+  }
+
+  /**
+   * Reload the protocol as soon as it changes on disk instead of on the next intent
+   */
+  public watchProtocol(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    // Watch the directory: editors often save by replacing the file, which ends a file watch
+    const fileName = path.basename(this.rulesPath);
+    try {
+      this.watcher = watchPath(path.dirname(this.rulesPath), (_eventType, changed) => {
+        if (changed && changed.toString() !== fileName) {
+          return;
+        }
+        if (this.reloadTimer) {
+          clearTimeout(this.reloadTimer);
+        }
+        // Writes arrive as several events; reload once they settle
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.loadRulesIfNeeded().catch(error => {
+            console.error('[GovernanceValidator] Failed to reload build protocol:', error);
+          });
+        }, RELOAD_DEBOUNCE_MS);
+      });
+      this.watcher.on('error', error => {
+        console.error('[GovernanceValidator] Build protocol watcher failed:', error);
+      });
+    } catch (error) {
+      console.error('[GovernanceValidator] Could not watch build protocol:', error);
+    }
+  }
+
+  /**
+   * Stop watching the protocol file
+   */
+  public stopWatching(): void {
+    if (this.reloadTimer) {
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Persist a protocol migrated on load so the file on disk matches what is enforced
+   */
+  private async writeMigratedProtocol(protocol: BuildProtocol, migratedFrom: string): Promise<void> {
+    try {
+      await fs.writeFile(this.rulesPath, JSON.stringify(protocol, null, 2), 'utf-8');
+      this.lastRulesUpdate = (await fs.stat(this.rulesPath)).mtime;
+      console.log(`[GovernanceValidator] Migrated build protocol from version ${migratedFrom} to ${CURRENT_PROTOCOL_VERSION}`);
+    } catch (error) {
+      console.error('[GovernanceValidator] Failed to write migrated build protocol:', error);
+    }
+  }
+
+  /**
+   * Check if a rule applies to the given intent, recording a trace entry when a sink is given
+   */
+  private ruleApplies(rule: GovernanceRule, intent: Intent, now: Date, trace?: RuleTrace[]): boolean {
+    // Check if intent type matches
+    const intentTypeMatched = rule.intentTypes.includes(intent.type);
+
+    // Top-level conditions form an implicit `all` group
+    const conditions: ConditionTrace[] = [];
+    const matched = intentTypeMatched &&
+      this.evaluateCondition({ all: rule.conditions }, intent, now, trace ? conditions : undefined);
+    const [root] = conditions;
+
+    trace?.push({
+      ruleId: rule.id,
+      name: rule.name,
+      action: rule.action,
+      priority: rule.priority ?? 0,
+      intentTypeMatched,
+      matched,
+      conditions: root?.kind === 'all' ? root.children : [],
+    });
+
+    return matched;
   }
 
   /**
-   * Merge rule result into main validation result
+   * Evaluate a condition tree against an intent. When tracing, every branch is
+   * evaluated (no short-circuit) so the trace shows each condition's outcome.
    */
-  private mergeRuleResult(
-    main: ValidationResult,
-    rule: Partial<ValidationResult>,
-    ruleId: string
-  ): void {
-    main.appliedRules.push(ruleId);
+  private evaluateCondition(condition: RuleCondition, intent: Intent, now: Date, trace?: ConditionTrace[]): boolean {
+    if ('all' in condition || 'any' in condition) {
+      const kind = 'all' in condition ? 'all' : 'any';
+      const children = 'all' in condition ? condition.all : condition.any;
+
+      if (!trace) {
+        return kind === 'all'
+          ? children.every(child => this.evaluateCondition(child, intent, now))
+          : children.some(child => this.evaluateCondition(child, intent, now));
+      }
 
-    if (rule.errors?.length) {
-      main.errors.push(...rule.errors);
-      main.isValid = false;
+      const childTraces: ConditionTrace[] = [];
+      const results = children.map(child => this.evaluateCondition(child, intent, now, childTraces));
+      const passed = kind === 'all' ? results.every(Boolean) : results.some(Boolean);
+      trace.push({ kind, passed, children: childTraces });
+      return passed;
     }
 
-    if (rule.warnings?.length) {
-      main.warnings.push(...rule.warnings);
+    if ('not' in condition) {
+      const childTraces: ConditionTrace[] = [];
+      const passed = !this.evaluateCondition(condition.not, intent, now, trace ? childTraces : undefined);
+      const [child] = childTraces;
+      if (trace && child) {
+        trace.push({ kind: 'not', passed, child });
+      }
+      return passed;
     }
 
-    if (rule.modifications) {
-      main.modifications = { ...main.modifications, ...rule.modifications };
+    if ('schedule' in condition) {
+      const passed = scheduleMatches(condition.schedule, now);
+      trace?.push({ kind: 'schedule', schedule: condition.schedule, at: now.toISOString(), passed });
+      return passed;
     }
 
-    if (rule.requiresApproval) {
-      main.requiresApproval = true;
+    const value = this.getFieldValue(condition.field, intent);
+    const passed = evaluateOperator(condition.operator, value, condition.value);
+    trace?.push({
+      kind: 'field',
+      field: condition.field,
+      operator: condition.operator,
+      expected: condition.value,
+      actual: this.summarizeTraceValue(value),
+      passed,
+    });
+    return passed;
+  }
+
+  /**
+   * Keep large field values (file content) readable in traces
+   */
+  private summarizeTraceValue(value: any): any {
+    if (typeof value === 'string' && value.length > 200) {
+      return `${value.slice(0, 200)}… (${value.length} chars)`;
+    }
+    if (Array.isArray(value) && value.length > 20) {
+      return [...value.slice(0, 20), `… (${value.length} items)`];
     }
+    return value;
   }
 
   /**
-   * Parse rules from configuration data
+   * Get field value from intent using dot notation
    */
-  private parseRules(rulesData: any): GovernanceRule[] {
-    if (!rulesData.governance?.rules) {
-      return this.getDefaultRules();
+  private getFieldValue(field: string, intent: Intent): any {
+    const parts = field.split('.');
+    let value: any = intent;
+    
+    for (const part of parts) {
+      if (value && typeof value === 'object') {
+        value = value[part];
+      } else {
+        return undefined;
+      }
     }
+    
+    return value;
+  }
 
-    return rulesData.governance.rules.map((rule: any) => ({
+  /**
+   * Fill in defaults for a rule read from configuration
+   */
+  private normalizeRule(rule: any): GovernanceRule {
+    return {
       id: rule.id || `rule_${Date.now()}_${Math.random()}`,
       name: rule.name || 'Unnamed Rule',
       description: rule.description || '',
       intentTypes: rule.intentTypes || [],
       conditions: rule.conditions || [],
       action: rule.action || 'allow',
+      priority: typeof rule.priority === 'number' ? rule.priority : undefined,
+      enabled: typeof rule.enabled === 'boolean' ? rule.enabled : undefined,
       modifications: rule.modifications,
-    }));
+      transforms: rule.transforms,
+      quota: rule.quota,
+    };
+  }
+
+  /**
+   * Semantic checks schema validation cannot express
+   */
+  private validateRule(rule: GovernanceRule): string[] {
+    return [...validateRuleConditions(rule), ...validateQuotaSpec(rule)];
+  }
+
+  /**
+   * Validation errors from the last rule load
+   */
+  public getRuleErrors(): string[] {
+    return [...this.protocolStatus.errors];
+  }
+
+  /**
+   * Validity, version and errors of the build protocol as last loaded
+   */
+  public async getProtocolStatus(): Promise<ProtocolStatus> {
+    await this.loadRulesIfNeeded();
+    return { ...this.protocolStatus, errors: [...this.protocolStatus.errors] };
   }
 
   /**
@@ -215,11 +1023,12 @@ export class GovernanceValidator {
         conditions: [
           {
             field: 'target.content',
-            operator: 'greater_than',
+            operator: 'byte_length_greater_than',
             value: 5 * 1024 * 1024, // 5MB
           },
         ],
         action: 'deny',
+        priority: 100,
       },
       {
         id: 'default_system_file_protection',
@@ -234,20 +1043,44 @@ export class GovernanceValidator {
           },
         ],
         action: 'deny',
+        priority: 100,
+      },
+      {
+        id: 'default_node_modules_protection',
+        name: 'Dependency Directory Protection',
+        description: 'Prevent writes into installed dependencies unless they come from direct user input',
+        intentTypes: ['file_operation'],
+        conditions: [
+          {
+            any: [
+              { field: 'target.path', operator: 'matches', value: '^/projects/[^/]+/node_modules(/|$)' },
+              { field: 'target.newPath', operator: 'matches', value: '^/projects/[^/]+/node_modules(/|$)' },
+            ],
+          },
+          {
+            not: { field: 'source', operator: 'equals', value: 'user_input' },
+          },
+        ],
+        action: 'deny',
+        priority: 100,
       },
       {
         id: 'default_dangerous_commands',
         name: 'Dangerous Command Protection',
-        description: 'Require approval for potentially dangerous terminal commands',
+        description: 'Require approval for destructive, privileged or out-of-workspace terminal commands',
         intentTypes: ['terminal_command'],
         conditions: [
           {
-            field: 'command',
-            operator: 'matches',
-            value: '(rm|delete|format|shutdown|reboot|dd|mkfs)',
+            any: [
+              { field: 'shell.destructive', operator: 'equals', value: true },
+              { field: 'shell.sudo', operator: 'equals', value: true },
+              { field: 'shell.pipesToShell', operator: 'equals', value: true },
+              { field: 'shell.writesOutsideWorkspace', operator: 'equals', value: true },
+            ],
           },
         ],
         action: 'require_approval',
+        priority: 50,
       },
       {
         id: 'default_package_installation',
@@ -256,12 +1089,47 @@ export class GovernanceValidator {
         intentTypes: ['terminal_command'],
         conditions: [
           {
-            field: 'command',
-            operator: 'contains',
-            value: 'npm install',
+            field: 'shell.commandLines',
+            operator: 'any_matches',
+            value: '^(npm (install|i|add|ci)|pnpm (install|i|add)|yarn add)( |$)',
           },
         ],
         action: 'require_approval',
+        priority: 50,
+      },
+      {
+        id: 'default_file_write_rate',
+        name: 'File Write Rate',
+        description: 'Require approval beyond 20 file writes per session per minute',
+        intentTypes: ['file_operation'],
+        conditions: [
+          { field: 'operation', operator: 'in', value: ['create', 'update', 'patch'] },
+        ],
+        action: 'quota',
+        priority: 50,
+        quota: { scope: 'session', measure: 'count', limit: 20, windowMs: 60 * 1000, onExceeded: 'require_approval' },
+      },
+      {
+        id: 'default_commands_per_message',
+        name: 'Commands Per Message',
+        description: 'Require approval beyond 10 terminal commands in one chat message',
+        intentTypes: ['terminal_command'],
+        conditions: [],
+        action: 'quota',
+        priority: 50,
+        quota: { scope: 'message', measure: 'count', limit: 10, onExceeded: 'require_approval' },
+      },
+      {
+        id: 'default_daily_write_budget',
+        name: 'Daily Write Budget',
+        description: 'Deny file writes once 50MB have been written in the last day',
+        intentTypes: ['file_operation'],
+        conditions: [
+          { field: 'operation', operator: 'in', value: ['create', 'update', 'patch'] },
+        ],
+        action: 'quota',
+        priority: 100,
+        quota: { scope: 'global', measure: 'bytes', limit: 50 * 1024 * 1024, windowMs: 24 * 60 * 60 * 1000, onExceeded: 'deny' },
       },
       {
         id: 'default_external_service_approval',
@@ -270,6 +1138,27 @@ export class GovernanceValidator {
         intentTypes: ['external_service'],
         conditions: [],
         action: 'require_approval',
+        priority: 50,
+      },
+      {
+        id: 'default_migration_review',
+        name: 'Migration Review',
+        description: 'Require approval for database migrations and reverts',
+        intentTypes: ['migration'],
+        conditions: [],
+        action: 'require_approval',
+        priority: 50,
+      },
+      {
+        id: 'default_irreversible_migration',
+        name: 'Irreversible Migration Protection',
+        description: 'Deny migrations without a down script that cannot be derived from the SQL',
+        intentTypes: ['migration'],
+        conditions: [
+          { field: 'sql.reversible', operator: 'equals', value: false },
+        ],
+        action: 'deny',
+        priority: 100,
       },
       {
         id: 'default_working_directory',
@@ -302,25 +1191,167 @@ export class GovernanceValidator {
     ];
   }
 
+  /**
+   * Policy tests shipped with the default rules
+   */
+  private getDefaultPolicyTests(): PolicyTest[] {
+    return [
+      {
+        name: 'Blocks writes to system files',
+        intent: {
+          type: 'file_operation',
+          operation: 'update',
+          target: { path: '/etc/passwd', content: 'root::0:0::/root:/bin/sh' },
+        },
+        expect: {
+          decision: 'deny',
+          decidedBy: 'default_system_file_protection',
+          appliedRules: [
+            'default_system_file_protection',
+            'default_file_write_rate',
+            'default_daily_write_budget',
+          ],
+        },
+      },
+      {
+        name: 'Blocks path traversal out of a project',
+        intent: {
+          type: 'file_operation',
+          operation: 'create',
+          target: { path: '/projects/default-app/../../etc/hosts', content: '127.0.0.1 example.com' },
+        },
+        expect: { decision: 'deny', decidedBy: 'default_system_file_protection' },
+      },
+      {
+        name: 'Blocks writes into node_modules',
+        intent: {
+          type: 'file_operation',
+          operation: 'create',
+          target: {
+            path: '/projects/default-app/node_modules/react/index.js',
+            content: 'module.exports = {};',
+          },
+        },
+        expect: { decision: 'deny', decidedBy: 'default_node_modules_protection' },
+      },
+      {
+        name: 'Allows source files in a project',
+        intent: {
+          type: 'file_operation',
+          operation: 'create',
+          target: {
+            path: '/projects/default-app/src/App.jsx',
+            content: 'export default function App() { return null; }',
+          },
+        },
+        expect: { decision: 'allow', decidedBy: 'default_file_extension_validation' },
+      },
+      {
+        name: 'Requires approval for destructive commands',
+        intent: {
+          type: 'terminal_command',
+          command: 'rm -rf /projects/default-app/src',
+          workingDirectory: '/projects/default-app',
+          validation: {},
+        },
+        expect: { decision: 'require_approval', decidedBy: 'default_dangerous_commands' },
+      },
+      {
+        name: 'Requires approval for package installs',
+        intent: {
+          type: 'terminal_command',
+          command: 'npm install lodash',
+          workingDirectory: '/projects/default-app',
+          validation: {},
+        },
+        expect: { decision: 'require_approval', decidedBy: 'default_package_installation' },
+      },
+      {
+        name: 'Requires approval for external services',
+        intent: {
+          type: 'external_service',
+          service: 'github',
+          action: 'create_repository',
+          parameters: {},
+        },
+        expect: { decision: 'require_approval', decidedBy: 'default_external_service_approval' },
+      },
+      {
+        name: 'Requires approval for migrations',
+        intent: {
+          type: 'migration',
+          operation: 'apply',
+          project: '/projects/default-app',
+          name: 'add_users',
+          up: 'CREATE TABLE users (id serial PRIMARY KEY, email text NOT NULL);',
+        },
+        expect: { decision: 'require_approval', decidedBy: 'default_migration_review' },
+      },
+      {
+        name: 'Blocks migrations that cannot be reverted',
+        intent: {
+          type: 'migration',
+          operation: 'apply',
+          project: '/projects/default-app',
+          name: 'drop_sessions',
+          up: 'DROP TABLE sessions;',
+        },
+        expect: { decision: 'deny', decidedBy: 'default_irreversible_migration' },
+      },
+    ];
+  }
+
   /**
    * Create build protocol file with default governance rules
    */
   public async createDefaultBuildProtocol(): Promise<void> {
-    const defaultProtocol = {
-      version: '2.0',
+    // Never overwrite an existing protocol
+    try {
+      await fs.access(this.rulesPath);
+      return;
+    } catch {
+      // File missing - create it below
+    }
+
+    const systemDir = path.dirname(this.rulesPath);
+    try {
+      await fs.mkdir(systemDir, { recursive: true });
+      await fs.writeFile(
+        this.rulesPath,
+        JSON.stringify(this.getDefaultBuildProtocol(), null, 2),
+        'utf-8'
+      );
+    } catch (error) {
+      console.error('Failed to create build protocol file:', error);
+    }
+  }
+
+  /**
+   * Build protocol with the default rules and every feature switched off
+   */
+  private getDefaultBuildProtocol(): any {
+    return {
+      version: CURRENT_PROTOCOL_VERSION,
       governance: {
         enabled: true,
         rules: this.getDefaultRules(),
         settings: {
-          requireApprovalThreshold: 'medium',
+          requireApprovalThreshold: DEFAULT_APPROVAL_SETTINGS.requireApprovalThreshold,
           auditLevel: 'full',
-          autoApprove: ['low'],
+          autoApprove: DEFAULT_APPROVAL_SETTINGS.autoApprove,
+          combiningAlgorithm: 'deny-overrides',
+          secretScanning: DEFAULT_SECRET_SCANNING,
+          qualityGate: DEFAULT_QUALITY_GATE,
         },
+        tests: this.getDefaultPolicyTests(),
       },
       middleware: {
         intentParser: {
           enabled: false,
           confidence_threshold: 0.7,
+          mode: 'regex',
+          provider: 'anthropic',
+          recordingsPath: './system/recorded-tool-calls.json',
         },
         executionRouter: {
           enabled: false,
@@ -344,18 +1375,6 @@ export class GovernanceValidator {
         auto_migrate: false,
       },
     };
-
-    const systemDir = path.dirname(this.rulesPath);
-    try {
-      await fs.mkdir(systemDir, { recursive: true });
-      await fs.writeFile(
-        this.rulesPath,
-        JSON.stringify(defaultProtocol, null, 2),
-        'utf-8'
-      );
-    } catch (error) {
-      console.error('Failed to create build protocol file:', error);
-    }
   }
 
   /**
@@ -367,38 +1386,115 @@ export class GovernanceValidator {
   }
 
   /**
-   * Update governance rules
+   * Update governance rules after schema validation, recording a version snapshot
    */
-  public async updateRules(rules: GovernanceRule[]): Promise<void> {
-    this.rules = rules;
-    
-    try {
-      const existingData = await this.loadBuildProtocol();
-      existingData.governance.rules = rules;
-      
-      await fs.writeFile(
-        this.rulesPath,
-        JSON.stringify(existingData, null, 2),
-        'utf-8'
-      );
-      
-      this.lastRulesUpdate = new Date();
-    } catch (error) {
-      console.error('Failed to update governance rules:', error);
+  public async updateRules(rules: GovernanceRule[], note?: string): Promise<PolicyVersion> {
+    const parsed = governanceRulesSchema.safeParse(rules);
+    if (!parsed.success) {
+      throw new RuleValidationError(formatRuleIssues(parsed.error));
+    }
+
+    const normalized = (parsed.data as GovernanceRule[]).map(rule => this.normalizeRule(rule));
+    const errors = normalized.flatMap(rule => this.validateRule(rule));
+    if (errors.length > 0) {
+      throw new RuleValidationError(errors);
+    }
+
+    // The rest of the protocol has to be valid too, or saving would not take effect
+    const existingData = await this.loadBuildProtocol();
+    existingData.governance = { ...existingData.governance, rules: normalized };
+    const { protocol, status } = parseBuildProtocol(JSON.stringify(existingData));
+    if (!protocol) {
+      throw new RuleValidationError(status.errors);
+    }
+
+    // Rule changes must keep the protocol's policy tests passing
+    const report = await this.runPolicyTests(normalized, (protocol.governance.tests || []) as PolicyTest[]);
+    if (report.failed > 0) {
+      throw new PolicyTestFailureError(report);
+    }
+
+    // Keep the hand-edited policy revertible the first time rules are saved
+    if ((await this.history.list()).length === 0) {
+      await this.loadRulesIfNeeded();
+      await this.history.record(this.rules, 'Policy before first saved edit');
+    }
+
+    await fs.writeFile(
+      this.rulesPath,
+      JSON.stringify(existingData, null, 2),
+      'utf-8'
+    );
+
+    this.lastRulesUpdate = (await fs.stat(this.rulesPath)).mtime;
+    this.applyPolicy(this.policyFromProtocol(protocol, normalized), status, 'api');
+
+    return await this.history.record(normalized, note);
+  }
+
+  /**
+   * List saved policy versions, newest first
+   */
+  public async getRuleHistory(): Promise<PolicyVersion[]> {
+    return await this.history.list();
+  }
+
+  /**
+   * Restore the rules of a saved version; the restore itself becomes a new version
+   */
+  public async revertRules(versionId: string): Promise<PolicyVersion> {
+    const rules = await this.history.get(versionId);
+    if (!rules) {
+      throw new Error(`Policy version ${versionId} not found`);
     }
+    return await this.updateRules(rules, `Reverted to ${versionId}`);
+  }
+
+  /**
+   * Intent parser settings of the validated build protocol; an invalid file keeps the last
+   * good settings and is reported through the protocol status
+   */
+  public async getIntentParserSettings(): Promise<IntentParserSettings> {
+    await this.loadRulesIfNeeded();
+    return { ...this.intentParserSettings };
   }
 
   /**
-   * Load build protocol file
+   * Migration intent settings of the validated build protocol
+   */
+  public async getMigrationSettings(): Promise<MigrationSettings> {
+    await this.loadRulesIfNeeded();
+    return { ...this.migrationSettings };
+  }
+
+  /**
+   * Build protocol file contents to rewrite, migrated to the current version where a
+   * migration exists. A file that does not parse is refused rather than overwritten.
    */
   private async loadBuildProtocol(): Promise<any> {
+    let content: string;
     try {
-      const content = await fs.readFile(this.rulesPath, 'utf-8');
-      return JSON.parse(content);
+      content = await fs.readFile(this.rulesPath, 'utf-8');
     } catch (error) {
-      await this.createDefaultBuildProtocol();
-      const content = await fs.readFile(this.rulesPath, 'utf-8');
-      return JSON.parse(content);
+      if ((error as any).code !== 'ENOENT') {
+        throw error;
+      }
+      return this.getDefaultBuildProtocol();
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new RuleValidationError([
+        `Build protocol ${this.rulesPath} is not valid JSON (${(error as Error).message}); fix the file before saving rules`,
+      ]);
+    }
+
+    try {
+      return migrateBuildProtocol(data).protocol;
+    } catch {
+      return data;
     }
   }
 }
\ No newline at end of file
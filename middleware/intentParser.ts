@@ -3,8 +3,19 @@
  * Extracts structured intents from AI chat outputs
  */
 
-import { Intent, ParsedChatOutput, IntentType, FileOperationIntent, TerminalCommandIntent, CodeGenerationIntent } from './types';
+import { Intent, ParsedChatOutput, IntentType, FileOperationIntent, TerminalCommandIntent, CodeGenerationIntent, ProjectScaffoldIntent, MigrationIntent, ToolCall, DiffHunk } from './types';
+import { parseUnifiedDiff } from './unifiedDiff';
+import { analyzeShellCommand, commandPriority, commandRequiresConfirmation } from './shellAnalyzer';
+import { analyzeMigration } from './sqlMigration';
+import { DEFAULT_PROJECT_PATH, VIRTUAL_PROJECTS_ROOT, canonicalizeVirtualPath, isWithinRoot } from './pathResolver';
 import { nanoid } from 'nanoid';
+import * as path from 'path';
+
+// An extracted intent and the offset in the message it was stated at
+interface PositionedIntent {
+  index: number;
+  intent: Intent;
+}
 
 export class IntentParser {
   private static readonly INTENT_PATTERNS = {
@@ -32,6 +43,11 @@ export class IntentParser {
 
   private static readonly CODE_BLOCK_PATTERN = /```(\w+)?\n([\s\S]*?)```/g;
   private static readonly FILE_PATH_PATTERN = /(?:\/[\w\-\.]+)+\.\w+/g;
+  private static readonly DIFF_LANGUAGES = ['diff', 'patch'];
+  private static readonly SQL_LANGUAGES = ['sql', 'pgsql', 'postgresql', 'postgres'];
+  // `-- migration: add_users` on the first line of a SQL block; further `-- key: value` lines follow
+  private static readonly MIGRATION_HEADER_PATTERN = /^\s*--\s*(migration|project|description):\s*(.+?)\s*$/i;
+  private static readonly MIGRATION_DOWN_PATTERN = /^\s*--\s*down:?\s*$/im;
 
   /**
    * Parse AI chat message and extract structured intents
@@ -42,17 +58,28 @@ export class IntentParser {
     const parseErrors: string[] = [];
 
     try {
-      // Extract file operation intents
-      intents.push(...this.extractFileOperationIntents(message));
+      const found: PositionedIntent[] = [
+        // Extract file operation intents
+        ...this.extractFileOperationIntents(message),
+
+        // Extract terminal command intents
+        ...this.extractTerminalCommandIntents(message),
+
+        // Extract code generation intents
+        ...this.extractCodeGenerationIntents(message),
 
-      // Extract terminal command intents
-      intents.push(...this.extractTerminalCommandIntents(message));
+        // Extract patch intents from diff blocks
+        ...this.extractDiffIntents(message),
 
-      // Extract code generation intents
-      intents.push(...this.extractCodeGenerationIntents(message));
+        // Extract migration intents from annotated SQL blocks
+        ...this.extractMigrationIntents(message),
 
-      // Extract intents from code blocks
-      intents.push(...this.extractCodeBlockIntents(message));
+        // Extract intents from code blocks
+        ...this.extractCodeBlockIntents(message),
+      ];
+
+      // Intents run in the order the reply states them; the sort is stable for ties
+      intents.push(...found.sort((a, b) => a.index - b.index).map(entry => entry.intent));
 
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -74,32 +101,92 @@ export class IntentParser {
     };
   }
 
+  /**
+   * Convert structured tool calls returned by the model into intents
+   */
+  public static intentsFromToolCalls(toolCalls: ToolCall[]): { intents: Intent[]; errors: string[] } {
+    const intents: Intent[] = [];
+    const errors: string[] = [];
+
+    for (const call of toolCalls) {
+      const input = call.input || {};
+
+      switch (call.name) {
+        case 'create_file':
+        case 'update_file':
+          if (typeof input.path !== 'string' || typeof input.content !== 'string') {
+            errors.push(`Tool call ${call.name} requires string path and content`);
+            break;
+          }
+          intents.push(this.createFileOperationIntent(
+            call.name === 'create_file' ? 'create' : 'update',
+            input.path,
+            input.content
+          ));
+          break;
+
+        case 'run_command': {
+          if (typeof input.command !== 'string' || !input.command.trim()) {
+            errors.push('Tool call run_command requires a command');
+            break;
+          }
+          // The model picks the directory; it must stay within the projects root
+          const workingDirectory = typeof input.working_directory === 'string'
+            ? canonicalizeVirtualPath(input.working_directory)
+            : DEFAULT_PROJECT_PATH;
+          if (input.working_directory !== undefined
+            && (typeof input.working_directory !== 'string' || !isWithinRoot(workingDirectory, VIRTUAL_PROJECTS_ROOT, path.posix))) {
+            errors.push(`Tool call run_command working_directory must lie within ${VIRTUAL_PROJECTS_ROOT}`);
+            break;
+          }
+          intents.push(this.createTerminalCommandIntent(input.command, workingDirectory));
+          break;
+        }
+
+        case 'scaffold_project':
+          if (!Array.isArray(input.directories) || !Array.isArray(input.files)) {
+            errors.push('Tool call scaffold_project requires directories and files arrays');
+            break;
+          }
+          intents.push(this.createProjectScaffoldIntent(input));
+          break;
+
+        case 'propose_migration':
+          if (typeof input.name !== 'string' || typeof input.up !== 'string' || !input.up.trim()) {
+            errors.push('Tool call propose_migration requires a name and up SQL');
+            break;
+          }
+          intents.push(this.createMigrationIntent({
+            name: input.name,
+            up: input.up,
+            down: typeof input.down === 'string' ? input.down : undefined,
+            project: typeof input.project === 'string' ? input.project : undefined,
+            description: typeof input.description === 'string' ? input.description : undefined,
+          }));
+          break;
+
+        default:
+          errors.push(`Unknown tool call: ${call.name}`);
+      }
+    }
+
+    return { intents, errors };
+  }
+
   /**
    * Extract file operation intents from message
    */
-  private static extractFileOperationIntents(message: string): FileOperationIntent[] {
-    const intents: FileOperationIntent[] = [];
+  private static extractFileOperationIntents(message: string): PositionedIntent[] {
+    const intents: PositionedIntent[] = [];
 
     // Create file operations
-    const createMatches = message.match(/create\s+(?:a\s+)?(?:new\s+)?file\s+(?:called\s+|named\s+)?["`']([^"`']+)["`']/gi);
-    if (createMatches) {
-      createMatches.forEach(match => {
-        const pathMatch = match.match(/["`']([^"`']+)["`']/);
-        if (pathMatch) {
-          intents.push(this.createFileOperationIntent('create', pathMatch[1]));
-        }
-      });
+    for (const match of Array.from(message.matchAll(/create\s+(?:a\s+)?(?:new\s+)?file\s+(?:called\s+|named\s+)?["`']([^"`']+)["`']/gi))) {
+      intents.push({ index: match.index!, intent: this.createFileOperationIntent('create', match[1]) });
     }
 
     // Update file operations
-    const updateMatches = message.match(/update\s+(?:the\s+)?file\s+["`']([^"`']+)["`']/gi);
-    if (updateMatches) {
-      updateMatches.forEach(match => {
-        const pathMatch = match.match(/["`']([^"`']+)["`']/);
-        if (pathMatch) {
-          intents.push(this.createFileOperationIntent('update', pathMatch[1]));
-        }
-      });
+    for (const match of Array.from(message.matchAll(/update\s+(?:the\s+)?file\s+["`']([^"`']+)["`']/gi))) {
+      intents.push({ index: match.index!, intent: this.createFileOperationIntent('update', match[1]) });
     }
 
     return intents;
@@ -108,8 +195,8 @@ export class IntentParser {
   /**
    * Extract terminal command intents from message
    */
-  private static extractTerminalCommandIntents(message: string): TerminalCommandIntent[] {
-    const intents: TerminalCommandIntent[] = [];
+  private static extractTerminalCommandIntents(message: string): PositionedIntent[] {
+    const intents: PositionedIntent[] = [];
 
     // Command execution patterns
     const commandPatterns = [
@@ -122,7 +209,7 @@ export class IntentParser {
       let match;
       while ((match = pattern.exec(message)) !== null) {
         const command = match[1] || match[0];
-        intents.push(this.createTerminalCommandIntent(command));
+        intents.push({ index: match.index, intent: this.createTerminalCommandIntent(command) });
       }
     });
 
@@ -132,44 +219,128 @@ export class IntentParser {
   /**
    * Extract code generation intents from message
    */
-  private static extractCodeGenerationIntents(message: string): CodeGenerationIntent[] {
-    const intents: CodeGenerationIntent[] = [];
+  private static extractCodeGenerationIntents(message: string): PositionedIntent[] {
+    const intents: PositionedIntent[] = [];
 
     // Component creation
-    const componentMatches = message.match(/create\s+(?:a\s+)?(?:new\s+)?(?:react\s+)?component\s+(?:called\s+|named\s+)?([^\s]+)/gi);
-    if (componentMatches) {
-      componentMatches.forEach(match => {
-        const nameMatch = match.match(/component\s+(?:called\s+|named\s+)?([^\s]+)/i);
-        if (nameMatch) {
-          intents.push(this.createCodeGenerationIntent('component', nameMatch[1]));
-        }
-      });
+    for (const match of Array.from(message.matchAll(/create\s+(?:a\s+)?(?:new\s+)?(?:react\s+)?component\s+(?:called\s+|named\s+)?([^\s]+)/gi))) {
+      intents.push({ index: match.index!, intent: this.createCodeGenerationIntent('component', match[1]) });
     }
 
     // Function generation
-    const functionMatches = message.match(/generate\s+(?:a\s+)?(?:function|method)\s+(?:called\s+|named\s+)?([^\s]+)/gi);
-    if (functionMatches) {
-      functionMatches.forEach(match => {
-        const nameMatch = match.match(/(?:function|method)\s+(?:called\s+|named\s+)?([^\s]+)/i);
-        if (nameMatch) {
-          intents.push(this.createCodeGenerationIntent('function', nameMatch[1]));
+    for (const match of Array.from(message.matchAll(/generate\s+(?:a\s+)?(?:function|method)\s+(?:called\s+|named\s+)?([^\s]+)/gi))) {
+      intents.push({ index: match.index!, intent: this.createCodeGenerationIntent('function', match[1]) });
+    }
+
+    return intents;
+  }
+
+  /**
+   * Extract patch intents from ```diff blocks in the message
+   */
+  private static extractDiffIntents(message: string): PositionedIntent[] {
+    const intents: PositionedIntent[] = [];
+    let match;
+
+    while ((match = this.CODE_BLOCK_PATTERN.exec(message)) !== null) {
+      if (!this.DIFF_LANGUAGES.includes((match[1] || '').toLowerCase())) {
+        continue;
+      }
+
+      for (const fileDiff of parseUnifiedDiff(match[2] || '')) {
+        if (fileDiff.oldPath === null && fileDiff.newPath) {
+          // New file: the added lines are the whole content
+          const content = fileDiff.hunks
+            .flatMap(hunk => hunk.lines.filter(line => line.startsWith('+')).map(line => line.slice(1)))
+            .join('\n') + '\n';
+          intents.push({ index: match.index, intent: this.createFileOperationIntent('create', this.normalizeDiffPath(fileDiff.newPath), content) });
+        } else if (fileDiff.newPath === null && fileDiff.oldPath) {
+          intents.push({ index: match.index, intent: this.createFileOperationIntent('delete', this.normalizeDiffPath(fileDiff.oldPath)) });
+        } else if (fileDiff.oldPath) {
+          intents.push({
+            index: match.index,
+            intent: this.createFileOperationIntent(
+              'patch',
+              this.normalizeDiffPath(fileDiff.newPath || fileDiff.oldPath),
+              undefined,
+              fileDiff.hunks
+            ),
+          });
         }
-      });
+      }
+    }
+
+    return intents;
+  }
+
+  /**
+   * Extract migration intents from ```sql blocks that start with a `-- migration: <name>` line.
+   * Statements after a `-- down` line undo the migration.
+   */
+  private static extractMigrationIntents(message: string): PositionedIntent[] {
+    const intents: PositionedIntent[] = [];
+    let match;
+
+    while ((match = this.CODE_BLOCK_PATTERN.exec(message)) !== null) {
+      const block = this.parseMigrationBlock(match[1] || '', match[2] || '');
+      if (block) {
+        intents.push({ index: match.index, intent: this.createMigrationIntent(block) });
+      }
     }
 
     return intents;
   }
 
+  /**
+   * Header fields and up/down scripts of a migration block, or null for other code blocks
+   */
+  private static parseMigrationBlock(
+    language: string,
+    code: string
+  ): { name: string; up: string; down?: string; project?: string; description?: string } | null {
+    if (!this.SQL_LANGUAGES.includes(language.toLowerCase())) {
+      return null;
+    }
+
+    const lines = code.split('\n');
+    const header: Record<string, string> = {};
+    let bodyStart = 0;
+    for (const line of lines) {
+      const field = this.MIGRATION_HEADER_PATTERN.exec(line);
+      if (!field) {
+        break;
+      }
+      const [, name = '', value = ''] = field;
+      header[name.toLowerCase()] = value;
+      bodyStart++;
+    }
+    if (!header.migration) {
+      return null;
+    }
+
+    const body = lines.slice(bodyStart).join('\n');
+    const downMatch = this.MIGRATION_DOWN_PATTERN.exec(body);
+    const up = (downMatch ? body.slice(0, downMatch.index) : body).trim();
+    const down = downMatch ? body.slice(downMatch.index + downMatch[0].length).trim() : undefined;
+
+    return { name: header.migration, up, down: down || undefined, project: header.project, description: header.description };
+  }
+
   /**
    * Extract intents from code blocks in the message
    */
-  private static extractCodeBlockIntents(message: string): Intent[] {
-    const intents: Intent[] = [];
+  private static extractCodeBlockIntents(message: string): PositionedIntent[] {
+    const intents: PositionedIntent[] = [];
     let match;
 
     while ((match = this.CODE_BLOCK_PATTERN.exec(message)) !== null) {
       const language = match[1] || 'text';
-      const code = match[2];
+      const code = match[2] || '';
+
+      // Diff blocks are handled by extractDiffIntents, migrations by extractMigrationIntents
+      if (this.DIFF_LANGUAGES.includes(language.toLowerCase()) || this.parseMigrationBlock(language, code)) {
+        continue;
+      }
 
       // Look for file paths in surrounding text
       const beforeBlock = message.substring(0, match.index);
@@ -177,7 +348,7 @@ export class IntentParser {
       
       if (filePathMatches && filePathMatches.length > 0) {
         const filePath = filePathMatches[filePathMatches.length - 1];
-        intents.push(this.createFileOperationIntent('create', filePath, code));
+        intents.push({ index: match.index, intent: this.createFileOperationIntent('create', filePath, code) });
       }
     }
 
@@ -188,9 +359,10 @@ export class IntentParser {
    * Create a file operation intent
    */
   private static createFileOperationIntent(
-    operation: 'create' | 'update' | 'delete' | 'rename' | 'move',
+    operation: FileOperationIntent['operation'],
     path: string,
-    content?: string
+    content?: string,
+    hunks?: DiffHunk[]
   ): FileOperationIntent {
     return {
       id: nanoid(),
@@ -202,6 +374,7 @@ export class IntentParser {
       target: {
         path,
         content,
+        ...(hunks && { hunks }),
       },
       validation: {
         fileType: this.getFileType(path),
@@ -214,24 +387,80 @@ export class IntentParser {
   /**
    * Create a terminal command intent
    */
-  private static createTerminalCommandIntent(command: string): TerminalCommandIntent {
+  private static createTerminalCommandIntent(command: string, workingDirectory?: string): TerminalCommandIntent {
+    const analysis = analyzeShellCommand(command, workingDirectory || '/projects/default-app');
     return {
       id: nanoid(),
       type: 'terminal_command',
       timestamp: new Date(),
       source: 'ai_chat',
-      priority: this.getCommandPriority(command),
+      priority: commandPriority(analysis),
       command,
-      workingDirectory: '/projects/default-app',
+      workingDirectory: workingDirectory || '/projects/default-app',
       timeout: 30000, // 30 seconds default
       validation: {
         allowedCommands: ['npm', 'node', 'ls', 'cd', 'mkdir', 'touch'],
         restrictedPaths: ['/', '/etc', '/usr', '/var'],
-        requireConfirmation: this.requiresConfirmation(command),
+        requireConfirmation: commandRequiresConfirmation(analysis),
       },
     };
   }
 
+  /**
+   * Create a project scaffold intent
+   */
+  private static createProjectScaffoldIntent(input: Record<string, any>): ProjectScaffoldIntent {
+    const frameworks: ProjectScaffoldIntent['framework'][] = ['react', 'vue', 'angular', 'node', 'python', 'custom'];
+
+    return {
+      id: nanoid(),
+      type: 'project_scaffold',
+      timestamp: new Date(),
+      source: 'ai_chat',
+      priority: 'high',
+      framework: frameworks.includes(input.framework) ? input.framework : 'custom',
+      structure: {
+        directories: input.directories.filter((dir: unknown) => typeof dir === 'string'),
+        files: input.files
+          .filter((file: any) => file && typeof file.path === 'string')
+          .map((file: any) => ({
+            path: file.path,
+            template: file.template,
+            content: file.content,
+          })),
+      },
+      dependencies: Array.isArray(input.dependencies) ? input.dependencies : [],
+    };
+  }
+
+  /**
+   * Create a migration intent. Without a down script, one is derived from the up script
+   * where every statement can be undone, so reviewers see what a revert would run.
+   */
+  private static createMigrationIntent(input: {
+    name: string;
+    up: string;
+    down?: string;
+    project?: string;
+    description?: string;
+  }): MigrationIntent {
+    const analysis = analyzeMigration(input.up, input.down);
+
+    return {
+      id: nanoid(),
+      type: 'migration',
+      timestamp: new Date(),
+      source: 'ai_chat',
+      priority: analysis.destructive ? 'critical' : 'high',
+      operation: 'apply',
+      project: input.project || DEFAULT_PROJECT_PATH,
+      name: input.name,
+      up: input.up,
+      down: input.down ?? analysis.derivedDown ?? undefined,
+      ...(input.description && { description: input.description }),
+    };
+  }
+
   /**
    * Create a code generation intent
    */
@@ -303,16 +532,10 @@ export class IntentParser {
     return typeMap[extension || ''] || 'text';
   }
 
-  private static getCommandPriority(command: string): 'low' | 'medium' | 'high' | 'critical' {
-    if (command.includes('rm ') || command.includes('delete')) return 'critical';
-    if (command.includes('npm install') || command.includes('git')) return 'high';
-    if (command.includes('npm run') || command.includes('build')) return 'medium';
-    return 'low';
-  }
-
-  private static requiresConfirmation(command: string): boolean {
-    const dangerousCommands = ['rm', 'delete', 'format', 'shutdown', 'reboot'];
-    return dangerousCommands.some(cmd => command.includes(cmd));
+  private static normalizeDiffPath(diffPath: string): string {
+    if (diffPath.startsWith('/')) return diffPath;
+    if (diffPath.startsWith('projects/')) return `/${diffPath}`;
+    return `/projects/default-app/${diffPath}`;
   }
 
   private static suggestFilePath(type: string, name: string): string {
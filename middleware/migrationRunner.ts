@@ -0,0 +1,431 @@
+/**
+ * Migration Runner - Agent Bridge Middleware v2.0
+ * Applies and reverts migration intents. Every change is first run against a pg-mem
+ * stand-in for the project's database, rebuilt from the migrations already applied, then
+ * written to the project's drizzle migrations folder together with its down script.
+ *
+ * Nothing here touches the real database: drizzle applies the written migrations. A revert
+ * only withdraws a migration drizzle has not applied yet; one it has applied needs a new
+ * migration that undoes it.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { newDb } from 'pg-mem';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
+import { AppliedMigration, MigrationDryRun, MigrationIntent } from './types';
+import { analyzeMigration, splitSqlStatements } from './sqlMigration';
+import { canonicalizeVirtualPath, isWithinRoot, resolveWorkspacePath, DEFAULT_PROJECT_PATH, VIRTUAL_PROJECTS_ROOT } from './pathResolver';
+
+const DRIZZLE_CONFIG_FILES = ['drizzle.config.ts', 'drizzle.config.js', 'drizzle.config.mjs', 'drizzle.config.json'];
+const DEFAULT_OUT_DIR = 'drizzle';
+const DOWN_DIR = 'down'; // Below the out dir; drizzle only reads files listed in its journal
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+const JOURNAL_VERSION = '7';
+// Where drizzle's migrator records what it has applied, see drizzle-orm's pg dialect
+const DRIZZLE_MIGRATIONS_TABLE = 'drizzle.__drizzle_migrations';
+// Postgres error codes for a missing table or schema: drizzle has never migrated this database
+const UNDEFINED_TABLE_CODES = ['42P01', '3F000'];
+
+interface DrizzleJournal {
+  version: string;
+  dialect: string;
+  entries: Array<{ idx: number; version: string; when: number; tag: string; breakpoints: boolean }>;
+}
+
+interface MigrationFolder {
+  project: string; // Virtual project path
+  projectDir: string;
+  outDir: string; // Disk path of the drizzle migrations folder
+}
+
+type Database = ReturnType<typeof newDb>;
+
+export class MigrationRunner {
+  private static instance: MigrationRunner;
+  private projectsRoot: string;
+  private pending: Promise<unknown> = Promise.resolve(); // Journal updates run one at a time
+
+  private constructor(projectsRoot: string = './projects') {
+    this.projectsRoot = projectsRoot;
+  }
+
+  public static getInstance(): MigrationRunner {
+    if (!MigrationRunner.instance) {
+      MigrationRunner.instance = new MigrationRunner();
+    }
+    return MigrationRunner.instance;
+  }
+
+  /**
+   * Migrations recorded in a project's journal, oldest first
+   */
+  public async list(project: string): Promise<AppliedMigration[]> {
+    return await this.readApplied(await this.migrationFolder(project));
+  }
+
+  /**
+   * Run an intent against a scratch stand-in without writing anything: the forward script,
+   * then the reverse script to check that it restores the schema the forward one started from
+   */
+  public async dryRun(intent: MigrationIntent): Promise<MigrationDryRun> {
+    const folder = await this.migrationFolder(intent.project);
+    const applied = await this.readApplied(folder);
+    const plan = this.plan(intent, applied);
+    return this.simulate(plan.history, plan.forward, plan.reverse);
+  }
+
+  /**
+   * Apply a migration intent: write the up script and journal entry drizzle expects, and
+   * the down script next to them. Refused when the scripts fail on the stand-in.
+   */
+  public async apply(intent: MigrationIntent): Promise<{ migration: AppliedMigration; files: string[]; dryRun: MigrationDryRun }> {
+    return await this.exclusive(async () => {
+      const folder = await this.migrationFolder(intent.project);
+      const applied = await this.readApplied(folder);
+      const plan = this.plan(intent, applied);
+      const dryRun = this.assertDryRun(this.simulate(plan.history, plan.forward, plan.reverse));
+
+      const journal = await this.readJournal(folder);
+      const idx = journal.entries.reduce((max, entry) => Math.max(max, entry.idx + 1), 0);
+      const tag = `${String(idx).padStart(4, '0')}_${migrationSlug(intent.name)}`;
+      const entry = { idx, version: JOURNAL_VERSION, when: Date.now(), tag, breakpoints: true };
+
+      const upPath = path.join(folder.outDir, `${tag}.sql`);
+      const downPath = path.join(folder.outDir, DOWN_DIR, `${tag}.sql`);
+      await fs.mkdir(path.join(folder.outDir, DOWN_DIR), { recursive: true });
+      await fs.writeFile(upPath, drizzleScript(plan.forward), 'utf-8');
+      if (plan.reverse) {
+        await fs.writeFile(downPath, drizzleScript(plan.reverse), 'utf-8');
+      }
+      await this.writeJournal(folder, { ...journal, entries: [...journal.entries, entry] });
+
+      return {
+        migration: {
+          idx,
+          tag,
+          project: folder.project,
+          appliedAt: new Date(entry.when).toISOString(),
+          up: plan.forward,
+          down: plan.reverse,
+        },
+        files: [upPath, ...(plan.reverse ? [downPath] : []), this.journalPath(folder)].map(file => this.virtualPath(folder, file)),
+        dryRun,
+      };
+    });
+  }
+
+  /**
+   * Withdraw the latest migration: check its down script on the stand-in, make sure drizzle
+   * has not applied it to the project's database, then remove its files and journal entry.
+   * The down script itself is never run against the database.
+   */
+  public async revert(intent: MigrationIntent): Promise<{ migration: AppliedMigration; files: string[]; dryRun: MigrationDryRun }> {
+    return await this.exclusive(async () => {
+      const folder = await this.migrationFolder(intent.project);
+      const applied = await this.readApplied(folder);
+      const plan = this.plan(intent, applied);
+      const dryRun = this.assertDryRun(this.simulate(plan.history, plan.forward, plan.reverse));
+
+      const migration = applied[applied.length - 1];
+      if (!migration) {
+        throw new Error(`No migrations to revert for ${intent.project}`);
+      }
+      const journal = await this.readJournal(folder);
+      const entry = journal.entries.find(candidate => candidate.tag === migration.tag)!;
+      await this.assertNotMigrated(migration, entry.when);
+      await this.writeJournal(folder, { ...journal, entries: journal.entries.filter(entry => entry.tag !== migration.tag) });
+
+      const files = [path.join(folder.outDir, `${migration.tag}.sql`), path.join(folder.outDir, DOWN_DIR, `${migration.tag}.sql`)];
+      for (const file of files) {
+        await fs.rm(file, { force: true });
+      }
+
+      return {
+        migration,
+        files: [...files, this.journalPath(folder)].map(file => this.virtualPath(folder, file)),
+        dryRun,
+      };
+    });
+  }
+
+  /**
+   * What a migration intent runs: the applied history to rebuild, the forward script and
+   * the script that undoes it
+   */
+  private plan(intent: MigrationIntent, applied: AppliedMigration[]): { history: string[]; forward: string; reverse: string | null } {
+    if (intent.operation === 'revert') {
+      const latest = applied[applied.length - 1];
+      if (!latest || latest.tag !== intent.name) {
+        throw new Error(`Only the latest migration can be reverted; ${latest ? `the latest is ${latest.tag}` : 'none are applied'}`);
+      }
+      const down = intent.down?.trim() ? intent.down : latest.down;
+      if (!down) {
+        throw new Error(`Migration ${latest.tag} has no down script`);
+      }
+      return { history: applied.map(migration => migration.up), forward: down, reverse: latest.up };
+    }
+
+    const reverse = intent.down?.trim() ? intent.down : analyzeMigration(intent.up).derivedDown;
+    return { history: applied.map(migration => migration.up), forward: intent.up, reverse };
+  }
+
+  /**
+   * Rebuild the stand-in from the history, run the forward script and record the schema
+   * changes, then run the reverse script and compare against the starting schema
+   */
+  private simulate(history: string[], forward: string, reverse: string | null): MigrationDryRun {
+    let db: Database;
+    try {
+      db = newDb();
+      history.forEach(script => runScript(db, script));
+    } catch (error) {
+      return { ok: false, error: `Applied migrations no longer run: ${errorMessage(error)}`, schemaChanges: [], roundTrip: 'skipped' };
+    }
+
+    const before = schemaOf(db);
+    try {
+      runScript(db, forward);
+    } catch (error) {
+      return { ok: false, error: errorMessage(error), schemaChanges: [], roundTrip: 'skipped' };
+    }
+    const schemaChanges = diffSchemas(before, schemaOf(db));
+
+    if (!reverse) {
+      return { ok: true, schemaChanges, roundTrip: 'skipped' };
+    }
+
+    try {
+      runScript(db, reverse);
+    } catch (error) {
+      return { ok: true, schemaChanges, roundTrip: 'failed', roundTripError: errorMessage(error) };
+    }
+    const leftover = diffSchemas(before, schemaOf(db));
+    return leftover.length === 0
+      ? { ok: true, schemaChanges, roundTrip: 'verified' }
+      : { ok: true, schemaChanges, roundTrip: 'failed', roundTripError: `Reverse script leaves ${leftover.join(', ')}` };
+  }
+
+  /**
+   * Refuse to withdraw a migration drizzle has applied. Drizzle treats every journal entry up
+   * to its newest recorded created_at as applied, and records each file by its sha256 hash.
+   */
+  private async assertNotMigrated(migration: AppliedMigration, when: number): Promise<void> {
+    const databaseUrl = process.env.MIGRATION_DATABASE_URL || process.env.DATABASE_URL;
+    if (!databaseUrl) {
+      throw new Error(
+        `Cannot revert ${migration.tag}: set MIGRATION_DATABASE_URL or DATABASE_URL so the runner can check that drizzle has not applied it`
+      );
+    }
+
+    const records = await readDrizzleMigrations(databaseUrl);
+    const hash = createHash('sha256').update(migration.up).digest('hex');
+    if (records.some(record => record.hash === hash || record.createdAt >= when)) {
+      throw new Error(
+        `Migration ${migration.tag} was already applied to the database by drizzle and cannot be reverted; write a new migration that undoes it`
+      );
+    }
+  }
+
+  private assertDryRun(dryRun: MigrationDryRun): MigrationDryRun {
+    if (!dryRun.ok) {
+      throw new Error(`Migration failed on the stand-in database: ${dryRun.error}`);
+    }
+    if (dryRun.roundTrip === 'failed') {
+      throw new Error(`Migration cannot be reverted cleanly: ${dryRun.roundTripError}`);
+    }
+    return dryRun;
+  }
+
+  /**
+   * Locate a project's drizzle migrations folder from the `out` setting of its drizzle config
+   */
+  private async migrationFolder(project: string): Promise<MigrationFolder> {
+    const virtualProject = canonicalizeVirtualPath(project);
+    if (path.posix.dirname(virtualProject) !== VIRTUAL_PROJECTS_ROOT) {
+      throw new Error(`Migrations target a project directory such as ${DEFAULT_PROJECT_PATH}, not ${project}`);
+    }
+    const projectDir = await resolveWorkspacePath(virtualProject, this.projectsRoot);
+
+    let out = DEFAULT_OUT_DIR;
+    for (const name of DRIZZLE_CONFIG_FILES) {
+      try {
+        const config = await fs.readFile(path.join(projectDir, name), 'utf-8');
+        out = /["']?\bout["']?\s*:\s*["'`]([^"'`]+)["'`]/.exec(config)?.[1] ?? out;
+        break;
+      } catch {
+        // No config of this kind
+      }
+    }
+
+    const outDir = path.resolve(projectDir, out);
+    if (!isWithinRoot(outDir, projectDir)) {
+      throw new Error(`Drizzle out directory ${out} is outside the project ${virtualProject}`);
+    }
+    return { project: virtualProject, projectDir, outDir };
+  }
+
+  private async readApplied(folder: MigrationFolder): Promise<AppliedMigration[]> {
+    const journal = await this.readJournal(folder);
+    const migrations: AppliedMigration[] = [];
+
+    for (const entry of journal.entries) {
+      migrations.push({
+        idx: entry.idx,
+        tag: entry.tag,
+        project: folder.project,
+        appliedAt: new Date(entry.when).toISOString(),
+        up: await fs.readFile(path.join(folder.outDir, `${entry.tag}.sql`), 'utf-8'),
+        down: await readOptional(path.join(folder.outDir, DOWN_DIR, `${entry.tag}.sql`)),
+      });
+    }
+
+    return migrations;
+  }
+
+  private async readJournal(folder: MigrationFolder): Promise<DrizzleJournal> {
+    const data = await readOptional(this.journalPath(folder));
+    return data ? JSON.parse(data) : { version: JOURNAL_VERSION, dialect: 'postgresql', entries: [] };
+  }
+
+  private async writeJournal(folder: MigrationFolder, journal: DrizzleJournal): Promise<void> {
+    await fs.mkdir(path.dirname(this.journalPath(folder)), { recursive: true });
+    await fs.writeFile(this.journalPath(folder), JSON.stringify(journal, null, 2), 'utf-8');
+  }
+
+  private journalPath(folder: MigrationFolder): string {
+    return path.join(folder.outDir, 'meta', '_journal.json');
+  }
+
+  private virtualPath(folder: MigrationFolder, diskPath: string): string {
+    return path.posix.join(folder.project, path.relative(folder.projectDir, diskPath).split(path.sep).join('/'));
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.pending.then(task, task);
+    this.pending = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Run a script one statement at a time so failures name the statement
+ */
+function runScript(db: Database, script: string): void {
+  splitSqlStatements(script).forEach((statement, index) => {
+    try {
+      db.public.none(statement);
+    } catch (error) {
+      throw new Error(`Statement ${index + 1} failed: ${errorMessage(error)}`);
+    }
+    dropOrphanIndexes(db);
+  });
+}
+
+/**
+ * pg-mem keeps the indexes of a dropped table registered, so recreating the table, as a
+ * round trip does, fails on its primary key; forget indexes whose table is gone.
+ * pg-mem has no public API for this, which is why package.json pins its exact version.
+ */
+function dropOrphanIndexes(db: Database): void {
+  const relations: Map<string, any> | undefined = (db.public as any).relsByNameCas;
+  if (!relations) {
+    throw new Error('Unsupported pg-mem version: schema relations are not readable');
+  }
+  for (const [name, relation] of Array.from(relations)) {
+    if (relation.type === 'index' && relations.get(relation.onTable?.name) !== relation.onTable) {
+      relations.delete(name);
+    }
+  }
+}
+
+/**
+ * Tables, columns, indexes, constraints and enums of the public schema, one sortable line
+ * each. pg-mem leaves the pg_catalog views empty, so this walks its in-memory schema;
+ * constraints and enum types are only reachable through its internals, read from the
+ * version pinned in package.json.
+ */
+function schemaOf(db: Database): string[] {
+  const lines: string[] = [];
+
+  for (const table of Array.from(db.public.listTables())) {
+    const indexes = table.listIndices();
+    lines.push(`table ${table.name}`);
+    for (const column of Array.from(table.getColumns())) {
+      const flags = [column.type.name, ...(column.nullable ? [] : ['not null']), ...(column.hasDefault ? ['default'] : [])];
+      lines.push(`column ${table.name}.${column.name} (${flags.join(', ')})`);
+    }
+    for (const index of indexes) {
+      lines.push(`index ${index.name} on ${table.name} (${index.expressions.join(', ')})${index.unique ? ' unique' : ''}`);
+    }
+    // Primary keys and unique constraints are listed as indexes already
+    for (const name of Array.from<string>((table as any).constraintsByName?.keys() ?? [])) {
+      if (!indexes.some(index => index.name === name)) {
+        lines.push(`constraint ${name} on ${table.name}`);
+      }
+    }
+  }
+
+  for (const relation of Array.from<any>((db.public as any).relsByNameCas?.values() ?? [])) {
+    if (relation.type === 'type' && Array.isArray(relation.values)) {
+      lines.push(`enum ${relation.name} (${relation.values.join(', ')})`);
+    }
+  }
+
+  return lines.sort();
+}
+
+/**
+ * Rows of drizzle's migrations table, read with the Neon serverless driver; none when
+ * drizzle has never migrated the database
+ */
+async function readDrizzleMigrations(databaseUrl: string): Promise<Array<{ hash: string; createdAt: number }>> {
+  neonConfig.webSocketConstructor = ws;
+  const pool = new Pool({ connectionString: databaseUrl });
+  try {
+    const result = await pool.query(`SELECT hash, created_at FROM ${DRIZZLE_MIGRATIONS_TABLE}`);
+    return result.rows.map(row => ({ hash: row.hash, createdAt: Number(row.created_at) }));
+  } catch (error) {
+    if (UNDEFINED_TABLE_CODES.includes((error as any).code)) {
+      return [];
+    }
+    throw new Error(`Could not read ${DRIZZLE_MIGRATIONS_TABLE}: ${errorMessage(error)}`);
+  } finally {
+    await pool.end().catch(() => undefined);
+  }
+}
+
+function diffSchemas(before: string[], after: string[]): string[] {
+  return [
+    ...after.filter(line => !before.includes(line)).map(line => `+ ${line}`),
+    ...before.filter(line => !after.includes(line)).map(line => `- ${line}`),
+  ];
+}
+
+// Statements separated the way drizzle-kit writes them
+function drizzleScript(sql: string): string {
+  return splitSqlStatements(sql).map(statement => `${statement};`).join(`\n${STATEMENT_BREAKPOINT}\n`) + '\n';
+}
+
+function migrationSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'migration';
+}
+
+async function readOptional(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as any).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// The Neon driver rejects with WebSocket ErrorEvents, which carry a message but are no Errors
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error || typeof (error as any)?.message === 'string' ? (error as any).message : String(error);
+  return message.split('\n')[0];
+}
@@ -0,0 +1,19 @@
+/**
+ * Optional Module - Agent Bridge Middleware v2.0
+ * Loads packages that only opt-in features need, so a production install can leave them out
+ */
+
+/**
+ * Import an optional package on first use, with an install hint when it is missing
+ */
+export async function importOptional<T>(specifier: string, feature: string): Promise<T> {
+  try {
+    return await import(specifier);
+  } catch (error) {
+    const code = (error as any)?.code;
+    if (code === 'ERR_MODULE_NOT_FOUND' || code === 'MODULE_NOT_FOUND') {
+      throw new Error(`${feature} needs the optional package '${specifier}'; install it with: npm install ${specifier}`);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Path Resolver - Agent Bridge Middleware v2.0
+ * Canonical workspace paths for governance and execution: normalisation, symlink
+ * resolution and containment checks in one place
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Intents address files under this virtual root, e.g. /projects/default-app/src/App.jsx
+export const VIRTUAL_PROJECTS_ROOT = '/projects';
+export const DEFAULT_PROJECT_PATH = `${VIRTUAL_PROJECTS_ROOT}/default-app`;
+
+/**
+ * Raised when a path resolves outside the workspace it must stay in
+ */
+export class PathOutsideWorkspaceError extends Error {
+  constructor(public readonly requestedPath: string, public readonly workspaceRoot: string) {
+    super(`Path ${requestedPath} resolves outside the workspace ${workspaceRoot}`);
+    this.name = 'PathOutsideWorkspaceError';
+  }
+}
+
+/**
+ * Normalise an intent path without touching the disk: relative paths are taken from the
+ * default project and `.`/`..` segments are applied, so `/projects/app/../../etc/passwd`
+ * becomes `/etc/passwd`
+ */
+export function canonicalizeVirtualPath(filePath: string, basePath: string = DEFAULT_PROJECT_PATH): string {
+  const withRoot = filePath.startsWith('./projects/') || filePath.startsWith('projects/')
+    ? `/${filePath.replace(/^\.\//, '')}`
+    : filePath;
+  return path.posix.resolve(basePath, withRoot.replace(/\\/g, '/'));
+}
+
+/**
+ * Whether a path equals or lies below a root; unlike a prefix check, `/app/projects-evil`
+ * is not within `/app/projects`
+ */
+export function isWithinRoot(candidate: string, root: string, pathApi: typeof path.posix = path): boolean {
+  const relative = pathApi.relative(root, candidate);
+  return relative === '' || (!relative.startsWith('..') && !pathApi.isAbsolute(relative));
+}
+
+/**
+ * Resolve symlinks in the longest existing prefix of a path; the missing remainder
+ * (files about to be created) is appended unchanged
+ */
+export async function realpathExisting(target: string): Promise<string> {
+  let existing = target;
+  const missing: string[] = [];
+
+  while (true) {
+    try {
+      const resolved = await fs.realpath(existing);
+      return missing.length > 0 ? path.join(resolved, ...missing.reverse()) : resolved;
+    } catch (error) {
+      if ((error as any).code !== 'ENOENT' && (error as any).code !== 'ENOTDIR') {
+        throw error;
+      }
+      const parent = path.dirname(existing);
+      if (parent === existing) {
+        return path.join(existing, ...missing.reverse());
+      }
+      missing.push(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a path against a directory on disk, symlinks included; null when the file that
+ * would actually be touched lies outside that directory
+ */
+async function realpathWithin(relativePath: string, diskRoot: string): Promise<string | null> {
+  const root = await realpathExisting(path.resolve(diskRoot));
+  const resolved = await realpathExisting(path.resolve(root, relativePath));
+  return isWithinRoot(resolved, root) ? resolved : null;
+}
+
+/**
+ * Resolve a path relative to a workspace directory on disk and make sure it stays there,
+ * symlinks included. Throws PathOutsideWorkspaceError otherwise.
+ */
+export async function resolveWithinRoot(relativePath: string, diskRoot: string): Promise<string> {
+  const resolved = await realpathWithin(relativePath, diskRoot);
+  if (!resolved) {
+    throw new PathOutsideWorkspaceError(relativePath, diskRoot);
+  }
+  return resolved;
+}
+
+/**
+ * Map an intent path onto the projects directory on disk and make sure it stays there,
+ * symlinks included. Throws PathOutsideWorkspaceError otherwise.
+ */
+export async function resolveWorkspacePath(filePath: string, diskProjectsRoot: string): Promise<string> {
+  const virtualPath = canonicalizeVirtualPath(filePath);
+  if (!isWithinRoot(virtualPath, VIRTUAL_PROJECTS_ROOT, path.posix)) {
+    throw new PathOutsideWorkspaceError(filePath, VIRTUAL_PROJECTS_ROOT);
+  }
+
+  const relative = path.posix.relative(VIRTUAL_PROJECTS_ROOT, virtualPath);
+  const resolved = await realpathWithin(path.join('.', ...relative.split('/').filter(Boolean)), diskProjectsRoot);
+  if (!resolved) {
+    throw new PathOutsideWorkspaceError(filePath, VIRTUAL_PROJECTS_ROOT);
+  }
+  return resolved;
+}
@@ -0,0 +1,55 @@
+/**
+ * Permissions - Agent Bridge Middleware v2.0
+ * Permission checks for the user a request acts for
+ */
+
+import { Intent, UserContext } from './types';
+
+export const PERMISSIONS = {
+  READ: 'read',
+  EXECUTE: 'execute',
+  APPROVE: 'approve',
+  APPROVE_CRITICAL: 'approve_critical',
+  MANAGE_RULES: 'manage_rules',
+} as const;
+
+/**
+ * Raised when a user lacks the permission an action needs
+ */
+export class PermissionDeniedError extends Error {
+  constructor(public readonly user: UserContext | undefined, public readonly permission: string) {
+    super(`User ${user ? `${user.id} (${user.role})` : 'anonymous'} lacks permission '${permission}'`);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Identity for work the host application starts on its own, such as startup jobs. It holds
+ * every permission and is never resolved from a request; callers pass it explicitly.
+ */
+export const HOST_USER: Readonly<UserContext> = Object.freeze({
+  id: 'host',
+  role: 'admin',
+  permissions: Object.values(PERMISSIONS),
+});
+
+export function hasPermission(user: UserContext | undefined, permission: string): boolean {
+  return !!user && user.permissions.includes(permission);
+}
+
+/**
+ * Permissions a reviewer needs to approve or reject an intent
+ */
+export function requiredApprovalPermissions(intent: Intent): string[] {
+  return intent.priority === 'critical'
+    ? [PERMISSIONS.APPROVE, PERMISSIONS.APPROVE_CRITICAL]
+    : [PERMISSIONS.APPROVE];
+}
+
+export function assertPermissions(user: UserContext | undefined, permissions: string[]): void {
+  for (const permission of permissions) {
+    if (!hasPermission(user, permission)) {
+      throw new PermissionDeniedError(user, permission);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Policy Test CLI - Agent Bridge Middleware v2.0
+ * Runs the policy tests of a build protocol: `npm run test:policy [-- path/to/build-protocol.json]`
+ * Exits non-zero when a test fails or the protocol is invalid.
+ */
+
+import { GovernanceValidator } from './governanceValidator';
+
+async function main(): Promise<number> {
+  const protocolPath = process.argv[2] || './system/build-protocol.json';
+  const validator = new GovernanceValidator(protocolPath);
+
+  const status = await validator.getProtocolStatus();
+  if (!status.valid) {
+    console.error(`Invalid build protocol ${protocolPath}:`);
+    status.errors.forEach(error => console.error(`  ${error}`));
+    return 1;
+  }
+
+  const report = await validator.runPolicyTests();
+  for (const result of report.results) {
+    console.log(`${result.passed ? 'PASS' : 'FAIL'}  ${result.name}`);
+    for (const diff of result.diffs) {
+      if (diff.field === 'error') {
+        console.log(`      error: ${diff.actual}`);
+      } else {
+        console.log(`      ${diff.field}:`);
+        console.log(`        - expected ${JSON.stringify(diff.expected)}`);
+        console.log(`        + actual   ${JSON.stringify(diff.actual)}`);
+      }
+    }
+  }
+
+  console.log(`\n${report.passed} passed, ${report.failed} failed`);
+  return report.failed > 0 ? 1 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error);
+    process.exit(1);
+  }
+);
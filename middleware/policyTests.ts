@@ -0,0 +1,98 @@
+/**
+ * Policy Tests - Agent Bridge Middleware v2.0
+ * Runs the test cases embedded in the build protocol against a rule set
+ */
+
+import { Intent, PolicyTest, PolicyTestDiff, PolicyTestReport, PolicyTestResult, GovernanceSimulation, UserContext } from './types';
+import { USER_ROLES, ROLE_PERMISSIONS, UserRole } from '../shared/schema';
+
+// Evaluates one intent as a given user at a given time without executing, auditing or consuming quota
+export type PolicyEvaluator = (intent: Intent, user?: UserContext, now?: Date) => Promise<GovernanceSimulation>;
+
+/**
+ * Raised when a rule change would break policy tests
+ */
+export class PolicyTestFailureError extends Error {
+  constructor(public readonly report: PolicyTestReport) {
+    super(`${report.failed} policy test(s) failed`);
+    this.name = 'PolicyTestFailureError';
+  }
+
+  /**
+   * One line per failing test, for API error details
+   */
+  public get failures(): string[] {
+    return describeFailures(this.report);
+  }
+}
+
+/**
+ * Run every test and compare the decision, deciding rule and matched rules with expectations
+ */
+export async function runPolicyTests(tests: PolicyTest[], evaluate: PolicyEvaluator): Promise<PolicyTestReport> {
+  const results: PolicyTestResult[] = [];
+
+  for (const [index, test] of Array.from(tests.entries())) {
+    results.push(await runPolicyTest(test, index, evaluate));
+  }
+
+  const passed = results.filter(result => result.passed).length;
+  return { passed, failed: results.length - passed, results };
+}
+
+async function runPolicyTest(test: PolicyTest, index: number, evaluate: PolicyEvaluator): Promise<PolicyTestResult> {
+  const diffs: PolicyTestDiff[] = [];
+
+  try {
+    const intent = {
+      id: `policy_test_${index}`,
+      timestamp: new Date(),
+      source: 'ai_chat',
+      priority: 'medium',
+      ...test.intent,
+    } as Intent;
+
+    const { validation } = await evaluate(intent, testUser(test), test.at ? new Date(test.at) : undefined);
+    const { expect } = test;
+
+    if (validation.decision !== expect.decision) {
+      diffs.push({ field: 'decision', expected: expect.decision, actual: validation.decision });
+    }
+    if (expect.decidedBy !== undefined && validation.decidedBy !== expect.decidedBy) {
+      diffs.push({ field: 'decidedBy', expected: expect.decidedBy, actual: validation.decidedBy ?? null });
+    }
+    if (expect.appliedRules !== undefined) {
+      const expected = Array.from(new Set(expect.appliedRules)).sort();
+      const actual = Array.from(new Set(validation.appliedRules)).sort();
+      if (expected.join('\n') !== actual.join('\n')) {
+        diffs.push({ field: 'appliedRules', expected, actual });
+      }
+    }
+  } catch (error) {
+    diffs.push({ field: 'error', expected: null, actual: error instanceof Error ? error.message : String(error) });
+  }
+
+  return { name: test.name, passed: diffs.length === 0, diffs };
+}
+
+function testUser(test: PolicyTest): UserContext | undefined {
+  if (test.role === undefined) {
+    return undefined;
+  }
+  if (!USER_ROLES.includes(test.role as UserRole)) {
+    throw new Error(`Unknown role '${test.role}'`);
+  }
+  return { id: 'policy-test', role: test.role as UserRole, permissions: ROLE_PERMISSIONS[test.role as UserRole] };
+}
+
+/**
+ * Human-readable failures, e.g. `Blocks system files: decision expected deny, got allow`
+ */
+export function describeFailures(report: PolicyTestReport): string[] {
+  return report.results
+    .filter(result => !result.passed)
+    .flatMap(result => result.diffs.map(diff => diff.field === 'error'
+      ? `${result.name}: ${diff.actual}`
+      : `${result.name}: ${diff.field} expected ${JSON.stringify(diff.expected)}, got ${JSON.stringify(diff.actual)}`
+    ));
+}
@@ -0,0 +1,111 @@
+/**
+ * Protocol History - Agent Bridge Middleware v2.0
+ * Keeps a snapshot of every saved governance rule set so a bad policy can be reverted
+ */
+
+import { GovernanceRule } from './types';
+import type { PolicyVersion } from '../shared/governance';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+interface PolicySnapshot extends PolicyVersion {
+  rules: GovernanceRule[];
+}
+
+export class ProtocolHistory {
+  private historyDir: string;
+  private maxVersions = 50;
+
+  constructor(historyDir: string = './system/protocol-history') {
+    this.historyDir = historyDir;
+  }
+
+  /**
+   * Store a snapshot of a rule set
+   */
+  public async record(rules: GovernanceRule[], note?: string): Promise<PolicyVersion> {
+    await fs.mkdir(this.historyDir, { recursive: true });
+
+    const savedAt = new Date();
+    const snapshot: PolicySnapshot = {
+      id: `${savedAt.toISOString().replace(/[:.]/g, '-')}_${Math.random().toString(36).substr(2, 6)}`,
+      savedAt: savedAt.toISOString(),
+      ruleCount: rules.length,
+      note,
+      rules,
+    };
+
+    await fs.writeFile(
+      path.join(this.historyDir, `${snapshot.id}.json`),
+      JSON.stringify(snapshot, null, 2),
+      'utf-8'
+    );
+    await this.prune();
+
+    return this.toVersion(snapshot);
+  }
+
+  /**
+   * List stored versions, newest first
+   */
+  public async list(): Promise<PolicyVersion[]> {
+    const snapshots = await this.readAll();
+    return snapshots.map(snapshot => this.toVersion(snapshot));
+  }
+
+  /**
+   * Get the rules of a stored version
+   */
+  public async get(versionId: string): Promise<GovernanceRule[] | null> {
+    if (!/^[\w-]+$/.test(versionId)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(this.historyDir, `${versionId}.json`), 'utf-8');
+      return (JSON.parse(content) as PolicySnapshot).rules;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Drop the oldest snapshots beyond the retention limit
+   */
+  private async prune(): Promise<void> {
+    const snapshots = await this.readAll();
+    for (const snapshot of snapshots.slice(this.maxVersions)) {
+      await fs.rm(path.join(this.historyDir, `${snapshot.id}.json`), { force: true });
+    }
+  }
+
+  private async readAll(): Promise<PolicySnapshot[]> {
+    let fileNames: string[];
+    try {
+      fileNames = (await fs.readdir(this.historyDir)).filter(name => name.endsWith('.json'));
+    } catch (error) {
+      return [];
+    }
+
+    const snapshots: PolicySnapshot[] = [];
+    for (const fileName of fileNames) {
+      try {
+        const content = await fs.readFile(path.join(this.historyDir, fileName), 'utf-8');
+        snapshots.push(JSON.parse(content));
+      } catch (error) {
+        console.error(`[ProtocolHistory] Skipping unreadable snapshot ${fileName}:`, error);
+      }
+    }
+
+    return snapshots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  private toVersion(snapshot: PolicySnapshot): PolicyVersion {
+    return {
+      id: snapshot.id,
+      savedAt: snapshot.savedAt,
+      ruleCount: snapshot.ruleCount,
+      note: snapshot.note,
+    };
+  }
+}
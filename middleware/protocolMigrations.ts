@@ -0,0 +1,123 @@
+/**
+ * Protocol Migrations - Agent Bridge Middleware v2.0
+ * Upgrades build-protocol.json files written for older protocol versions and
+ * validates the result against the protocol schema
+ */
+
+import { ProtocolStatus } from './types';
+import { DEFAULT_SECRET_SCANNING } from './secretScanner';
+import { DEFAULT_QUALITY_GATE } from './qualityGate';
+import { buildProtocolSchema, formatProtocolIssues, BuildProtocol, CURRENT_PROTOCOL_VERSION } from '../shared/governance';
+
+interface ProtocolMigration {
+  from: string;
+  to: string;
+  migrate(protocol: any): any;
+}
+
+// One step per version bump, applied in sequence until the current version is reached
+const PROTOCOL_MIGRATIONS: ProtocolMigration[] = [
+  {
+    // 2.0 files predate combining algorithms, secret scanning and the tool-use parser
+    from: '2.0',
+    to: '2.1',
+    migrate: protocol => {
+      const governance = protocol.governance || {};
+      const settings = governance.settings || {};
+      const intentParser = protocol.middleware?.intentParser || {};
+
+      return {
+        ...protocol,
+        governance: {
+          ...governance,
+          settings: {
+            ...settings,
+            combiningAlgorithm: settings.combiningAlgorithm ?? 'deny-overrides',
+            secretScanning: { ...DEFAULT_SECRET_SCANNING, ...settings.secretScanning },
+          },
+        },
+        middleware: {
+          ...protocol.middleware,
+          intentParser: { mode: 'regex', provider: 'anthropic', ...intentParser },
+        },
+      };
+    },
+  },
+  {
+    // 2.1 files predate the type-check and lint quality gate, which stays off until enabled
+    from: '2.1',
+    to: '2.2',
+    migrate: protocol => {
+      const governance = protocol.governance || {};
+      const settings = governance.settings || {};
+
+      return {
+        ...protocol,
+        governance: {
+          ...governance,
+          settings: { ...settings, qualityGate: { ...DEFAULT_QUALITY_GATE, ...settings.qualityGate } },
+        },
+      };
+    },
+  },
+];
+
+/**
+ * Raised when a protocol declares a version no migration path leads from
+ */
+export class UnsupportedProtocolVersionError extends Error {
+  constructor(public readonly version: unknown) {
+    super(
+      `Unsupported protocol version ${JSON.stringify(version)}; expected ${CURRENT_PROTOCOL_VERSION} or one of ` +
+      PROTOCOL_MIGRATIONS.map(migration => migration.from).join(', ')
+    );
+    this.name = 'UnsupportedProtocolVersionError';
+  }
+}
+
+/**
+ * Bring a parsed protocol up to CURRENT_PROTOCOL_VERSION. The input is not modified.
+ */
+export function migrateBuildProtocol(protocol: any): { protocol: any; migratedFrom?: string } {
+  const original = protocol?.version;
+  let migrated = protocol;
+
+  while (migrated?.version !== CURRENT_PROTOCOL_VERSION) {
+    const step = PROTOCOL_MIGRATIONS.find(migration => migration.from === migrated?.version);
+    if (!step) {
+      throw new UnsupportedProtocolVersionError(original);
+    }
+    migrated = { ...step.migrate(migrated), version: step.to };
+  }
+
+  return original === CURRENT_PROTOCOL_VERSION ? { protocol: migrated } : { protocol: migrated, migratedFrom: original };
+}
+
+/**
+ * Parse, migrate and schema-check the contents of a build protocol file
+ */
+export function parseBuildProtocol(content: string): { protocol: BuildProtocol | null; status: ProtocolStatus } {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return { protocol: null, status: { valid: false, errors: [`Invalid JSON: ${(error as Error).message}`] } };
+  }
+
+  let migration: { protocol: any; migratedFrom?: string };
+  try {
+    migration = migrateBuildProtocol(data);
+  } catch (error) {
+    return { protocol: null, status: { valid: false, version: data?.version, errors: [(error as Error).message] } };
+  }
+
+  const parsed = buildProtocolSchema.safeParse(migration.protocol);
+  const status: ProtocolStatus = {
+    valid: parsed.success,
+    version: CURRENT_PROTOCOL_VERSION,
+    migratedFrom: migration.migratedFrom,
+    errors: parsed.success ? [] : formatProtocolIssues(parsed.error),
+  };
+
+  return { protocol: parsed.success ? migration.protocol : null, status };
+}
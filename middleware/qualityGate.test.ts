@@ -0,0 +1,75 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_QUALITY_GATE, checkFileQuality, formatDiagnostic, isGatedFile } from './qualityGate';
+import { QualityGateSettings } from './types';
+
+let projectsRoot: string;
+
+before(async () => {
+  projectsRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'quality-gate-'));
+  const project = path.join(projectsRoot, 'app');
+  await fs.mkdir(path.join(project, 'src'), { recursive: true });
+  await fs.writeFile(path.join(project, 'tsconfig.json'), JSON.stringify({
+    compilerOptions: { strict: true, target: 'ES2020', module: 'ESNext', moduleResolution: 'Bundler', noEmit: true },
+    include: ['src'],
+  }));
+  await fs.writeFile(path.join(project, 'src', 'math.ts'), 'export function double(value: number): number {\n  return value * 2;\n}\n');
+  await fs.writeFile(path.join(project, 'src', 'globals.d.ts'), 'declare const APP_VERSION: string;\n');
+});
+
+after(async () => {
+  await fs.rm(projectsRoot, { recursive: true, force: true });
+});
+
+function settings(overrides: Partial<QualityGateSettings> = {}): QualityGateSettings {
+  return { ...DEFAULT_QUALITY_GATE, enabled: true, projectsRoot, ...overrides };
+}
+
+describe('checkFileQuality', () => {
+  it('passes content that type-checks against the project and its declarations', async () => {
+    const content = "import { double } from './math';\n\nexport const label = `${APP_VERSION}: ${double(2)}`;\n";
+    assert.deepEqual(await checkFileQuality('/projects/app/src/label.ts', content, settings()), []);
+  });
+
+  it('type-checks the proposed content in place of the file on disk', async () => {
+    const diagnostics = await checkFileQuality(
+      '/projects/app/src/math.ts',
+      'export function double(value: number): number {\n  return `${value}`;\n}\n',
+      settings({ eslint: false }),
+    );
+    assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.line, diagnostic.severity]), [['TS2322', 2, 'error']]);
+    assert.equal(diagnostics[0]?.file, '/projects/app/src/math.ts');
+  });
+
+  it('lints with the recommended typescript-eslint rules', async () => {
+    const diagnostics = await checkFileQuality('/projects/app/src/any.ts', 'export const value: any = 1;\n', settings({ typescript: false }));
+    assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.source, diagnostic.code]), [['eslint', '@typescript-eslint/no-explicit-any']]);
+  });
+
+  it('drops ignored diagnostic codes', async () => {
+    const content = "import { missing } from './nowhere';\nexport const value: any = missing;\n";
+    const diagnostics = await checkFileQuality('/projects/app/src/a.ts', content, settings({ ignore: ['TS2307', '@typescript-eslint/no-explicit-any'] }));
+    assert.deepEqual(diagnostics, []);
+  });
+
+  it('refuses paths outside the projects root', async () => {
+    await assert.rejects(checkFileQuality('/projects/../etc/a.ts', 'export {};\n', settings()));
+  });
+});
+
+describe('quality gate helpers', () => {
+  it('gates files by extension, ignoring case', () => {
+    assert.equal(isGatedFile('/projects/app/src/App.TSX', settings()), true);
+    assert.equal(isGatedFile('/projects/app/src/app.js', settings()), false);
+  });
+
+  it('formats diagnostics on one line', () => {
+    assert.equal(
+      formatDiagnostic({ source: 'typescript', severity: 'error', code: 'TS2322', message: 'Bad type', file: 'src/a.ts', line: 4, column: 7 }),
+      'src/a.ts:4:7 error TS2322: Bad type',
+    );
+  });
+});
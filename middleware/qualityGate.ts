@@ -0,0 +1,178 @@
+/**
+ * Quality Gate - Agent Bridge Middleware v2.0
+ * Type-checks and lints AI-written source files against the project they land in,
+ * before governance lets the write through
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type * as TypeScript from 'typescript';
+import type { Linter } from 'eslint';
+import { QualityDiagnostic, QualityGateSettings } from './types';
+import { resolveWorkspacePath, realpathExisting } from './pathResolver';
+import { importOptional } from './optionalModule';
+
+export const DEFAULT_QUALITY_GATE: QualityGateSettings = {
+  enabled: false,
+  typescript: true,
+  eslint: true,
+  onError: 'require_approval',
+  extensions: ['.ts', '.tsx'],
+  projectsRoot: './projects',
+  ignore: [],
+};
+
+/**
+ * Whether the gate applies to a file
+ */
+export function isGatedFile(filePath: string, settings: QualityGateSettings): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return settings.extensions.some(candidate => candidate.toLowerCase() === extension);
+}
+
+/**
+ * Diagnostics for proposed content at an intent path, as if it were already written.
+ * The compiler and linter are optional packages loaded on first use, so a disabled gate
+ * costs nothing and a production install can leave them out.
+ */
+export async function checkFileQuality(
+  filePath: string,
+  content: string,
+  settings: QualityGateSettings
+): Promise<QualityDiagnostic[]> {
+  const diskPath = await resolveWorkspacePath(filePath, settings.projectsRoot);
+  const projectDir = await projectDirectory(diskPath, settings.projectsRoot);
+
+  const diagnostics: QualityDiagnostic[] = [];
+  if (settings.typescript) {
+    diagnostics.push(...await typeCheck(filePath, diskPath, content, projectDir));
+  }
+  if (settings.eslint) {
+    diagnostics.push(...await lint(filePath, diskPath, content, projectDir));
+  }
+
+  const ignored = new Set(settings.ignore);
+  return diagnostics.filter(diagnostic => !ignored.has(diagnostic.code));
+}
+
+/**
+ * One line per diagnostic, e.g. `src/App.tsx:4:7 error TS2322: Type 'string' is not assignable...`
+ */
+export function formatDiagnostic(diagnostic: QualityDiagnostic): string {
+  return `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.code}: ${diagnostic.message}`;
+}
+
+/**
+ * The project a file belongs to: the first directory below the projects root
+ */
+async function projectDirectory(diskPath: string, projectsRoot: string): Promise<string> {
+  const root = await realpathExisting(path.resolve(projectsRoot));
+  const [project] = path.relative(root, diskPath).split(path.sep);
+  return project && project !== path.basename(diskPath) ? path.join(root, project) : root;
+}
+
+/**
+ * Nearest of the named files from a directory up to the project directory, never above it
+ */
+async function findUp(names: string[], fromDir: string, projectDir: string): Promise<string | null> {
+  let dir = fromDir;
+  while (true) {
+    for (const name of names) {
+      const candidate = path.join(dir, name);
+      try {
+        await fs.access(candidate);
+        return candidate;
+      } catch {
+        // Not here; keep looking
+      }
+    }
+    if (dir === projectDir || path.dirname(dir) === dir) {
+      return null;
+    }
+    dir = path.dirname(dir);
+  }
+}
+
+async function typeCheck(filePath: string, diskPath: string, content: string, projectDir: string): Promise<QualityDiagnostic[]> {
+  const ts = (await importOptional<{ default: typeof TypeScript }>('typescript', 'The quality gate type check')).default;
+
+  let options: TypeScript.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    strict: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+  };
+  let declarationFiles: string[] = [];
+
+  const configPath = await findUp(['tsconfig.json'], path.dirname(diskPath), projectDir);
+  if (configPath) {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      return [typescriptDiagnostic(ts, error, filePath)];
+    }
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+    options = parsed.options;
+    // Ambient declarations the file may rely on; everything else is reached through imports
+    declarationFiles = parsed.fileNames.filter(fileName => fileName.endsWith('.d.ts'));
+  }
+
+  // Serve the proposed content in place of whatever is on disk
+  const host = ts.createCompilerHost(options);
+  const target = path.resolve(diskPath);
+  const isTarget = (fileName: string) => path.resolve(fileName) === target;
+  const { getSourceFile, fileExists, readFile } = host;
+  host.getSourceFile = (fileName, languageVersion, ...rest) => isTarget(fileName)
+    ? ts.createSourceFile(fileName, content, languageVersion, true)
+    : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  host.fileExists = fileName => isTarget(fileName) || fileExists.call(host, fileName);
+  host.readFile = fileName => isTarget(fileName) ? content : readFile.call(host, fileName);
+
+  const program = ts.createProgram({ rootNames: [target, ...declarationFiles], options: { ...options, noEmit: true }, host });
+  const sourceFile = program.getSourceFile(target);
+  if (!sourceFile) {
+    return [];
+  }
+
+  return [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]
+    .map(diagnostic => typescriptDiagnostic(ts, diagnostic, filePath));
+}
+
+function typescriptDiagnostic(ts: typeof TypeScript, diagnostic: TypeScript.Diagnostic, filePath: string): QualityDiagnostic {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: 0, character: 0 };
+
+  return {
+    source: 'typescript',
+    severity: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    code: `TS${diagnostic.code}`,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, ' '),
+    file: filePath,
+    line: position.line + 1,
+    column: position.character + 1,
+  };
+}
+
+async function lint(filePath: string, diskPath: string, content: string, projectDir: string): Promise<QualityDiagnostic[]> {
+  const { ESLint } = await importOptional<typeof import('eslint')>('eslint', 'The quality gate linter');
+
+  // Only typescript-eslint's recommended rules: a project eslint.config.* is code, and the
+  // AI whose output is being checked can write that file too
+  const typescriptEslint = await importOptional<typeof import('typescript-eslint')>('typescript-eslint', 'The quality gate linter');
+  const recommended: Linter.Config[] = typescriptEslint.default.configs.recommended;
+  const eslint = new ESLint({ cwd: projectDir, overrideConfigFile: true, overrideConfig: recommended });
+
+  const [result] = await eslint.lintText(content, { filePath: diskPath, warnIgnored: false });
+  return (result?.messages || []).map(message => ({
+    source: 'eslint' as const,
+    severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+    code: message.ruleId || 'parse-error',
+    message: message.message,
+    file: filePath,
+    line: message.line || 1,
+    column: message.column || 1,
+  }));
+}
@@ -0,0 +1,146 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { QuotaTracker, describeQuota, validateQuotaSpec } from './quotaTracker';
+import { FileOperationIntent, GovernanceRule, QuotaSpec } from './types';
+
+const MINUTE = 60 * 1000;
+const T0 = Date.parse('2025-01-03T12:00:00Z');
+
+const dirs: string[] = [];
+
+after(async () => {
+  await Promise.all(dirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+});
+
+async function statePath(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'quota-'));
+  dirs.push(dir);
+  return path.join(dir, 'quota-state.json');
+}
+
+function quotaRule(quota: Partial<QuotaSpec>): GovernanceRule {
+  return {
+    id: 'writes',
+    name: 'Writes',
+    description: 'Writes',
+    intentTypes: ['file_operation'],
+    conditions: [],
+    action: 'quota',
+    quota: { scope: 'session', measure: 'count', limit: 2, onExceeded: 'deny', ...quota },
+  };
+}
+
+function write(target: FileOperationIntent['target']): FileOperationIntent {
+  return {
+    id: 'w',
+    type: 'file_operation',
+    timestamp: new Date(T0),
+    source: 'ai_chat',
+    priority: 'low',
+    operation: target.hunks ? 'patch' : 'create',
+    target,
+    validation: { fileType: 'ts' },
+  };
+}
+
+// Check the intent and consume its budget when it fits, as the bridge does before running it
+async function use(tracker: QuotaTracker, rule: GovernanceRule, now: number, intent = write({ path: '/projects/a.ts', content: '' })) {
+  const usage = tracker.check(rule, intent, { sessionId: 's1' }, now)!;
+  if (!usage.exceeded) {
+    await tracker.record([usage], now);
+  }
+  return usage;
+}
+
+describe('QuotaTracker', () => {
+  it('counts intents until the limit is reached', async () => {
+    const tracker = new QuotaTracker(await statePath());
+    await tracker.load();
+    const rule = quotaRule({});
+
+    assert.equal((await use(tracker, rule, T0)).exceeded, false);
+    assert.equal((await use(tracker, rule, T0)).exceeded, false);
+    assert.deepEqual(await use(tracker, rule, T0), {
+      ruleId: 'writes', key: 'writes:session:s1', used: 2, requested: 1, limit: 2, exceeded: true,
+    });
+  });
+
+  it('frees budget as usage leaves a rolling window', async () => {
+    const tracker = new QuotaTracker(await statePath());
+    await tracker.load();
+    const rule = quotaRule({ windowMs: MINUTE });
+
+    await use(tracker, rule, T0);
+    await use(tracker, rule, T0 + 30 * 1000);
+    assert.equal((await use(tracker, rule, T0 + 59 * 1000)).exceeded, true);
+    assert.equal(tracker.check(rule, write({ path: '/projects/a.ts' }), { sessionId: 's1' }, T0 + MINUTE)?.used, 1);
+  });
+
+  it('keeps separate budgets per scope and skips unknown scopes', async () => {
+    const tracker = new QuotaTracker(await statePath());
+    await tracker.load();
+    const rule = quotaRule({ scope: 'message', limit: 1 });
+    const intent = write({ path: '/projects/a.ts' });
+
+    await tracker.record([tracker.check(rule, intent, { changesetId: 'm1' }, T0)!], T0);
+    assert.equal(tracker.check(rule, intent, { changesetId: 'm1' }, T0)?.exceeded, true);
+    assert.equal(tracker.check(rule, intent, { changesetId: 'm2' }, T0)?.exceeded, false);
+    assert.equal(tracker.check(rule, intent, { sessionId: 's1' }, T0), null);
+  });
+
+  it('measures bytes of written content and of lines a patch adds', async () => {
+    const tracker = new QuotaTracker(await statePath());
+    await tracker.load();
+    const rule = quotaRule({ measure: 'bytes', limit: 1024 });
+    const scope = { sessionId: 's1' };
+
+    assert.equal(tracker.check(rule, write({ path: '/projects/a.ts', content: 'héllo' }), scope, T0)?.requested, 6);
+    const patch = write({ path: '/projects/a.ts', hunks: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 2, lines: [' keep', '-old', '+new', '+more'] }] });
+    assert.equal(tracker.check(rule, patch, scope, T0)?.requested, 'new\nmore\n'.length);
+  });
+
+  it('persists usage so budgets survive a restart', async () => {
+    const file = await statePath();
+    const rule = quotaRule({ windowMs: 24 * 60 * MINUTE });
+    const tracker = new QuotaTracker(file);
+    await tracker.load();
+    await use(tracker, rule, T0);
+    await use(tracker, rule, T0);
+
+    const restarted = new QuotaTracker(file);
+    await restarted.load();
+    assert.deepEqual(await restarted.getUsage(), { 'writes:session:s1': 2 });
+    assert.equal((await use(restarted, rule, T0 + MINUTE)).exceeded, true);
+  });
+
+  it('drops usage older than the lifetime retention when recording', async () => {
+    const tracker = new QuotaTracker(await statePath());
+    await tracker.load();
+    const rule = quotaRule({});
+    await use(tracker, rule, T0);
+    await use(tracker, quotaRule({ scope: 'global' }), T0 + 8 * 24 * 60 * MINUTE);
+    assert.deepEqual(await tracker.getUsage(), { 'writes:global:all': 1 });
+  });
+});
+
+describe('quota settings', () => {
+  it('validates quota rules', () => {
+    assert.deepEqual(validateQuotaSpec(quotaRule({ windowMs: MINUTE })), []);
+    assert.deepEqual(validateQuotaSpec(quotaRule({ scope: 'team' as any, limit: -1, windowMs: 0, onExceeded: 'allow' as any })), [
+      'Rule writes: quota scope must be one of session, message, user, global',
+      'Rule writes: quota limit must be a non-negative number',
+      'Rule writes: quota windowMs must be a positive number',
+      "Rule writes: quota onExceeded must be 'deny' or 'require_approval'",
+    ]);
+    assert.deepEqual(validateQuotaSpec({ ...quotaRule({}), action: 'deny' }), ["Rule writes: quota settings require action 'quota'"]);
+  });
+
+  it('describes limits with their window', () => {
+    assert.equal(describeQuota(quotaRule({ limit: 20, windowMs: MINUTE }).quota!), '20 intents per session per 1m');
+    assert.equal(describeQuota(quotaRule({ measure: 'bytes', scope: 'user', limit: 1000, windowMs: 24 * 60 * MINUTE }).quota!), '1000 bytes per user per 1d');
+    assert.equal(describeQuota(quotaRule({ scope: 'message' }).quota!), '2 intents per message');
+  });
+});
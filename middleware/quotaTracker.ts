@@ -0,0 +1,232 @@
+/**
+ * Quota Tracker - Agent Bridge Middleware v2.0
+ * Counts usage against quota rules and persists it so budgets survive restarts
+ */
+
+import { Intent, GovernanceRule, QuotaSpec, QuotaUsage } from './types';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Identifiers a quota can be scoped to
+export interface QuotaScope {
+  sessionId?: string;
+  changesetId?: string;
+  userId?: string;
+}
+
+interface UsageEntry {
+  at: number;
+  amount: number;
+}
+
+// Usage of quotas without a window is kept this long before it is dropped
+const LIFETIME_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const QUOTA_SCOPES: QuotaSpec['scope'][] = ['session', 'message', 'user', 'global'];
+const QUOTA_MEASURES: QuotaSpec['measure'][] = ['count', 'bytes'];
+
+/**
+ * Validate the quota settings of a rule
+ */
+export function validateQuotaSpec(rule: GovernanceRule): string[] {
+  if (rule.action !== 'quota') {
+    return rule.quota ? [`Rule ${rule.id}: quota settings require action 'quota'`] : [];
+  }
+
+  const quota = rule.quota;
+  if (!quota || typeof quota !== 'object') {
+    return [`Rule ${rule.id}: quota rules need quota settings`];
+  }
+
+  const errors: string[] = [];
+  if (!QUOTA_SCOPES.includes(quota.scope)) {
+    errors.push(`Rule ${rule.id}: quota scope must be one of ${QUOTA_SCOPES.join(', ')}`);
+  }
+  if (!QUOTA_MEASURES.includes(quota.measure)) {
+    errors.push(`Rule ${rule.id}: quota measure must be one of ${QUOTA_MEASURES.join(', ')}`);
+  }
+  if (typeof quota.limit !== 'number' || !(quota.limit >= 0)) {
+    errors.push(`Rule ${rule.id}: quota limit must be a non-negative number`);
+  }
+  if (quota.windowMs !== undefined && (typeof quota.windowMs !== 'number' || !(quota.windowMs > 0))) {
+    errors.push(`Rule ${rule.id}: quota windowMs must be a positive number`);
+  }
+  if (quota.onExceeded !== 'deny' && quota.onExceeded !== 'require_approval') {
+    errors.push(`Rule ${rule.id}: quota onExceeded must be 'deny' or 'require_approval'`);
+  }
+  return errors;
+}
+
+/**
+ * Describe a quota for messages, e.g. "20 intents per session per 1m"
+ */
+export function describeQuota(quota: QuotaSpec): string {
+  const unit = quota.measure === 'bytes' ? 'bytes' : 'intents';
+  const window = quota.windowMs ? ` per ${formatWindow(quota.windowMs)}` : '';
+  return `${quota.limit} ${unit} per ${quota.scope}${window}`;
+}
+
+function formatWindow(windowMs: number): string {
+  const units: Array<[number, string]> = [[86400000, 'd'], [3600000, 'h'], [60000, 'm'], [1000, 's']];
+  for (const [size, suffix] of units) {
+    if (windowMs % size === 0) {
+      return `${windowMs / size}${suffix}`;
+    }
+  }
+  return `${windowMs}ms`;
+}
+
+export class QuotaTracker {
+  private statePath: string;
+  private usage: Map<string, UsageEntry[]> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(statePath: string = './system/quota-state.json') {
+    this.statePath = statePath;
+  }
+
+  /**
+   * Load persisted usage on first use
+   */
+  public async load(): Promise<void> {
+    if (this.usage) {
+      return;
+    }
+
+    const usage = new Map<string, UsageEntry[]>();
+    try {
+      const content = await fs.readFile(this.statePath, 'utf-8');
+      const data = JSON.parse(content);
+      for (const [key, entries] of Object.entries(data.usage || {})) {
+        if (Array.isArray(entries)) {
+          usage.set(key, entries.filter((entry: any) => typeof entry?.at === 'number' && typeof entry?.amount === 'number'));
+        }
+      }
+    } catch (error) {
+      if ((error as any).code !== 'ENOENT') {
+        console.error('[QuotaTracker] Failed to load quota state:', error);
+      }
+    }
+
+    // Another caller may have finished loading while we were reading
+    if (!this.usage) {
+      this.usage = usage;
+    }
+  }
+
+  /**
+   * Check whether an intent fits the remaining budget of a quota rule.
+   * Returns null when the scope identifier is unknown, e.g. a message quota outside a chat message.
+   */
+  public check(rule: GovernanceRule, intent: Intent, scope: QuotaScope, now: number = Date.now()): QuotaUsage | null {
+    const quota = rule.quota!;
+    const key = this.scopeKey(rule, scope);
+    if (!key) {
+      return null;
+    }
+
+    const used = this.entriesInWindow(key, quota, now).reduce((sum, entry) => sum + entry.amount, 0);
+    const requested = this.measure(quota, intent);
+
+    return {
+      ruleId: rule.id,
+      key,
+      used,
+      requested,
+      limit: quota.limit,
+      exceeded: used + requested > quota.limit,
+    };
+  }
+
+  /**
+   * Consume budget for intents that are about to run
+   */
+  public async record(usages: QuotaUsage[], now: number = Date.now()): Promise<void> {
+    await this.load();
+    for (const usage of usages) {
+      const entries = this.usage!.get(usage.key) || [];
+      entries.push({ at: now, amount: usage.requested });
+      this.usage!.set(usage.key, entries);
+    }
+    this.prune(now);
+    await this.save();
+  }
+
+  /**
+   * Current usage per quota key
+   */
+  public async getUsage(): Promise<Record<string, number>> {
+    await this.load();
+    const totals: Record<string, number> = {};
+    this.usage!.forEach((entries, key) => {
+      totals[key] = entries.reduce((sum, entry) => sum + entry.amount, 0);
+    });
+    return totals;
+  }
+
+  private scopeKey(rule: GovernanceRule, scope: QuotaScope): string | null {
+    const quotaScope = rule.quota!.scope;
+    const id = {
+      session: scope.sessionId,
+      message: scope.changesetId,
+      user: scope.userId,
+      global: 'all',
+    }[quotaScope];
+
+    return id ? `${rule.id}:${quotaScope}:${id}` : null;
+  }
+
+  private entriesInWindow(key: string, quota: QuotaSpec, now: number): UsageEntry[] {
+    const entries = this.usage?.get(key) || [];
+    return quota.windowMs ? entries.filter(entry => entry.at > now - quota.windowMs!) : entries;
+  }
+
+  /**
+   * Amount an intent consumes: one per intent, or the bytes of file content it writes
+   */
+  private measure(quota: QuotaSpec, intent: Intent): number {
+    if (quota.measure === 'count') {
+      return 1;
+    }
+
+    const target = (intent as any).target || {};
+    if (typeof target.content === 'string') {
+      return Buffer.byteLength(target.content, 'utf8');
+    }
+    if (Array.isArray(target.hunks)) {
+      const added = target.hunks.flatMap((hunk: any) => hunk.lines || []).filter((line: string) => line.startsWith('+'));
+      return added.reduce((sum: number, line: string) => sum + Buffer.byteLength(line.slice(1) + '\n', 'utf8'), 0);
+    }
+    return 0;
+  }
+
+  /**
+   * Drop entries too old to count towards any window
+   */
+  private prune(now: number): void {
+    this.usage!.forEach((entries, key) => {
+      const kept = entries.filter(entry => entry.at > now - LIFETIME_RETENTION_MS);
+      if (kept.length > 0) {
+        this.usage!.set(key, kept);
+      } else {
+        this.usage!.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Write usage to disk, serialising concurrent writes
+   */
+  private async save(): Promise<void> {
+    const write = this.writeChain.then(async () => {
+      const usage = Object.fromEntries(this.usage || []);
+      await fs.mkdir(path.dirname(this.statePath), { recursive: true });
+      await fs.writeFile(this.statePath, JSON.stringify({ usage }, null, 2), 'utf-8');
+    });
+
+    this.writeChain = write.catch(error => {
+      console.error('[QuotaTracker] Failed to save quota state:', error);
+    });
+    await write;
+  }
+}
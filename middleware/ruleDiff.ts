@@ -0,0 +1,28 @@
+/**
+ * Rule Diff - Agent Bridge Middleware v2.0
+ * Compares two governance policies rule by rule
+ */
+
+import { GovernanceRule, GovernanceRuleDiff } from './types';
+
+/**
+ * Rules added, removed or changed between two rule sets, matched by id
+ */
+export function diffRules(previous: GovernanceRule[], next: GovernanceRule[]): Omit<GovernanceRuleDiff, 'settingsChanged'> {
+  const previousById = new Map(previous.map(rule => [rule.id, rule]));
+  const nextIds = new Set(next.map(rule => rule.id));
+
+  const added: string[] = [];
+  const changed: string[] = [];
+  for (const rule of next) {
+    const before = previousById.get(rule.id);
+    if (!before) {
+      added.push(rule.id);
+    } else if (JSON.stringify(before) !== JSON.stringify(rule)) {
+      changed.push(rule.id);
+    }
+  }
+
+  const removed = previous.filter(rule => !nextIds.has(rule.id)).map(rule => rule.id);
+  return { added, removed, changed };
+}
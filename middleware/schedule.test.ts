@@ -0,0 +1,125 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { scheduleMatches, validateSchedule } from './schedule';
+import { ChangeFreezeStore, freezeAppliesTo } from './changeFreeze';
+import { ChangeFreeze } from './types';
+
+// 2025-01-03 is a Friday
+const at = (stamp: string) => new Date(`${stamp}Z`);
+
+describe('scheduleMatches', () => {
+  const weekend = { weekly: [{ start: 'fri 16:00', end: 'mon 08:00' }] };
+
+  it('matches a weekly window that wraps past Saturday', () => {
+    assert.equal(scheduleMatches(weekend, at('2025-01-03T15:59')), false);
+    assert.equal(scheduleMatches(weekend, at('2025-01-03T16:00')), true);
+    assert.equal(scheduleMatches(weekend, at('2025-01-05T12:00')), true);
+    assert.equal(scheduleMatches(weekend, at('2025-01-06T07:59')), true);
+    assert.equal(scheduleMatches(weekend, at('2025-01-06T08:00')), false);
+    assert.equal(scheduleMatches(weekend, at('2025-01-08T12:00')), false);
+  });
+
+  it('reads weekly windows in the schedule time zone', () => {
+    const berlin = { ...weekend, timezone: 'Europe/Berlin' };
+    assert.equal(scheduleMatches(berlin, at('2025-01-03T15:00')), true);
+    assert.equal(scheduleMatches(berlin, at('2025-01-03T14:59')), false);
+  });
+
+  it('includes the whole day of a date-only until', () => {
+    const schedule = { from: '2025-01-02', until: '2025-01-03' };
+    assert.equal(scheduleMatches(schedule, at('2025-01-01T23:59')), false);
+    assert.equal(scheduleMatches(schedule, at('2025-01-02T00:00')), true);
+    assert.equal(scheduleMatches(schedule, at('2025-01-03T23:59')), true);
+    assert.equal(scheduleMatches(schedule, at('2025-01-04T00:00')), false);
+  });
+
+  it('ends a date-time until at that minute', () => {
+    assert.equal(scheduleMatches({ until: '2025-01-03T18:30' }, at('2025-01-03T18:29')), true);
+    assert.equal(scheduleMatches({ until: '2025-01-03T18:30' }, at('2025-01-03T18:30')), false);
+  });
+
+  it('matches cron expressions with ranges, steps and names', () => {
+    const workdayMornings = { cron: '*/15 9-11 * * mon-fri' };
+    assert.equal(scheduleMatches(workdayMornings, at('2025-01-03T09:45')), true);
+    assert.equal(scheduleMatches(workdayMornings, at('2025-01-03T09:50')), false);
+    assert.equal(scheduleMatches(workdayMornings, at('2025-01-04T09:45')), false);
+  });
+
+  it('matches either restricted day field, as cron does', () => {
+    const schedule = { cron: '0 12 1 * sun' };
+    assert.equal(scheduleMatches(schedule, at('2025-01-01T12:00')), true);
+    assert.equal(scheduleMatches(schedule, at('2025-01-05T12:00')), true);
+    assert.equal(scheduleMatches(schedule, at('2025-01-06T12:00')), false);
+  });
+
+  it('requires every part that is set', () => {
+    const schedule = { ...weekend, from: '2025-01-04' };
+    assert.equal(scheduleMatches(schedule, at('2025-01-03T17:00')), false);
+    assert.equal(scheduleMatches(schedule, at('2025-01-04T17:00')), true);
+  });
+});
+
+describe('validateSchedule', () => {
+  it('accepts a well-formed schedule', () => {
+    assert.deepEqual(validateSchedule({ timezone: 'Europe/Berlin', weekly: [{ start: 'fri 16:00', end: 'mon 08:00' }] }), []);
+  });
+
+  it('reports bad windows, cron fields, zones and ranges', () => {
+    assert.match(validateSchedule({ weekly: [{ start: 'friday 4pm', end: 'mon 08:00' }] }).join('\n'), /must look like 'fri 16:00'/);
+    assert.match(validateSchedule({ cron: '0 9 * *' }).join('\n'), /expected 5 fields, got 4/);
+    assert.match(validateSchedule({ cron: '0 9 , * *' }).join('\n'), /'' is outside 1-31/);
+    assert.match(validateSchedule({ cron: '0 9 * * fri-mon' }).join('\n'), /runs backwards/);
+    assert.match(validateSchedule({ cron: '* * * * *', timezone: 'Mars/Olympus' }).join('\n'), /not a known IANA time zone/);
+    assert.match(validateSchedule({ from: '2025-01-04', until: '2025-01-03' }).join('\n'), /from must be before until/);
+    assert.match(validateSchedule({}).join('\n'), /needs weekly windows/);
+  });
+});
+
+describe('ChangeFreezeStore', () => {
+  const freeze = (overrides: Partial<ChangeFreeze> = {}): ChangeFreeze => ({
+    reason: 'Release demo',
+    action: 'deny',
+    intentTypes: [],
+    declaredAt: '2025-01-03T09:00:00.000Z',
+    ...overrides,
+  });
+  const dirs: string[] = [];
+  const statePath = async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'change-freeze-'));
+    dirs.push(dir);
+    return path.join(dir, 'change-freeze.json');
+  };
+
+  after(async () => {
+    await Promise.all(dirs.map(dir => fs.rm(dir, { recursive: true, force: true })));
+  });
+
+  it('covers every intent type when none are listed', () => {
+    assert.equal(freezeAppliesTo(freeze(), 'terminal_command'), true);
+    assert.equal(freezeAppliesTo(freeze({ intentTypes: ['file_operation'] }), 'terminal_command'), false);
+  });
+
+  it('persists a declared freeze across restarts until it is lifted', async () => {
+    const file = await statePath();
+    await new ChangeFreezeStore(file).declare(freeze());
+
+    const restarted = new ChangeFreezeStore(file);
+    await restarted.load();
+    assert.equal(restarted.get()?.reason, 'Release demo');
+
+    assert.equal((await restarted.lift())?.reason, 'Release demo');
+    const afterLift = new ChangeFreezeStore(file);
+    await afterLift.load();
+    assert.equal(afterLift.get(), null);
+  });
+
+  it('lifts itself once its until has passed', async () => {
+    const store = new ChangeFreezeStore(await statePath());
+    await store.declare(freeze({ until: '2025-01-06T08:00:00.000Z' }));
+    assert.ok(store.get(at('2025-01-06T07:59')));
+    assert.equal(store.get(at('2025-01-06T08:00')), null);
+  });
+});
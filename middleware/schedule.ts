@@ -0,0 +1,257 @@
+/**
+ * Schedule - Agent Bridge Middleware v2.0
+ * Wall-clock conditions for governance rules: weekly windows, cron expressions and
+ * date ranges, evaluated in a configurable time zone
+ */
+
+import { ScheduleSpec } from './types';
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MINUTES_PER_WEEK = 7 * 24 * 60;
+
+// "fri 16:00"
+const WEEKLY_POINT = /^(sun|mon|tue|wed|thu|fri|sat)\s+([01]?\d|2[0-3]):([0-5]\d)$/i;
+// "2025-12-24" or "2025-12-24T18:30"
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+interface ZonedTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+// minute, hour, day of month, month, day of week
+type CronFields = [CronField, CronField, CronField, CronField, CronField];
+
+/**
+ * Whether a moment falls inside the schedule. Every part that is set must match: the
+ * date range, one of the weekly windows and the cron expression.
+ */
+export function scheduleMatches(schedule: ScheduleSpec, now: Date = new Date()): boolean {
+  const time = zonedTime(now, schedule.timezone || 'UTC');
+
+  if (schedule.from || schedule.until) {
+    const stamp = localStamp(time);
+    if (schedule.from && stamp < normalizeLocal(schedule.from)) {
+      return false;
+    }
+    if (schedule.until && stamp >= untilBound(schedule.until)) {
+      return false;
+    }
+  }
+
+  if (schedule.weekly && !schedule.weekly.some(window => inWeeklyWindow(window, time))) {
+    return false;
+  }
+
+  if (schedule.cron && !cronMatches(parseCron(schedule.cron), time)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Problems with a schedule, for rule validation
+ */
+export function validateSchedule(schedule: ScheduleSpec): string[] {
+  if (!schedule || typeof schedule !== 'object') {
+    return ['schedule must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (!schedule.weekly && !schedule.cron && !schedule.from && !schedule.until) {
+    errors.push('schedule needs weekly windows, a cron expression or a from/until date');
+  }
+
+  if (schedule.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+    } catch {
+      errors.push(`schedule timezone '${schedule.timezone}' is not a known IANA time zone`);
+    }
+  }
+
+  if (schedule.weekly !== undefined) {
+    if (!Array.isArray(schedule.weekly) || schedule.weekly.length === 0) {
+      errors.push('schedule weekly must be a non-empty array of windows');
+    } else {
+      schedule.weekly.forEach((window, index) => {
+        for (const point of [window?.start, window?.end]) {
+          if (typeof point !== 'string' || !WEEKLY_POINT.test(point.trim())) {
+            errors.push(`schedule weekly[${index}]: '${point}' must look like 'fri 16:00'`);
+          }
+        }
+      });
+    }
+  }
+
+  if (schedule.cron !== undefined) {
+    try {
+      parseCron(schedule.cron);
+    } catch (error) {
+      errors.push(`schedule cron: ${(error as Error).message}`);
+    }
+  }
+
+  for (const key of ['from', 'until'] as const) {
+    const value = schedule[key];
+    if (value !== undefined && (typeof value !== 'string' || !LOCAL_DATE_TIME.test(value))) {
+      errors.push(
+        `schedule ${key} must be a local date or date-time like 2025-12-24 or 2025-12-24T18:30; a date-only until includes that whole day`
+      );
+    }
+  }
+  if (schedule.from && schedule.until && normalizeLocal(schedule.from) >= untilBound(schedule.until)) {
+    errors.push('schedule from must be before until');
+  }
+
+  return errors;
+}
+
+/**
+ * Calendar fields of a moment in a time zone
+ */
+function zonedTime(now: Date, timeZone: string): ZonedTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(now);
+  const part = (type: string) => parts.find(item => item.type === type)?.value || '';
+
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    weekday: WEEKDAYS.indexOf(part('weekday').toLowerCase().slice(0, 3)),
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+  };
+}
+
+function localStamp(time: ZonedTime): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${time.year}-${pad(time.month)}-${pad(time.day)}T${pad(time.hour)}:${pad(time.minute)}`;
+}
+
+function normalizeLocal(value: string): string {
+  return value.includes('T') ? value : `${value}T00:00`;
+}
+
+/**
+ * Exclusive end of a range: a date-time ends at that minute, a date-only until at the end of
+ * that day. `T24:00` sorts after every minute of the day and before the next day's stamps.
+ */
+function untilBound(value: string): string {
+  return value.includes('T') ? value : `${value}T24:00`;
+}
+
+function weeklyMinute(point: string): number {
+  const match = WEEKLY_POINT.exec(point.trim());
+  if (!match) {
+    throw new Error(`invalid weekly window point '${point}'`);
+  }
+  const [, day = '', hour = '', minute = ''] = match;
+  return WEEKDAYS.indexOf(day.toLowerCase()) * 1440 + Number(hour) * 60 + Number(minute);
+}
+
+/**
+ * Start inclusive, end exclusive; windows may wrap past Saturday into the next week
+ */
+function inWeeklyWindow(window: { start: string; end: string }, time: ZonedTime): boolean {
+  const minute = (time.weekday * 1440 + time.hour * 60 + time.minute) % MINUTES_PER_WEEK;
+  const start = weeklyMinute(window.start);
+  const end = weeklyMinute(window.end);
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+/**
+ * Parse a five-field cron expression: minute hour day-of-month month day-of-week.
+ * Supports `*`, lists, ranges, steps and month/weekday names.
+ */
+function parseCron(expression: string): CronFields {
+  const fields = String(expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`expected 5 fields, got ${fields.length}`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+  return [
+    parseCronField(minute, 0, 59),
+    parseCronField(hour, 0, 23),
+    parseCronField(dayOfMonth, 1, 31),
+    parseCronField(month, 1, 12, MONTHS, 1),
+    parseCronField(dayOfWeek, 0, 7, WEEKDAYS, 0),
+  ];
+}
+
+function parseCronField(field: string, min: number, max: number, names?: string[], nameOffset: number = 0): CronField {
+  const values = new Set<number>();
+  const toNumber = (token: string) => {
+    const named = names?.indexOf(token.toLowerCase()) ?? -1;
+    const value = named >= 0 ? named + nameOffset : /^\d+$/.test(token) ? Number(token) : NaN;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`'${token}' is outside ${min}-${max}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step in '${part}'`);
+    }
+
+    let from = min;
+    let to = max;
+    if (range !== '*') {
+      const [start = '', end] = range.split('-');
+      from = toNumber(start);
+      to = end === undefined ? (stepText === undefined ? from : max) : toNumber(end);
+      if (from > to) {
+        throw new Error(`range '${range}' runs backwards`);
+      }
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  // Sunday may be written as 0 or 7
+  if (max === 7 && values.has(7)) {
+    values.add(0);
+  }
+  return { values, wildcard: field === '*' };
+}
+
+/**
+ * Standard cron day matching: when both day fields are restricted, either may match
+ */
+function cronMatches([minute, hour, dayOfMonth, month, dayOfWeek]: CronFields, time: ZonedTime): boolean {
+  if (!minute.values.has(time.minute) || !hour.values.has(time.hour) || !month.values.has(time.month)) {
+    return false;
+  }
+
+  const domMatches = dayOfMonth.values.has(time.day);
+  const dowMatches = dayOfWeek.values.has(time.weekday);
+  if (dayOfMonth.wildcard || dayOfWeek.wildcard) {
+    return domMatches && dowMatches;
+  }
+  return domMatches || dowMatches;
+}
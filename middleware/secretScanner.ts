@@ -0,0 +1,206 @@
+/**
+ * Secret Scanner - Agent Bridge Middleware v2.0
+ * Finds credentials in AI-written file content and terminal commands
+ */
+
+import { Intent, SecretFinding, SecretScanningSettings } from './types';
+
+interface SecretPattern {
+  kind: string;
+  pattern: RegExp;
+  group?: number; // Capture group holding the secret; defaults to the whole match
+}
+
+interface SecretMatch {
+  kind: string;
+  start: number;
+  end: number;
+  value: string;
+}
+
+// Known credential formats
+const SECRET_PATTERNS: SecretPattern[] = [
+  { kind: 'private_key', pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g },
+  { kind: 'anthropic_api_key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { kind: 'github_token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { kind: 'aws_access_key_id', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    kind: 'aws_secret_access_key',
+    pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    group: 1,
+  },
+];
+
+// Environment variables whose values must never be written out
+const SECRET_ENV_NAME = /(KEY|TOKEN|SECRET|PASSWORD|CREDENTIAL)/i;
+const MIN_ENV_SECRET_LENGTH = 12;
+
+const ENTROPY_CANDIDATE = /[A-Za-z0-9+/=_-]+/g;
+
+export const DEFAULT_SECRET_SCANNING: SecretScanningSettings = {
+  enabled: true,
+  action: 'redact',
+  entropyThreshold: 4.0,
+  minEntropyLength: 24,
+  allowlist: ['^sha(1|256|384|512)-'],
+};
+
+/**
+ * Find secrets in a piece of text; overlapping matches are reported once
+ */
+export function scanText(text: string, settings: SecretScanningSettings): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  const allowlist = settings.allowlist.map(pattern => new RegExp(pattern));
+  const overlaps = (start: number, end: number) => matches.some(match => start < match.end && end > match.start);
+  const add = (kind: string, start: number, value: string) => {
+    const end = start + value.length;
+    if (value && !overlaps(start, end) && !allowlist.some(pattern => pattern.test(value))) {
+      matches.push({ kind, start, end, value });
+    }
+  };
+
+  for (const { kind, pattern, group } of SECRET_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const value = group ? match[group] : match[0];
+      if (value === undefined) {
+        continue;
+      }
+      const start = match.index! + (group ? match[0].indexOf(value) : 0);
+      add(kind, start, value);
+    }
+  }
+
+  for (const [name, value] of Object.entries(process.env)) {
+    if (!value || value.length < MIN_ENV_SECRET_LENGTH || !SECRET_ENV_NAME.test(name)) {
+      continue;
+    }
+    let index = text.indexOf(value);
+    while (index !== -1) {
+      add(`environment_secret:${name}`, index, value);
+      index = text.indexOf(value, index + value.length);
+    }
+  }
+
+  for (const match of Array.from(text.matchAll(ENTROPY_CANDIDATE))) {
+    const token = match[0];
+    if (
+      token.length >= settings.minEntropyLength &&
+      /[0-9]/.test(token) &&
+      /[A-Za-z]/.test(token) &&
+      shannonEntropy(token) >= settings.entropyThreshold
+    ) {
+      add('high_entropy_string', match.index!, token);
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Replace every secret in the text with a placeholder naming its kind
+ */
+export function redactSecrets(text: string, settings: SecretScanningSettings): string {
+  let redacted = '';
+  let position = 0;
+  for (const match of scanText(text, settings)) {
+    redacted += text.slice(position, match.start) + `[REDACTED:${match.kind}]`;
+    position = match.end;
+  }
+  return redacted + text.slice(position);
+}
+
+/**
+ * Redact lines as one text so a secret spanning several lines, such as a private key, is
+ * removed whole. The placeholder takes its first line and the lines it continues onto are
+ * left empty, so the number of lines does not change.
+ */
+function redactLines(lines: string[], settings: SecretScanningSettings): string[] {
+  const text = lines.join('\n');
+  let redacted = '';
+  let position = 0;
+  for (const match of scanText(text, settings)) {
+    redacted += text.slice(position, match.start) + `[REDACTED:${match.kind}]` + '\n'.repeat(match.value.split('\n').length - 1);
+    position = match.end;
+  }
+  return (redacted + text.slice(position)).split('\n');
+}
+
+/**
+ * Scan the content an intent writes or runs. Returns masked findings and, for the
+ * redact action, the modifications that replace each scanned field with its redacted form.
+ */
+export function scanIntent(
+  intent: Intent,
+  settings: SecretScanningSettings
+): { findings: SecretFinding[]; redactions: Record<string, any> } {
+  const findings: SecretFinding[] = [];
+  const redactions: Record<string, any> = {};
+  const intentAny = intent as any;
+
+  const scanField = (field: string, text: string, lineOffset: number = 0) => {
+    const matches = scanText(text, settings);
+    for (const match of matches) {
+      findings.push({
+        kind: match.kind,
+        field,
+        line: lineOffset + text.slice(0, match.start).split('\n').length,
+        masked: maskSecret(match.value),
+      });
+    }
+    return matches.length > 0;
+  };
+
+  if (typeof intentAny.target?.content === 'string' && scanField('target.content', intentAny.target.content)) {
+    redactions['target.content'] = redactSecrets(intentAny.target.content, settings);
+  }
+
+  if (typeof intentAny.command === 'string' && scanField('command', intentAny.command)) {
+    redactions['command'] = redactSecrets(intentAny.command, settings);
+  }
+
+  if (Array.isArray(intentAny.target?.hunks)) {
+    let found = false;
+    intentAny.target.hunks.forEach((hunk: any, index: number) => {
+      const added = (hunk.lines || []).filter((line: string) => line.startsWith('+')).map((line: string) => line.slice(1));
+      found = scanField(`target.hunks[${index}]`, added.join('\n'), (hunk.newStart || 1) - 1) || found;
+    });
+    if (found) {
+      redactions['target.hunks'] = intentAny.target.hunks.map((hunk: any) => {
+        const lines: string[] = hunk.lines || [];
+        const added = redactLines(lines.filter(line => line.startsWith('+')).map(line => line.slice(1)), settings);
+        let next = 0;
+        return { ...hunk, lines: lines.map(line => line.startsWith('+') ? `+${added[next++]}` : line) };
+      });
+    }
+  }
+
+  return { findings, redactions };
+}
+
+/**
+ * Keep enough of a secret to recognise it in an audit trail
+ */
+export function maskSecret(value: string): string {
+  const [firstLine = ''] = value.split('\n');
+  if (firstLine.length <= 8) {
+    return '*'.repeat(Math.max(firstLine.length, 4));
+  }
+  return `${firstLine.slice(0, 4)}${'*'.repeat(Math.min(firstLine.length - 4, 12))} (${value.length} chars)`;
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  counts.forEach(count => {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  });
+  return entropy;
+}
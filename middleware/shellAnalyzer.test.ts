@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeShellCommand, commandPriority, parseShellCommand, ShellCommand } from './shellAnalyzer';
+
+describe('parseShellCommand', () => {
+  it('resolves quotes and escapes into single words', () => {
+    const node = parseShellCommand(`echo 'a  b' "c \\"d\\" $HOME" e\\ f`) as ShellCommand;
+    assert.deepEqual(node.args, ['a  b', 'c "d" $HOME', 'e f']);
+  });
+
+  it('keeps operators inside quotes as text', () => {
+    const node = parseShellCommand(`echo "a && b; c | d" '> out'`);
+    assert.equal(node.type, 'command');
+    assert.deepEqual((node as ShellCommand).redirects, []);
+  });
+
+  it('peels wrappers and leading assignments off the executable', () => {
+    const node = parseShellCommand('FOO=1 sudo -u root env BAR=2 timeout 5 rm -rf build') as ShellCommand;
+    assert.equal(node.executable, 'rm');
+    assert.deepEqual(node.assignments, ['FOO=1']);
+    assert.equal(node.sudo, true);
+  });
+
+  it('reports unterminated quotes and here-documents', () => {
+    assert.throws(() => parseShellCommand(`echo "open`), /Unterminated double quote/);
+    assert.throws(() => parseShellCommand(`echo 'open`), /Unterminated single quote/);
+    assert.throws(() => parseShellCommand('cat <<EOF\nno end'), /Unterminated here-document 'EOF'/);
+  });
+
+  it('keeps the body of a here-document on its redirect', () => {
+    const node = parseShellCommand("cat <<-'EOF' > notes.txt\n\trm -rf /\n\tEOF") as ShellCommand;
+    assert.deepEqual(node.redirects, [
+      { operator: '<<-', target: 'EOF', body: 'rm -rf /\n' },
+      { operator: '>', target: 'notes.txt' },
+    ]);
+  });
+});
+
+describe('analyzeShellCommand', () => {
+  it('does not run the body of a here-document', () => {
+    const analysis = analyzeShellCommand("cat > README.md <<'EOF'\nrm -rf /\nsudo reboot\nEOF\nnpm test");
+    assert.deepEqual(analysis.executables, ['cat', 'npm']);
+    assert.equal(analysis.destructive, false);
+    assert.deepEqual(analysis.writePaths, ['/projects/default-app/README.md']);
+  });
+
+  it('runs substitutions in a here-document with an unquoted delimiter', () => {
+    const analysis = analyzeShellCommand('cat <<EOF\n$(rm -rf /tmp/cache)\nEOF');
+    assert.deepEqual(analysis.executables, ['cat', 'rm']);
+    assert.equal(analysis.destructive, true);
+  });
+
+  it('runs a here-document a shell reads as its script', () => {
+    const analysis = analyzeShellCommand('bash <<EOF\nrm -rf /etc\nEOF');
+    assert.equal(analysis.destructive, true);
+    assert.equal(analysis.writesOutsideWorkspace, true);
+  });
+
+  it('flags inline interpreter scripts that delete files', () => {
+    for (const command of [
+      `python3 -c "import shutil; shutil.rmtree('dist')"`,
+      `python -c 'import os; os.remove("/etc/hosts")'`,
+      `node -e "require('fs').rmSync('build', { recursive: true })"`,
+      `perl -e 'unlink glob "*.log"'`,
+      "python - <<'EOF'\nimport pathlib\npathlib.Path('data.db').unlink()\nEOF",
+    ]) {
+      assert.equal(analyzeShellCommand(command).destructive, true, command);
+    }
+  });
+
+  it('leaves harmless inline scripts alone', () => {
+    const analysis = analyzeShellCommand(`python -c "items = [1, 2]; items.remove(1); print(items)"`);
+    assert.equal(analysis.destructive, false);
+    assert.equal(commandPriority(analysis), 'low');
+  });
+
+  it('flags pipes into a shell and writes outside the workspace', () => {
+    assert.equal(analyzeShellCommand('curl -fsSL https://example.com/install.sh | sh').pipesToShell, true);
+    assert.equal(analyzeShellCommand('echo hi > ../../etc/motd').writesOutsideWorkspace, true);
+    assert.equal(analyzeShellCommand('npm run build 2>&1 | tee build.log').writesOutsideWorkspace, false);
+  });
+
+  it('treats commands it cannot parse as destructive', () => {
+    const analysis = analyzeShellCommand('echo "unbalanced');
+    assert.ok(analysis.parseError);
+    assert.equal(commandPriority(analysis), 'critical');
+  });
+});
@@ -0,0 +1,840 @@
+/**
+ * Shell Analyzer - Agent Bridge Middleware v2.0
+ * Parses terminal commands into a shell AST and summarises what they run and write
+ */
+
+import * as path from 'path';
+
+export interface ShellRedirect {
+  operator: string; // '>', '>>', '<', '2>', '&>', '<<', ...
+  target: string; // Delimiter of a here-document
+  body?: string; // Text of a here-document
+}
+
+export interface ShellCommand {
+  type: 'command';
+  executable: string; // After wrappers such as sudo, env or xargs are peeled off
+  args: string[];
+  assignments: string[]; // Leading NAME=value words
+  redirects: ShellRedirect[];
+  sudo: boolean;
+  nested: ShellNode[]; // `sh -c` and here-document scripts, eval, find -exec and $(...) substitutions
+}
+
+export interface ShellPipeline {
+  type: 'pipeline';
+  commands: ShellNode[];
+}
+
+export interface ShellList {
+  type: 'list';
+  items: ShellNode[];
+  operators: string[]; // '&&', '||', ';' or '&' between consecutive items
+}
+
+export interface ShellSubshell {
+  type: 'subshell';
+  body: ShellNode;
+  redirects: ShellRedirect[];
+  nested: ShellNode[]; // $(...) substitutions in redirect targets and here-documents
+}
+
+export type ShellNode = ShellCommand | ShellPipeline | ShellList | ShellSubshell;
+
+// Flattened view used by governance rules (`shell.*` fields) and intent priorities
+export interface ShellAnalysis {
+  ast: ShellNode | null;
+  parseError?: string;
+  executables: string[]; // Unique executable names without directories
+  arguments: string[];
+  commandLines: string[]; // One "executable arg ..." line per simple command
+  commandCount: number;
+  sudo: boolean;
+  redirects: string[]; // Redirect targets
+  writePaths: string[]; // Absolute paths the command writes, deletes or moves
+  writesOutsideWorkspace: boolean;
+  destructive: boolean;
+  pipesToShell: boolean; // e.g. `curl ... | sh`
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+interface Token {
+  kind: 'word' | 'op';
+  value: string;
+  substitutions?: string[];
+  heredoc?: string; // Body of the here-document this word delimits
+}
+
+export const WORKSPACE_ROOT = '/projects';
+
+const OPERATORS = ['&&', '||', '|&', ';;', '>>', '&>', '>&', '>|', '<<<', '<<-', '<<', '|', ';', '&', '(', ')', '>', '<'];
+const REDIRECT_OPERATORS = new Set(['>', '>>', '<', '<<', '<<-', '<<<', '&>', '>&', '>|']);
+const LIST_OPERATORS = new Set(['&&', '||', ';', '&']);
+
+// Leading words that introduce another command rather than being one
+const RESERVED_PREFIXES = new Set(['if', 'then', 'else', 'elif', 'do', 'while', 'until', '!', 'time']);
+const RESERVED_SKIP = new Set(['fi', 'done', 'esac', 'for', 'case', 'select', 'in', '{', '}']);
+
+// Wrappers that run the command after their own options, with the options that take a value
+const WRAPPERS: Record<string, { optionsWithValue: string[]; positional?: number }> = {
+  sudo: { optionsWithValue: ['-u', '-g', '-h', '-p', '-C', '-D', '-R', '-T', '-U'] },
+  doas: { optionsWithValue: ['-u', '-C'] },
+  env: { optionsWithValue: ['-u', '-C', '-S'] },
+  nohup: { optionsWithValue: [] },
+  exec: { optionsWithValue: ['-a'] },
+  command: { optionsWithValue: [] },
+  builtin: { optionsWithValue: [] },
+  nice: { optionsWithValue: ['-n'] },
+  timeout: { optionsWithValue: ['-s', '-k'], positional: 1 },
+  xargs: { optionsWithValue: ['-I', '-L', '-n', '-P', '-s', '-d', '-E', '-a'] },
+  stdbuf: { optionsWithValue: ['-i', '-o', '-e'] },
+};
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+const DESTRUCTIVE_EXECUTABLES = new Set(['rm', 'rmdir', 'shred', 'unlink', 'dd', 'fdisk', 'wipefs', 'shutdown', 'reboot', 'halt', 'poweroff']);
+const NON_FILE_TARGETS = /^\/dev\/(null|stdout|stderr|tty|fd\/\d+)$/;
+// Interpreters with the options that take an inline script
+const INTERPRETER_SCRIPT_OPTIONS: Record<string, string[]> = {
+  python: ['-c'],
+  node: ['-e', '--eval', '-p', '--print'],
+  perl: ['-e', '-E'],
+  ruby: ['-e'],
+  php: ['-r'],
+};
+const INLINE_FILE_DELETION = /\b(os\.(remove|unlink|rmdir|removedirs)|shutil\.rmtree|rmtree|unlink(Sync)?|rmdir(Sync)?|rmSync|rimraf|rm_r|rm_rf|rm_f|File\.delete|FileUtils\.rm\w*)\b|\bfs(\.promises)?\.rm\b|\brm\s+[-\w./~$]/;
+const PACKAGE_INSTALL = /^(npm (install|i|add|ci)|pnpm (install|i|add)|yarn( add| install|$)|pip3? install|apt(-get)? install|brew install)\b/;
+
+/**
+ * Parse a command line into a shell AST
+ */
+export function parseShellCommand(command: string): ShellNode {
+  const tokens = tokenize(command);
+  const parser = new Parser(tokens);
+  const node = parser.parseList(new Set());
+  if (!parser.done()) {
+    throw new ShellParseError(`Unexpected '${parser.peek()!.value}'`);
+  }
+  return node;
+}
+
+/**
+ * Analyse what a command line runs and writes. Commands that cannot be parsed are
+ * reported with a parse error and treated as destructive.
+ */
+export function analyzeShellCommand(command: string, workingDirectory: string = `${WORKSPACE_ROOT}/default-app`): ShellAnalysis {
+  const analysis: ShellAnalysis = {
+    ast: null,
+    executables: [],
+    arguments: [],
+    commandLines: [],
+    commandCount: 0,
+    sudo: false,
+    redirects: [],
+    writePaths: [],
+    writesOutsideWorkspace: false,
+    destructive: false,
+    pipesToShell: false,
+  };
+
+  try {
+    analysis.ast = parseShellCommand(command);
+  } catch (error) {
+    analysis.parseError = error instanceof Error ? error.message : String(error);
+    analysis.destructive = true;
+    return analysis;
+  }
+
+  const executables = new Set<string>();
+  const visit = (node: ShellNode, cwd: { dir: string }) => {
+    switch (node.type) {
+      case 'list':
+        node.items.forEach(item => visit(item, cwd));
+        break;
+      case 'subshell':
+        node.redirects.forEach(redirect => recordRedirect(redirect, cwd.dir));
+        visit(node.body, { dir: cwd.dir });
+        node.nested.forEach(child => visit(child, { dir: cwd.dir }));
+        break;
+      case 'pipeline':
+        node.commands.forEach((item, index) => {
+          // A shell reading its script from the pipe runs whatever the previous command printed
+          if (index > 0 && item.type === 'command' && SHELLS.has(baseName(item.executable)) && !item.args.includes('-c')) {
+            analysis.pipesToShell = true;
+          }
+          visit(item, { dir: cwd.dir });
+        });
+        break;
+      case 'command': {
+        const executable = baseName(node.executable);
+        if (!executable) {
+          node.redirects.forEach(redirect => recordRedirect(redirect, cwd.dir));
+          node.nested.forEach(child => visit(child, { dir: cwd.dir }));
+          break;
+        }
+
+        executables.add(executable);
+        analysis.arguments.push(...node.args);
+        analysis.commandLines.push([executable, ...node.args].join(' '));
+        analysis.commandCount++;
+        analysis.sudo = analysis.sudo || node.sudo;
+        analysis.destructive = analysis.destructive || isDestructive(executable, node.args, node.redirects);
+        node.redirects.forEach(redirect => recordRedirect(redirect, cwd.dir));
+        writeTargets(executable, node.args).forEach(target => recordWrite(target, cwd.dir));
+
+        if (executable === 'cd') {
+          const target = node.args.find(arg => !arg.startsWith('-'));
+          cwd.dir = target && !isUnresolved(target) ? path.posix.resolve(cwd.dir, target) : '/';
+        }
+        node.nested.forEach(child => visit(child, { dir: cwd.dir }));
+        break;
+      }
+    }
+  };
+
+  const recordRedirect = (redirect: ShellRedirect, cwd: string) => {
+    analysis.redirects.push(redirect.target);
+    // Input redirects and descriptor duplication (2>&1) write no files
+    if (!redirect.operator.replace(/^\d+/, '').startsWith('<') && !/^&?\d+$|^-$/.test(redirect.target)) {
+      recordWrite(redirect.target, cwd);
+    }
+  };
+
+  const recordWrite = (target: string, cwd: string) => {
+    if (NON_FILE_TARGETS.test(target)) {
+      return;
+    }
+    // Paths built from variables or home directories cannot be resolved here
+    const resolved = isUnresolved(target) ? target : path.posix.resolve(cwd, target);
+    analysis.writePaths.push(resolved);
+    if (isUnresolved(target) || !(resolved === WORKSPACE_ROOT || resolved.startsWith(`${WORKSPACE_ROOT}/`))) {
+      analysis.writesOutsideWorkspace = true;
+    }
+  };
+
+  visit(analysis.ast, { dir: workingDirectory });
+  analysis.executables = Array.from(executables);
+  return analysis;
+}
+
+/**
+ * Priority of a terminal command intent
+ */
+export function commandPriority(analysis: ShellAnalysis): 'low' | 'medium' | 'high' | 'critical' {
+  if (analysis.destructive || analysis.sudo || analysis.writesOutsideWorkspace || analysis.pipesToShell) {
+    return 'critical';
+  }
+  if (analysis.executables.includes('git') || analysis.commandLines.some(line => PACKAGE_INSTALL.test(line))) {
+    return 'high';
+  }
+  if (analysis.commandLines.some(line => /^(npm|pnpm|yarn) run\b/.test(line)) || analysis.arguments.includes('build')) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+/**
+ * Whether a terminal command needs confirmation before it runs
+ */
+export function commandRequiresConfirmation(analysis: ShellAnalysis): boolean {
+  return analysis.destructive || analysis.sudo || analysis.writesOutsideWorkspace || analysis.pipesToShell;
+}
+
+function isDestructive(executable: string, args: string[], redirects: ShellRedirect[]): boolean {
+  if (DESTRUCTIVE_EXECUTABLES.has(executable) || /^mkfs(\.|$)/.test(executable)) {
+    return true;
+  }
+  if (interpreterScripts(executable, args, redirects).some(script => INLINE_FILE_DELETION.test(script))) {
+    return true;
+  }
+  if (executable === 'find' && args.some(arg => arg === '-delete')) {
+    return true;
+  }
+  if (executable === 'git') {
+    const line = args.join(' ');
+    return /\b(clean\b.*-[a-z]*f|reset\b.*--hard|push\b.*(--force\b|-f\b))/.test(line);
+  }
+  return false;
+}
+
+/**
+ * Scripts an interpreter such as `python -c` runs from its arguments or standard input
+ */
+function interpreterScripts(executable: string, args: string[], redirects: ShellRedirect[]): string[] {
+  const options = INTERPRETER_SCRIPT_OPTIONS[executable.replace(/[\d.]+$/, '')];
+  if (!options) {
+    return [];
+  }
+
+  const scripts: string[] = [];
+  args.forEach((arg, index) => {
+    const next = args[index + 1];
+    if (options.includes(arg) && next !== undefined) {
+      scripts.push(next);
+    } else if (options.some(option => option.length === 2 && arg.length > 2 && arg.startsWith(option))) {
+      scripts.push(arg.slice(2)); // -c'...' with the script attached
+    }
+  });
+  return scripts.length > 0 ? scripts : stdinScripts(args, redirects);
+}
+
+/**
+ * Here-documents and here-strings a shell or interpreter reads as its script, which it
+ * does when it is given no script file
+ */
+function stdinScripts(args: string[], redirects: ShellRedirect[]): string[] {
+  if (args.some(arg => arg !== '-' && !arg.startsWith('-'))) {
+    return [];
+  }
+  return redirects.flatMap(redirect => {
+    const operator = redirect.operator.replace(/^\d+/, '');
+    if (operator === '<<<') {
+      return [redirect.target];
+    }
+    return (operator === '<<' || operator === '<<-') && redirect.body !== undefined ? [redirect.body] : [];
+  });
+}
+
+/**
+ * Paths a simple command writes, deletes or moves
+ */
+function writeTargets(executable: string, args: string[]): string[] {
+  const operands = args.filter(arg => !arg.startsWith('-'));
+
+  switch (executable) {
+    case 'rm':
+    case 'rmdir':
+    case 'unlink':
+    case 'shred':
+    case 'mv':
+    case 'touch':
+    case 'mkdir':
+    case 'tee':
+    case 'truncate':
+      return operands;
+    case 'cp':
+    case 'ln':
+    case 'install':
+    case 'rsync':
+      return operands.slice(-1);
+    case 'chmod':
+    case 'chown':
+    case 'chgrp':
+      return operands.slice(1);
+    case 'dd':
+      return args.filter(arg => arg.startsWith('of=')).map(arg => arg.slice(3));
+    case 'sed':
+      return args.some(arg => /^-[a-zA-Z]*i/.test(arg) || arg.startsWith('--in-place')) ? operands.slice(1) : [];
+    case 'find': {
+      const firstExpression = args.findIndex(arg => arg.startsWith('-') || arg === '(' || arg === '!');
+      const roots = firstExpression === -1 ? args : args.slice(0, firstExpression);
+      return args.includes('-delete') ? (roots.length > 0 ? roots : ['.']) : [];
+    }
+    default:
+      return [];
+  }
+}
+
+function isUnresolved(target: string): boolean {
+  return target.startsWith('~') || target.includes('$') || target.includes('`');
+}
+
+function baseName(executable: string): string {
+  return executable.includes('/') ? path.posix.basename(executable) : executable;
+}
+
+/**
+ * Split a command line into words and operators, resolving quotes and escapes
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let word = '';
+  let inWord = false;
+  let quoted = false;
+  let substitutions: string[] = [];
+  let i = 0;
+
+  // Here-documents whose delimiter is the next word (<<- strips leading tabs), then those
+  // whose body starts after the next newline
+  let delimiterStripsTabs: boolean | null = null;
+  const heredocs: Array<{ token: Token; quoted: boolean; stripTabs: boolean }> = [];
+
+  const endWord = () => {
+    if (inWord) {
+      const token: Token = { kind: 'word', value: word, ...(substitutions.length > 0 && { substitutions }) };
+      tokens.push(token);
+      if (delimiterStripsTabs !== null) {
+        heredocs.push({ token, quoted, stripTabs: delimiterStripsTabs });
+        delimiterStripsTabs = null;
+      }
+    }
+    word = '';
+    inWord = false;
+    quoted = false;
+    substitutions = [];
+  };
+
+  // Read a $( ... ) body starting after the opening parenthesis
+  const readParenthesised = (): string => {
+    let depth = 1;
+    let body = '';
+    let quote: string | null = null;
+    while (i < input.length) {
+      const char = input[i];
+      if (quote) {
+        if (char === '\\' && quote === '"') {
+          body += char + (input[i + 1] ?? '');
+          i += 2;
+          continue;
+        }
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '(') {
+        depth++;
+      } else if (char === ')') {
+        depth--;
+        if (depth === 0) {
+          i++;
+          return body;
+        }
+      }
+      body += char;
+      i++;
+    }
+    throw new ShellParseError('Unterminated command substitution');
+  };
+
+  const readBackticks = (): string => {
+    const end = input.indexOf('`', i);
+    if (end === -1) {
+      throw new ShellParseError('Unterminated backtick substitution');
+    }
+    const body = input.slice(i, end);
+    i = end + 1;
+    return body;
+  };
+
+  // Here-document bodies are data, not commands; only the substitutions of a body with an
+  // unquoted delimiter run, and they are attached to the delimiter word
+  const readHeredocBodies = () => {
+    for (const heredoc of heredocs.splice(0)) {
+      const bodyStart = i;
+      let bodyEnd = -1;
+      while (i < input.length) {
+        const newline = input.indexOf('\n', i);
+        const lineEnd = newline === -1 ? input.length : newline;
+        const line = input.slice(i, lineEnd).replace(/\r$/, '');
+        if ((heredoc.stripTabs ? line.replace(/^\t+/, '') : line) === heredoc.token.value) {
+          bodyEnd = i;
+          i = lineEnd + 1;
+          break;
+        }
+        i = lineEnd + 1;
+      }
+      if (bodyEnd === -1) {
+        throw new ShellParseError(`Unterminated here-document '${heredoc.token.value}'`);
+      }
+
+      const body = input.slice(bodyStart, bodyEnd);
+      heredoc.token.heredoc = heredoc.stripTabs ? body.replace(/^\t+/gm, '') : body;
+      if (!heredoc.quoted) {
+        const resume = i;
+        const bodySubstitutions: string[] = [];
+        i = bodyStart;
+        while (i < bodyEnd) {
+          if (input[i] === '\\') {
+            i += 2;
+          } else if (input[i] === '$' && input[i + 1] === '(') {
+            i += 2;
+            bodySubstitutions.push(readParenthesised());
+          } else if (input[i] === '`') {
+            i++;
+            bodySubstitutions.push(readBackticks());
+          } else {
+            i++;
+          }
+        }
+        i = resume;
+        if (bodySubstitutions.length > 0) {
+          heredoc.token.substitutions = [...(heredoc.token.substitutions || []), ...bodySubstitutions];
+        }
+      }
+    }
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === ' ' || char === '\t' || char === '\r') {
+      endWord();
+      i++;
+      continue;
+    }
+
+    if (char === '\n') {
+      endWord();
+      tokens.push({ kind: 'op', value: ';' });
+      i++;
+      readHeredocBodies();
+      continue;
+    }
+
+    if (char === '#' && !inWord) {
+      while (i < input.length && input[i] !== '\n') i++;
+      continue;
+    }
+
+    if (char === '\\') {
+      if (input[i + 1] === '\n') {
+        i += 2;
+        continue;
+      }
+      word += input[i + 1] ?? '';
+      inWord = true;
+      quoted = true;
+      i += 2;
+      continue;
+    }
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) {
+        throw new ShellParseError('Unterminated single quote');
+      }
+      word += input.slice(i + 1, end);
+      inWord = true;
+      quoted = true;
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inWord = true;
+      quoted = true;
+      i++;
+      let closed = false;
+      while (i < input.length) {
+        const inner = input[i];
+        if (inner === '"') {
+          closed = true;
+          i++;
+          break;
+        }
+        const escaped = input[i + 1];
+        if (inner === '\\' && escaped !== undefined && '"\\$`'.includes(escaped)) {
+          word += escaped;
+          i += 2;
+        } else if (inner === '$' && input[i + 1] === '(') {
+          i += 2;
+          const body = readParenthesised();
+          substitutions.push(body);
+          word += `$(${body})`;
+        } else if (inner === '`') {
+          i++;
+          const body = readBackticks();
+          substitutions.push(body);
+          word += `\`${body}\``;
+        } else {
+          word += inner;
+          i++;
+        }
+      }
+      if (!closed) {
+        throw new ShellParseError('Unterminated double quote');
+      }
+      continue;
+    }
+
+    if (char === '$' && input[i + 1] === '(') {
+      i += 2;
+      const body = readParenthesised();
+      substitutions.push(body);
+      word += `$(${body})`;
+      inWord = true;
+      continue;
+    }
+
+    if (char === '`') {
+      i++;
+      const body = readBackticks();
+      substitutions.push(body);
+      word += `\`${body}\``;
+      inWord = true;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => input.startsWith(candidate, i));
+    if (operator) {
+      // A numeric word directly before a redirect is its file descriptor (2>, 1>>)
+      if (inWord && /^\d+$/.test(word) && (operator.startsWith('>') || operator.startsWith('<'))) {
+        const descriptor = word;
+        word = '';
+        inWord = false;
+        tokens.push({ kind: 'op', value: descriptor + operator });
+      } else {
+        endWord();
+        tokens.push({ kind: 'op', value: operator });
+      }
+      if (operator === '<<' || operator === '<<-') {
+        delimiterStripsTabs = operator === '<<-';
+      }
+      i += operator.length;
+      continue;
+    }
+
+    word += char;
+    inWord = true;
+    i++;
+  }
+
+  endWord();
+  const [unterminated] = heredocs;
+  if (unterminated) {
+    throw new ShellParseError(`Unterminated here-document '${unterminated.token.value}'`);
+  }
+  return tokens;
+}
+
+function isRedirect(token: Token | undefined): boolean {
+  return !!token && token.kind === 'op' && REDIRECT_OPERATORS.has(token.value.replace(/^\d+/, ''));
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  public done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  public peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  /**
+   * list := pipeline ((&& | || | ; | &) pipeline)*
+   */
+  public parseList(terminators: Set<string>): ShellNode {
+    const items: ShellNode[] = [];
+    const operators: string[] = [];
+
+    while (!this.done()) {
+      const token = this.peek()!;
+      if (token.kind === 'op' && terminators.has(token.value)) {
+        break;
+      }
+      if (token.kind === 'op' && LIST_OPERATORS.has(token.value)) {
+        // Empty statements such as a trailing ';' or blank lines
+        this.position++;
+        if (items.length > operators.length) {
+          operators.push(token.value);
+        }
+        continue;
+      }
+      if (items.length > operators.length) {
+        throw new ShellParseError(`Unexpected '${token.value}'`);
+      }
+      items.push(this.parsePipeline(terminators));
+    }
+
+    if (operators.length >= items.length) {
+      operators.length = Math.max(items.length - 1, 0);
+    }
+    if (items.length === 0) {
+      throw new ShellParseError('Empty command');
+    }
+    const [only] = items;
+    return only && items.length === 1 ? only : { type: 'list', items, operators };
+  }
+
+  /**
+   * pipeline := command (| command)*
+   */
+  private parsePipeline(terminators: Set<string>): ShellNode {
+    const commands = [this.parseCommand(terminators)];
+    while (this.peek()?.kind === 'op' && (this.peek()!.value === '|' || this.peek()!.value === '|&')) {
+      this.position++;
+      commands.push(this.parseCommand(terminators));
+    }
+    const [only] = commands;
+    return only && commands.length === 1 ? only : { type: 'pipeline', commands };
+  }
+
+  /**
+   * command := '(' list ')' redirect* | simple command
+   */
+  private parseCommand(terminators: Set<string>): ShellNode {
+    const token = this.peek();
+    if (!token) {
+      throw new ShellParseError('Expected a command');
+    }
+
+    if (token.kind === 'op' && token.value === '(') {
+      this.position++;
+      const body = this.parseList(new Set([')']));
+      if (this.peek()?.value !== ')') {
+        throw new ShellParseError("Missing ')'");
+      }
+      this.position++;
+      const nested: ShellNode[] = [];
+      return { type: 'subshell', body, redirects: this.parseRedirects(nested), nested };
+    }
+
+    return this.parseSimpleCommand();
+  }
+
+  private parseRedirects(nested: ShellNode[]): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    while (isRedirect(this.peek())) {
+      redirects.push(this.parseRedirect(nested));
+    }
+    return redirects;
+  }
+
+  /**
+   * Parse one redirect, adding the substitutions in its target or here-document to nested
+   */
+  private parseRedirect(nested: ShellNode[]): ShellRedirect {
+    const operator = this.tokens[this.position++]?.value;
+    if (operator === undefined) {
+      throw new ShellParseError('Expected a redirect');
+    }
+    const target = this.tokens[this.position];
+    if (!target || target.kind !== 'word') {
+      throw new ShellParseError(`Missing target for redirect '${operator}'`);
+    }
+    this.position++;
+    for (const substitution of target.substitutions || []) {
+      nested.push(parseShellCommand(substitution));
+    }
+    return { operator, target: target.value, ...(target.heredoc !== undefined && { body: target.heredoc }) };
+  }
+
+  private parseSimpleCommand(): ShellCommand {
+    const words: Token[] = [];
+    const redirects: ShellRedirect[] = [];
+    const nested: ShellNode[] = [];
+
+    while (!this.done()) {
+      const token = this.peek()!;
+      if (isRedirect(token)) {
+        redirects.push(this.parseRedirect(nested));
+        continue;
+      }
+      if (token.kind === 'op') {
+        if (token.value === '(') {
+          throw new ShellParseError("Unexpected '('");
+        }
+        // Callers decide whether the operator may follow a command
+        break;
+      }
+      words.push(token);
+      this.position++;
+    }
+
+    if (words.length === 0 && redirects.length === 0) {
+      throw new ShellParseError('Expected a command');
+    }
+
+    return buildCommand(words, redirects, nested);
+  }
+}
+
+/**
+ * Turn the words of a simple command into a command node, peeling off wrappers
+ */
+function buildCommand(words: Token[], redirects: ShellRedirect[], nested: ShellNode[] = []): ShellCommand {
+  for (const word of words) {
+    for (const substitution of word.substitutions || []) {
+      nested.push(parseShellCommand(substitution));
+    }
+  }
+
+  let values = words.map(word => word.value);
+  const assignments: string[] = [];
+  let sudo = false;
+  let first: string | undefined;
+
+  // Control-flow keywords introduce the command that follows them
+  while ((first = values[0]) !== undefined && RESERVED_PREFIXES.has(first)) {
+    values = values.slice(1);
+  }
+  if ((first = values[0]) !== undefined && RESERVED_SKIP.has(first)) {
+    values = [];
+  }
+
+  let changed = true;
+  while (changed && values.length > 0) {
+    changed = false;
+
+    while ((first = values[0]) !== undefined && /^[A-Za-z_][A-Za-z0-9_]*=/.test(first)) {
+      assignments.push(first);
+      values = values.slice(1);
+      changed = true;
+    }
+
+    const wrapperName = baseName(values[0] ?? '');
+    const wrapper = WRAPPERS[wrapperName];
+    if (wrapper) {
+      sudo = sudo || ['sudo', 'doas'].includes(wrapperName);
+      let index = 1;
+      let positional = wrapper.positional || 0;
+      let value: string | undefined;
+      while ((value = values[index]) !== undefined) {
+        if (value === '--') {
+          index++;
+          break;
+        }
+        if (value.startsWith('-')) {
+          index += wrapper.optionsWithValue.includes(value) ? 2 : 1;
+        } else if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(value) && wrapperName === 'env') {
+          index++;
+        } else if (positional > 0) {
+          positional--;
+          index++;
+        } else {
+          break;
+        }
+      }
+      values = values.slice(index);
+      changed = true;
+    }
+  }
+
+  const [executable = '', ...args] = values;
+  const name = baseName(executable);
+
+  // Scripts handed to a shell, eval or find -exec are commands too
+  if (SHELLS.has(name)) {
+    const scriptIndex = args.indexOf('-c');
+    const script = scriptIndex === -1 ? undefined : args[scriptIndex + 1];
+    if (script !== undefined) {
+      nested.push(parseShellCommand(script));
+    } else {
+      stdinScripts(args, redirects)
+        .filter(script => script.trim())
+        .forEach(script => nested.push(parseShellCommand(script)));
+    }
+  } else if (name === 'eval' && args.length > 0) {
+    nested.push(parseShellCommand(args.join(' ')));
+  } else if (name === 'find') {
+    args.forEach((arg, index) => {
+      if (['-exec', '-execdir', '-ok', '-okdir'].includes(arg)) {
+        const end = args.findIndex((candidate, position) => position > index && (candidate === ';' || candidate === '+'));
+        const execWords = args.slice(index + 1, end === -1 ? undefined : end).filter(word => word !== '{}');
+        if (execWords.length > 0) {
+          nested.push(buildCommand(execWords.map(value => ({ kind: 'word', value })), []));
+        }
+      }
+    });
+  }
+
+  return { type: 'command', executable, args, assignments, redirects, sudo, nested };
+}
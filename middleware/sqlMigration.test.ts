@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeMigration, splitSqlStatements } from './sqlMigration';
+
+describe('splitSqlStatements', () => {
+  it('splits on top-level semicolons and drops comment-only statements', () => {
+    assert.deepEqual(
+      splitSqlStatements('CREATE TABLE a (id int);\n--> statement-breakpoint\nCREATE TABLE b (id int);\n-- done;\n'),
+      ['CREATE TABLE a (id int)', '--> statement-breakpoint\nCREATE TABLE b (id int)'],
+    );
+  });
+
+  it('keeps semicolons inside strings and quoted identifiers', () => {
+    assert.deepEqual(
+      splitSqlStatements(`INSERT INTO "odd;name" VALUES ('a;b', 'it''s;'); SELECT 1`),
+      [`INSERT INTO "odd;name" VALUES ('a;b', 'it''s;')`, 'SELECT 1'],
+    );
+    assert.deepEqual(splitSqlStatements(`SELECT E'it\\'s;'; SELECT 2`), [`SELECT E'it\\'s;'`, 'SELECT 2']);
+  });
+
+  it('keeps dollar-quoted bodies intact', () => {
+    const fn = `CREATE FUNCTION f() RETURNS int AS $$ BEGIN RETURN 1; END; $$ LANGUAGE plpgsql`;
+    const tagged = `DO $body$ BEGIN PERFORM '$$;'; END $body$`;
+    assert.deepEqual(splitSqlStatements(`${fn};\n${tagged};`), [fn, tagged]);
+  });
+
+  it('does not open a dollar quote inside an identifier or on a parameter', () => {
+    assert.deepEqual(splitSqlStatements('SELECT a$b$ FROM t; SELECT $1; SELECT 3'), ['SELECT a$b$ FROM t', 'SELECT $1', 'SELECT 3']);
+  });
+
+  it('skips semicolons in line and nested block comments', () => {
+    assert.deepEqual(
+      splitSqlStatements('SELECT 1 -- one; two\n; /* outer /* inner; */ still; */ SELECT 2'),
+      ['SELECT 1 -- one; two', '/* outer /* inner; */ still; */ SELECT 2'],
+    );
+  });
+
+  it('rejects unterminated literals and comments', () => {
+    assert.throws(() => splitSqlStatements(`SELECT 'open`), /Unterminated string/);
+    assert.throws(() => splitSqlStatements('SELECT $x$ open'), /Unterminated dollar-quoted string \$x\$/);
+    assert.throws(() => splitSqlStatements('SELECT 1 /* /* */'), /Unterminated block comment/);
+  });
+});
+
+describe('analyzeMigration', () => {
+  it('derives a down script in reverse statement order', () => {
+    const analysis = analyzeMigration([
+      'CREATE TABLE "users" (id serial PRIMARY KEY);',
+      'CREATE UNIQUE INDEX users_email_idx ON users (email);',
+      'ALTER TABLE users ADD COLUMN name text, RENAME COLUMN email TO mail;',
+    ].join('\n'));
+
+    assert.deepEqual(analysis.kinds, ['create_table', 'create_index', 'alter_table']);
+    assert.deepEqual(analysis.tables, ['users']);
+    assert.equal(analysis.destructive, false);
+    assert.equal(analysis.derivedDown, [
+      'ALTER TABLE users RENAME COLUMN mail TO email, DROP COLUMN name;',
+      'DROP INDEX users_email_idx;',
+      'DROP TABLE "users";',
+    ].join('\n'));
+  });
+
+  it('flags statements that drop or rewrite data', () => {
+    assert.equal(analyzeMigration('DROP TABLE sessions;').destructive, true);
+    assert.equal(analyzeMigration('ALTER TABLE users DROP COLUMN bio;').destructive, true);
+    assert.equal(analyzeMigration('DELETE FROM users;').destructive, true);
+    assert.equal(analyzeMigration('DELETE FROM users WHERE id = 1;').destructive, false);
+  });
+
+  it('reads comment markers inside strings as text', () => {
+    const analysis = analyzeMigration(`UPDATE users SET note = '-- /* not a comment' WHERE id = 1; -- trailing`);
+    assert.equal(analysis.statementCount, 1);
+    assert.equal(analysis.destructive, false);
+  });
+
+  it('is reversible only with a down script or derivable statements', () => {
+    assert.equal(analyzeMigration('DROP TABLE sessions;').reversible, false);
+    assert.equal(analyzeMigration('DROP TABLE sessions;', 'CREATE TABLE sessions (id int);').reversible, true);
+  });
+
+  it('reports parse errors as irreversible', () => {
+    const analysis = analyzeMigration(`INSERT INTO t VALUES ('open`);
+    assert.match(analysis.parseError ?? '', /Unterminated string/);
+    assert.equal(analysis.reversible, false);
+    assert.equal(analysis.derivedDown, null);
+  });
+});
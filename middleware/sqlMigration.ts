@@ -0,0 +1,345 @@
+/**
+ * SQL Migration - Agent Bridge Middleware v2.0
+ * Splits and classifies migration SQL for governance, flags destructive statements and
+ * derives down scripts for the statements that can be undone mechanically
+ */
+
+export type SqlStatementKind =
+  | 'create_table'
+  | 'alter_table'
+  | 'drop_table'
+  | 'create_index'
+  | 'drop_index'
+  | 'create_type'
+  | 'drop_type'
+  | 'create_view'
+  | 'drop_view'
+  | 'insert'
+  | 'update'
+  | 'delete'
+  | 'truncate'
+  | 'other';
+
+export interface SqlStatement {
+  sql: string;
+  kind: SqlStatementKind;
+  tables: string[]; // Unquoted, e.g. "users" or "public.users"
+  destructive: boolean; // Drops or rewrites existing data
+  down: string | null; // Statement that undoes this one, when it can be derived
+}
+
+export interface MigrationAnalysis {
+  statements: SqlStatement[];
+  statementCount: number;
+  kinds: SqlStatementKind[]; // Unique statement kinds
+  tables: string[];
+  destructive: boolean;
+  reversible: boolean; // A down script was given or can be derived
+  derivedDown: string | null; // Down script derived from the up script, in reverse statement order
+  parseError?: string;
+}
+
+// Optionally schema-qualified identifier, quoted or not
+const IDENTIFIER = String.raw`(?:"[^"]+"|[\w$]+)(?:\.(?:"[^"]+"|[\w$]+))?`;
+
+const CREATE_TABLE = new RegExp(String.raw`^create\s+(?:(?:global\s+|local\s+)?(?:temp|temporary)\s+|unlogged\s+)?table\s+(?:if\s+not\s+exists\s+)?(${IDENTIFIER})`, 'i');
+const ALTER_TABLE = new RegExp(String.raw`^alter\s+table\s+(?:if\s+exists\s+)?(?:only\s+)?(${IDENTIFIER})\s+([\s\S]+)$`, 'i');
+const DROP_TABLE = new RegExp(String.raw`^drop\s+table\s+(?:if\s+exists\s+)?(${IDENTIFIER}(?:\s*,\s*${IDENTIFIER})*)`, 'i');
+const CREATE_INDEX = new RegExp(String.raw`^create\s+(?:unique\s+)?index\s+(?:concurrently\s+)?(?:if\s+not\s+exists\s+)?(${IDENTIFIER})?\s*on\s+(?:only\s+)?(${IDENTIFIER})`, 'i');
+const CREATE_TYPE = new RegExp(String.raw`^create\s+type\s+(${IDENTIFIER})`, 'i');
+const CREATE_VIEW = new RegExp(String.raw`^create\s+(or\s+replace\s+)?(materialized\s+)?view\s+(?:if\s+not\s+exists\s+)?(${IDENTIFIER})`, 'i');
+const DML_TABLE = new RegExp(String.raw`^(?:insert\s+into|update(?:\s+only)?|delete\s+from(?:\s+only)?|truncate(?:\s+table)?(?:\s+only)?)\s+(${IDENTIFIER})`, 'i');
+
+const ADD_COLUMN = new RegExp(String.raw`^add\s+(?:column\s+)?(?!(?:primary|foreign|unique|check|exclude)\b)(?:if\s+not\s+exists\s+)?(${IDENTIFIER})`, 'i');
+const ADD_CONSTRAINT = new RegExp(String.raw`^add\s+constraint\s+(${IDENTIFIER})`, 'i');
+const RENAME_COLUMN = new RegExp(String.raw`^rename\s+(?:column\s+)?(${IDENTIFIER})\s+to\s+(${IDENTIFIER})$`, 'i');
+const RENAME_TABLE = new RegExp(String.raw`^rename\s+to\s+(${IDENTIFIER})$`, 'i');
+
+/**
+ * Split a script into statements on top-level semicolons. Quoted strings, quoted
+ * identifiers, dollar-quoted bodies and comments are kept intact; statements that are
+ * only comments (such as drizzle's `--> statement-breakpoint`) are dropped.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let index = 0;
+
+  const push = (end: number) => {
+    const statement = sql.slice(start, end).trim();
+    if (stripComments(statement)) {
+      statements.push(statement);
+    }
+  };
+
+  while (index < sql.length) {
+    const next = skipComment(sql, index);
+    const end = next > index ? next : skipLiteral(sql, index);
+
+    if (end > index) {
+      index = end;
+    } else if (sql[index] === ';') {
+      push(index);
+      start = index = index + 1;
+    } else {
+      index++;
+    }
+  }
+
+  push(sql.length);
+  return statements;
+}
+
+/**
+ * Classify every statement of an up script. `reverse` is the script that undoes it (the
+ * down script for a migration, the up script for a revert); without one, the migration is
+ * reversible only when every statement has a derivable down.
+ */
+export function analyzeMigration(sql: string, reverse?: string): MigrationAnalysis {
+  let statements: SqlStatement[] = [];
+  let parseError: string | undefined;
+
+  try {
+    statements = splitSqlStatements(sql).map(classifyStatement);
+  } catch (error) {
+    parseError = error instanceof Error ? error.message : String(error);
+  }
+
+  const derivable = !parseError && statements.every(statement => statement.down !== null);
+  const derivedDown = derivable && statements.length > 0
+    ? statements.map(statement => statement.down).reverse().join('\n')
+    : null;
+
+  return {
+    statements,
+    statementCount: statements.length,
+    kinds: Array.from(new Set(statements.map(statement => statement.kind))),
+    tables: Array.from(new Set(statements.flatMap(statement => statement.tables))),
+    destructive: statements.some(statement => statement.destructive),
+    reversible: !parseError && (Boolean(reverse?.trim()) || derivable),
+    derivedDown,
+    ...(parseError && { parseError }),
+  };
+}
+
+function classifyStatement(raw: string): SqlStatement {
+  const sql = stripComments(raw).replace(/\s+/g, ' ');
+  const statement = (kind: SqlStatementKind, tables: string[], destructive: boolean, down: string | null): SqlStatement =>
+    ({ sql: raw, kind, tables: tables.map(unquote), destructive, down });
+
+  let match: RegExpExecArray | null;
+
+  if ((match = CREATE_TABLE.exec(sql))) {
+    const [, table = ''] = match;
+    return statement('create_table', [table], false, `DROP TABLE ${table};`);
+  }
+  if ((match = ALTER_TABLE.exec(sql))) {
+    const [, table = '', actions = ''] = match;
+    return classifyAlterTable(raw, table, actions);
+  }
+  if ((match = DROP_TABLE.exec(sql))) {
+    const [, tables = ''] = match;
+    return statement('drop_table', tables.split(',').map(name => name.trim()), true, null);
+  }
+  if ((match = CREATE_INDEX.exec(sql))) {
+    const [, index, table = ''] = match;
+    // Unnamed indexes get a generated name the down script cannot know
+    return statement('create_index', [table], false, index ? `DROP INDEX ${index};` : null);
+  }
+  if (/^drop\s+index\s/i.test(sql)) {
+    return statement('drop_index', [], false, null);
+  }
+  if ((match = CREATE_TYPE.exec(sql))) {
+    return statement('create_type', [], false, `DROP TYPE ${match[1]};`);
+  }
+  if (/^drop\s+type\s/i.test(sql)) {
+    return statement('drop_type', [], true, null);
+  }
+  if ((match = CREATE_VIEW.exec(sql))) {
+    // A replaced view's previous definition is gone
+    const down = match[1] ? null : `DROP ${match[2] ? 'MATERIALIZED ' : ''}VIEW ${match[3]};`;
+    return statement('create_view', [], false, down);
+  }
+  if (/^drop\s+(?:materialized\s+)?view\s/i.test(sql)) {
+    return statement('drop_view', [], false, null);
+  }
+
+  const table = DML_TABLE.exec(sql)?.[1];
+  const tables = table ? [table] : [];
+  if (/^insert\s/i.test(sql)) {
+    return statement('insert', tables, false, null);
+  }
+  if (/^update\s/i.test(sql)) {
+    return statement('update', tables, !/\swhere\s/i.test(sql), null);
+  }
+  if (/^delete\s/i.test(sql)) {
+    return statement('delete', tables, !/\swhere\s/i.test(sql), null);
+  }
+  if (/^truncate\s/i.test(sql)) {
+    return statement('truncate', tables, true, null);
+  }
+
+  return statement('other', [], false, null);
+}
+
+/**
+ * ALTER TABLE with one or more comma-separated actions; the down script undoes them in
+ * reverse order and exists only when every action can be undone
+ */
+function classifyAlterTable(raw: string, table: string, actionList: string): SqlStatement {
+  const downs: Array<string | null> = [];
+  let destructive = false;
+  let renamedTo: string | null = null;
+
+  for (const action of splitTopLevel(actionList)) {
+    let match: RegExpExecArray | null;
+    if ((match = ADD_CONSTRAINT.exec(action))) {
+      downs.push(`DROP CONSTRAINT ${match[1]}`);
+    } else if ((match = ADD_COLUMN.exec(action))) {
+      downs.push(`DROP COLUMN ${match[1]}`);
+    } else if ((match = RENAME_COLUMN.exec(action))) {
+      downs.push(`RENAME COLUMN ${match[2]} TO ${match[1]}`);
+    } else if ((match = RENAME_TABLE.exec(action))) {
+      renamedTo = match[1] ?? null;
+      downs.push(`RENAME TO ${table}`);
+    } else {
+      // Dropped columns lose their data; type changes may truncate it
+      destructive = destructive || /^drop\s+(?:column\s+)?(?!constraint\b|default\b|not\s+null\b)/i.test(action)
+        || /^alter\s+(?:column\s+)?\S+\s+(?:set\s+data\s+)?type\s/i.test(action);
+      downs.push(null);
+    }
+  }
+
+  const down = downs.every(action => action !== null)
+    ? `ALTER TABLE ${renamedTo ?? table} ${downs.reverse().join(', ')};`
+    : null;
+
+  return {
+    sql: raw,
+    kind: 'alter_table',
+    tables: [table, ...(renamedTo ? [renamedTo] : [])].map(unquote),
+    destructive,
+    down,
+  };
+}
+
+// Split on commas outside parentheses and quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    const end = skipLiteral(text, index);
+    if (end > index) {
+      index = end - 1;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+// Index just past the comment at index, or index itself; block comments nest
+function skipComment(sql: string, index: number): number {
+  if (sql.startsWith('--', index)) {
+    const end = sql.indexOf('\n', index);
+    return end === -1 ? sql.length : end + 1;
+  }
+  if (!sql.startsWith('/*', index)) {
+    return index;
+  }
+
+  let depth = 0;
+  while (index < sql.length) {
+    if (sql.startsWith('/*', index)) {
+      depth++;
+      index += 2;
+    } else if (sql.startsWith('*/', index)) {
+      depth--;
+      index += 2;
+      if (depth === 0) {
+        return index;
+      }
+    } else {
+      index++;
+    }
+  }
+  throw new Error('Unterminated block comment');
+}
+
+// Index just past the string, quoted identifier or dollar-quoted body at index, or index itself
+function skipLiteral(sql: string, index: number): number {
+  const char = sql[index];
+  const previous = sql[index - 1] ?? '';
+
+  if (char === "'" || char === '"') {
+    // E'...' strings take backslash escapes; the E must not end an identifier
+    const escapes = char === "'" && /[eE]/.test(previous) && !/[\w$]/.test(sql[index - 2] ?? '');
+    return skipQuoted(sql, index, escapes);
+  }
+  // A $ inside an identifier such as a$b$ does not open a dollar quote
+  if (char === '$' && !/[\w$]/.test(previous)) {
+    const tag = /^\$(?:[A-Za-z_]\w*)?\$/.exec(sql.slice(index))?.[0];
+    if (tag) {
+      const end = sql.indexOf(tag, index + tag.length);
+      if (end === -1) {
+        throw new Error(`Unterminated dollar-quoted string ${tag}`);
+      }
+      return end + tag.length;
+    }
+  }
+  return index;
+}
+
+// Index just past a quoted string or identifier; doubled quotes are escapes
+function skipQuoted(sql: string, start: number, backslashEscapes = false): number {
+  const quote = sql[start];
+  let index = start + 1;
+  while (index < sql.length) {
+    if (backslashEscapes && sql[index] === '\\') {
+      index += 2;
+      continue;
+    }
+    if (sql[index] === quote) {
+      if (sql[index + 1] !== quote) {
+        return index + 1;
+      }
+      index++;
+    }
+    index++;
+  }
+  throw new Error(`Unterminated ${quote === "'" ? 'string' : 'quoted identifier'}`);
+}
+
+// Comments become spaces; comment markers inside literals are text
+function stripComments(sql: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < sql.length) {
+    const afterComment = skipComment(sql, index);
+    if (afterComment > index) {
+      result += ' ';
+      index = afterComment;
+      continue;
+    }
+    const afterLiteral = skipLiteral(sql, index);
+    const end = afterLiteral > index ? afterLiteral : index + 1;
+    result += sql.slice(index, end);
+    index = end;
+  }
+  return result.trim();
+}
+
+function unquote(identifier: string): string {
+  return identifier.split('.').map(part => part.replace(/^"|"$/g, '')).join('.');
+}
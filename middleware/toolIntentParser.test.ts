@@ -0,0 +1,90 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RecordedToolCallProvider, ToolIntentParser } from './toolIntentParser';
+import { FileOperationIntent, TerminalCommandIntent } from './types';
+
+let dir: string;
+let recordingsPath: string;
+
+before(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tool-intents-'));
+  recordingsPath = path.join(dir, 'recorded-tool-calls.json');
+  await fs.writeFile(recordingsPath, JSON.stringify({
+    recordings: [
+      {
+        match: 'add a readme',
+        toolCalls: [
+          { name: 'create_file', input: { path: '/projects/default-app/README.md', content: '# App\n' } },
+          { name: 'run_command', input: { command: 'npm test', working_directory: '/projects/default-app/web/../api' } },
+        ],
+      },
+      {
+        match: '/clean up (the )?system/i',
+        toolCalls: [
+          { name: 'run_command', input: { command: 'rm -rf logs', working_directory: '/projects/../etc' } },
+          { name: 'run_command', input: { command: 'ls' } },
+          { name: 'delete_everything', input: {} },
+        ],
+      },
+    ],
+  }));
+});
+
+after(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('ToolIntentParser with recorded tool calls', () => {
+  it('turns the first matching recording into intents', async () => {
+    const parser = new ToolIntentParser(new RecordedToolCallProvider(recordingsPath));
+    const output = await parser.parseChatMessage('Please add a readme and run the tests', 'session-1');
+
+    const [file, command] = output.intents as [FileOperationIntent, TerminalCommandIntent];
+    assert.equal(output.intents.length, 2);
+    assert.equal(file.type, 'file_operation');
+    assert.equal(file.target.path, '/projects/default-app/README.md');
+    assert.equal(command.command, 'npm test');
+    assert.equal(command.workingDirectory, '/projects/default-app/api');
+    assert.deepEqual(output.parseErrors, []);
+    assert.equal(output.confidence, 1);
+    assert.equal(output.metadata.modelUsed, 'recorded');
+  });
+
+  it('matches regex recordings and rejects calls it cannot trust', async () => {
+    const parser = new ToolIntentParser(new RecordedToolCallProvider(recordingsPath));
+    const output = await parser.parseChatMessage('Time to Clean up system files', 'session-1');
+
+    assert.deepEqual(output.intents.map(intent => (intent as TerminalCommandIntent).workingDirectory), ['/projects/default-app']);
+    assert.deepEqual(output.parseErrors, [
+      'Tool call run_command working_directory must lie within /projects',
+      'Unknown tool call: delete_everything',
+    ]);
+    assert.equal(output.confidence, 1 / 3);
+  });
+
+  it('yields no intents when nothing matches', async () => {
+    const output = await new ToolIntentParser(new RecordedToolCallProvider(recordingsPath)).parseChatMessage('Just explaining things', 's');
+    assert.deepEqual(output.intents, []);
+    assert.equal(output.confidence, 0);
+  });
+
+  it('reports a missing recordings file as a parse error', async () => {
+    const parser = new ToolIntentParser(new RecordedToolCallProvider(path.join(dir, 'missing.json')));
+    const output = await parser.parseChatMessage('add a readme', 's');
+    assert.deepEqual(output.intents, []);
+    assert.match(output.parseErrors[0] ?? '', /^Tool call extraction failed: ENOENT/);
+  });
+});
+
+describe('ToolIntentParser.fromSettings', () => {
+  it('reuses the parser until the provider settings change', () => {
+    const settings = { mode: 'tool_use' as const, provider: 'recorded' as const, recordingsPath };
+    const parser = ToolIntentParser.fromSettings(settings);
+
+    assert.equal(ToolIntentParser.fromSettings({ ...settings }), parser);
+    assert.notEqual(ToolIntentParser.fromSettings({ ...settings, recordingsPath: path.join(dir, 'other.json') }), parser);
+  });
+});
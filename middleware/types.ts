@@ -26,12 +26,13 @@ export type IntentType =
 // File Operation Intents
 export interface FileOperationIntent extends BaseIntent {
   type: 'file_operation';
-  operation: 'create' | 'update' | 'delete' | 'rename' | 'move';
+  operation: 'create' | 'update' | 'delete' | 'rename' | 'move' | 'patch';
   target: {
     path: string;
     content?: string;
     newPath?: string;
     backup?: boolean;
+    hunks?: DiffHunk[];
   };
   validation: {
     fileType: string;
@@ -40,6 +41,21 @@ export interface FileOperationIntent extends BaseIntent {
   };
 }
 
+// Unified diff hunk carried by 'patch' file operations
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // Prefixed with ' ', '-' or '+'
+}
+
+export interface RejectedHunk {
+  index: number;
+  hunk: DiffHunk;
+  reason: string;
+}
+
 // Terminal Command Intents
 export interface TerminalCommandIntent extends BaseIntent {
   type: 'terminal_command';
@@ -103,29 +119,113 @@ export interface CodeGenerationIntent extends BaseIntent {
   };
 }
 
+// Migration Intents
+export interface MigrationIntent extends BaseIntent {
+  type: 'migration';
+  operation: 'apply' | 'revert'; // 'revert' withdraws the latest migration while drizzle has not applied it
+  project: string; // Virtual project path, e.g. /projects/default-app
+  name: string; // Migration name; for 'revert', the tag of the applied migration, e.g. 0003_add_users
+  up: string; // SQL the migration applies
+  down?: string; // SQL that undoes it
+  description?: string;
+}
+
 // Union type for all intents
 export type Intent = 
   | FileOperationIntent
   | TerminalCommandIntent
   | ExternalServiceIntent
   | ProjectScaffoldIntent
-  | CodeGenerationIntent;
+  | CodeGenerationIntent
+  | MigrationIntent;
 
 // Governance and Validation Types
+export type ConditionOperator =
+  | 'equals'
+  | 'contains'
+  | 'matches'
+  | 'not_matches'
+  | 'starts_with'
+  | 'ends_with'
+  | 'glob'
+  | 'in'
+  | 'exists'
+  | 'greater_than'
+  | 'less_than'
+  | 'between'
+  | 'length_greater_than'
+  | 'length_less_than'
+  | 'byte_length_greater_than'
+  | 'byte_length_less_than'
+  | 'contains_any'
+  | 'any_matches';
+
+export interface FieldCondition {
+  field: string;
+  operator: ConditionOperator;
+  value: any;
+}
+
+// Wall-clock window in which a schedule condition holds; every part that is set must match
+export interface ScheduleSpec {
+  timezone?: string; // IANA zone such as Europe/Berlin; defaults to UTC
+  weekly?: Array<{ start: string; end: string }>; // e.g. { start: 'fri 16:00', end: 'mon 08:00' }
+  cron?: string; // Five-field cron expression, matched per minute
+  from?: string; // Local date or date-time, inclusive
+  until?: string; // Local date-time, exclusive; a date-only until includes that whole day
+}
+
+// Boolean condition tree: field comparisons and schedules combined with all/any/not groups
+export type RuleCondition =
+  | FieldCondition
+  | { schedule: ScheduleSpec }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+// Stateful budget for the intents a quota rule's conditions select
+export interface QuotaSpec {
+  scope: 'session' | 'message' | 'user' | 'global'; // What the budget is counted per
+  measure: 'count' | 'bytes'; // Number of intents, or bytes of file content written
+  limit: number;
+  windowMs?: number; // Rolling window; omitted means the lifetime of the scope
+  onExceeded: 'deny' | 'require_approval';
+}
+
 export interface GovernanceRule {
   id: string;
   name: string;
   description: string;
   intentTypes: IntentType[];
-  conditions: Array<{
-    field: string;
-    operator: 'equals' | 'contains' | 'matches' | 'in' | 'greater_than' | 'less_than';
-    value: any;
-  }>;
-  action: 'allow' | 'deny' | 'require_approval' | 'modify';
+  conditions: RuleCondition[]; // Implicit `all` group
+  action: 'allow' | 'deny' | 'require_approval' | 'modify' | 'quota';
+  priority?: number; // Higher runs first; defaults to 0
+  enabled?: boolean; // Disabled rules are kept but never evaluated
   modifications?: Record<string, any>;
+  transforms?: ContentTransformSpec[]; // Content rewrites for 'modify' rules, run in order
+  quota?: QuotaSpec; // Required when action is 'quota'
+}
+
+export type ContentTransformName = 'prettier' | 'license_header' | 'line_endings' | 'strip_console_log';
+
+export interface ContentTransformSpec {
+  name: ContentTransformName;
+  options?: Record<string, any>;
+}
+
+// One transform run against the content an intent writes
+export interface AppliedTransform {
+  ruleId: string;
+  name: ContentTransformName;
+  changed: boolean;
+  skipped?: string; // Why the transform did not apply, e.g. an unsupported file type
+  error?: string; // The transform failed and left the content as it was
 }
 
+export type CombiningAlgorithm = 'deny-overrides' | 'allow-overrides' | 'first-match';
+
+export type PolicyDecision = 'allow' | 'deny' | 'require_approval';
+
 export interface ValidationResult {
   isValid: boolean;
   intent: Intent;
@@ -134,16 +234,202 @@ export interface ValidationResult {
   warnings: string[];
   modifications: Record<string, any>;
   requiresApproval: boolean;
+  decision: PolicyDecision;
+  decidedBy?: string; // Rule that produced the decision; unset when no decisive rule matched
+  overriddenRules: string[]; // Matching rules whose action lost to the decision
+  exhaustedQuotas?: string[]; // Quota rules whose budget this intent would exceed
+  secretFindings?: SecretFinding[]; // Credentials found in content the intent writes or runs
+  transforms?: AppliedTransform[]; // Content transforms from matching 'modify' rules
+  contentBeforeTransforms?: string; // Set when transforms changed the content, for review
+  diagnostics?: QualityDiagnostic[]; // Compiler and linter findings from the quality gate
+}
+
+// Policy test cases carried by the build protocol
+export interface PolicyTest {
+  name: string;
+  intent: Partial<Intent> & { type: IntentType };
+  role?: string; // Evaluate as a user with this role
+  at?: string; // ISO timestamp to evaluate at, for rules with schedule conditions
+  expect: {
+    decision: PolicyDecision;
+    decidedBy?: string;
+    appliedRules?: string[]; // Compared as a set
+  };
+}
+
+export interface PolicyTestDiff {
+  field: 'decision' | 'decidedBy' | 'appliedRules' | 'error';
+  expected: any;
+  actual: any;
+}
+
+export interface PolicyTestResult {
+  name: string;
+  passed: boolean;
+  diffs: PolicyTestDiff[];
+}
+
+export interface PolicyTestReport {
+  passed: number;
+  failed: number;
+  results: PolicyTestResult[];
+}
+
+// Change freeze declared through the API, e.g. during a demo or release
+export interface ChangeFreeze {
+  reason: string; // Shown in the messages of every intent the freeze blocks
+  action: 'deny' | 'require_approval';
+  intentTypes: IntentType[]; // Empty means every intent type
+  declaredBy?: string;
+  declaredAt: string;
+  until?: string; // ISO timestamp after which the freeze lifts itself
+}
+
+// Priority-based approval from governance settings
+export interface ApprovalSettings {
+  requireApprovalThreshold: BaseIntent['priority']; // Priorities above this need approval
+  autoApprove: BaseIntent['priority'][]; // Priorities exempt from the threshold
+}
+
+// Secret scanning of AI-written content
+export interface SecretScanningSettings {
+  enabled: boolean;
+  action: 'deny' | 'redact' | 'require_approval';
+  entropyThreshold: number; // Bits per character above which a token counts as a secret
+  minEntropyLength: number;
+  allowlist: string[]; // Regular expressions for tokens that are never secrets
+}
+
+// Type-check and lint stage for AI-written source files
+export interface QualityGateSettings {
+  enabled: boolean;
+  typescript: boolean; // Type-check with the project's tsconfig.json
+  eslint: boolean; // Lint with typescript-eslint's recommended rules; project configs are never loaded
+  onError: 'deny' | 'require_approval' | 'allow'; // Outcome when error diagnostics are found
+  extensions: string[]; // Files the gate checks, e.g. ['.ts', '.tsx']
+  projectsRoot: string; // Disk location of the virtual /projects root
+  ignore: string[]; // Diagnostic codes to drop, e.g. 'TS2307' or 'no-unused-vars'
+}
+
+export interface QualityDiagnostic {
+  source: 'typescript' | 'eslint';
+  severity: 'error' | 'warning';
+  code: string; // 'TS2322' or an ESLint rule id
+  message: string;
+  file: string; // Intent path of the checked file
+  line: number;
+  column: number;
+}
+
+// Migration support from the build protocol's `migration` section
+export interface MigrationSettings {
+  enabled: boolean; // Whether migration intents are parsed and executed
+}
+
+// A migration recorded in a project's drizzle journal
+export interface AppliedMigration {
+  idx: number;
+  tag: string; // File name without extension, e.g. 0003_add_users
+  project: string;
+  appliedAt: string;
+  up: string;
+  down: string | null; // Null when the down script is missing
+}
+
+// Outcome of running a migration against a scratch copy of the stand-in database
+export interface MigrationDryRun {
+  ok: boolean;
+  error?: string;
+  schemaChanges: string[]; // e.g. "+ table users", "- column users.email"
+  roundTrip: 'verified' | 'failed' | 'skipped'; // Whether the reverse script restores the starting schema
+  roundTripError?: string;
+}
+
+export interface SecretFinding {
+  kind: string;
+  field: string;
+  line: number;
+  masked: string; // Never the secret itself
+}
+
+// Budget consumed by and requested for one intent under a quota rule
+export interface QuotaUsage {
+  ruleId: string;
+  key: string; // Rule, scope and scope identifier the usage is counted under
+  used: number;
+  requested: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+// Governance simulation trace
+export type ConditionTrace =
+  | { kind: 'field'; field: string; operator: ConditionOperator; expected: any; actual: any; passed: boolean }
+  | { kind: 'all' | 'any'; passed: boolean; children: ConditionTrace[] }
+  | { kind: 'not'; passed: boolean; child: ConditionTrace }
+  | { kind: 'schedule'; schedule: ScheduleSpec; at: string; passed: boolean };
+
+export interface RuleTrace {
+  ruleId: string;
+  name: string;
+  action: GovernanceRule['action'];
+  priority: number;
+  intentTypeMatched: boolean;
+  matched: boolean;
+  conditions: ConditionTrace[];
+  quota?: QuotaUsage; // Budget check of a matched quota rule
+}
+
+export interface GovernanceSimulation {
+  validation: ValidationResult;
+  combiningAlgorithm: CombiningAlgorithm;
+  trace: RuleTrace[];
+}
+
+// Result of loading system/build-protocol.json. An invalid protocol denies every intent,
+// unless it replaced a valid one: then the last good policy stays in force.
+export interface ProtocolStatus {
+  valid: boolean;
+  version?: string; // Version after migration
+  migratedFrom?: string; // Version found on disk when a migration was applied
+  usingLastGood?: boolean; // The file is invalid and the previously loaded policy is enforced
+  errors: string[];
+}
+
+// Difference between two loaded policies, by rule id
+export interface GovernanceRuleDiff {
+  added: string[];
+  removed: string[];
+  changed: string[];
+  settingsChanged: boolean; // Governance settings or policy tests
+}
+
+export interface GovernanceUpdateEvent {
+  source: 'file' | 'api'; // Edited on disk, or saved through the rule API
+  version?: string;
+  ruleCount: number;
+  diff: GovernanceRuleDiff;
+  updatedAt: string;
+}
+
+export interface GovernanceReloadFailedEvent {
+  errors: string[];
+  keptLastGood: boolean;
+  failedAt: string;
+}
+
+// Identity of the person a request acts for, resolved by the host application
+export interface UserContext {
+  id: string;
+  role: 'viewer' | 'developer' | 'maintainer' | 'admin';
+  permissions: string[];
 }
 
 // Execution Types
 export interface ExecutionContext {
   intent: Intent;
   validation: ValidationResult;
-  user?: {
-    id: string;
-    permissions: string[];
-  };
+  user?: UserContext;
   environment: {
     workingDirectory: string;
     nodeEnv: string;
@@ -173,9 +459,62 @@ export interface AuditEntry {
     userId?: string;
     sessionId: string;
   };
+  changesetId?: string;
   outcome: 'processed' | 'rejected' | 'failed' | 'pending_approval';
 }
 
+// Approval Types
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executed';
+
+export interface ApprovalRecord {
+  intentId: string;
+  intent: Intent;
+  validation: ValidationResult;
+  source: {
+    chatMessage?: string;
+    userId?: string;
+    sessionId: string;
+  };
+  changesetId?: string;
+  status: ApprovalStatus;
+  requestedAt: Date;
+  expiresAt: Date;
+  reviewer?: string;
+  reviewedAt?: Date;
+  reason?: string;
+  executedAt?: Date;
+  execution?: ExecutionResult;
+}
+
+// Changeset Types
+export interface ChangesetOperation {
+  intentId: string;
+  operation: FileOperationIntent['operation'];
+  targetPath: string;
+  content?: string;
+  newPath?: string;
+  hunks?: DiffHunk[];
+}
+
+export interface ChangesetApprovedEvent {
+  changesetId: string;
+  operations: ChangesetOperation[];
+  timestamp: Date;
+  userId?: string;
+  sessionId: string;
+}
+
+// What actually happened to an approved changeset on disk
+export interface ChangesetOutcome {
+  changesetId: string;
+  status: 'applied' | 'failed';
+  error?: string;
+  results: Array<{ intentId: string; success: boolean; error?: string }>;
+}
+
+// Applies approved changesets; registered by the Execution Engine
+export type ChangesetApplier = (changeset: ChangesetApprovedEvent) => Promise<ChangesetOutcome>;
+
 // Agent Bridge Types
 export interface AgentBridgeConfig {
   enableIntentParsing: boolean;
@@ -186,6 +525,22 @@ export interface AgentBridgeConfig {
   auditLogPath: string;
   maxConcurrentIntents: number;
   intentTimeout: number;
+  approvalTimeout: number;
+}
+
+// Intent Parser Types
+export type IntentParserMode = 'regex' | 'tool_use';
+
+export interface ToolCall {
+  name: string;
+  input: Record<string, any>;
+}
+
+export interface IntentParserSettings {
+  mode: IntentParserMode;
+  provider: 'anthropic' | 'recorded';
+  recordingsPath?: string;
+  model?: string;
 }
 
 export interface ParsedChatOutput {
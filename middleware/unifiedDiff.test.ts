@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseUnifiedDiff, applyHunks } from './unifiedDiff';
+import { DiffHunk } from './types';
+
+const ORIGINAL = ['one', 'two', 'three', 'four', 'five', 'six', 'seven'].join('\n') + '\n';
+
+function hunk(oldStart: number, oldLines: number, newStart: number, newLines: number, lines: string[]): DiffHunk {
+  return { oldStart, oldLines, newStart, newLines, lines };
+}
+
+describe('parseUnifiedDiff', () => {
+  it('splits a multi-file diff into hunks and strips a/ b/ prefixes', () => {
+    const files = parseUnifiedDiff([
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+      '--- /dev/null',
+      '+++ b/src/b.ts',
+      '@@ -0,0 +1 @@',
+      '+created',
+    ].join('\n'));
+
+    const [modified, created] = files;
+    assert.equal(files.length, 2);
+    assert.ok(modified && created);
+    assert.equal(modified.oldPath, 'src/a.ts');
+    assert.deepEqual(modified.hunks[0]?.lines, [' keep', '-old', '+new']);
+    assert.equal(created.oldPath, null);
+    assert.equal(created.newPath, 'src/b.ts');
+    assert.deepEqual(created.hunks, [hunk(0, 0, 1, 1, ['+created'])]);
+  });
+
+  it('keeps empty context lines and skips no-newline markers', () => {
+    const [file] = parseUnifiedDiff([
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1,3 +1,3 @@',
+      ' a',
+      '',
+      '-b',
+      '\\ No newline at end of file',
+      '+c',
+    ].join('\r\n'));
+
+    assert.deepEqual(file?.hunks[0]?.lines, [' a', ' ', '-b', '+c']);
+  });
+
+  it('stops a hunk once its line counts are used up', () => {
+    const [file] = parseUnifiedDiff(['--- a/x', '+++ b/x', '@@ -1 +1 @@', '-a', '+b', ' trailing prose'].join('\n'));
+    assert.deepEqual(file?.hunks[0]?.lines, ['-a', '+b']);
+  });
+});
+
+describe('applyHunks', () => {
+  it('applies a hunk at its recorded position', () => {
+    const result = applyHunks(ORIGINAL, [hunk(2, 3, 2, 3, [' two', '-three', '+THREE', ' four'])]);
+    assert.equal(result.content, ORIGINAL.replace('three', 'THREE'));
+    assert.deepEqual(result.appliedHunks, [0]);
+  });
+
+  it('finds context that moved since the diff was made', () => {
+    const shifted = `zero\nzero\n${ORIGINAL}`;
+    const result = applyHunks(shifted, [hunk(4, 3, 4, 3, [' four', '-five', '+FIVE', ' six'])]);
+    assert.equal(result.content, shifted.replace('five', 'FIVE'));
+  });
+
+  it('carries the line offset of earlier hunks into later ones', () => {
+    const result = applyHunks(ORIGINAL, [
+      hunk(1, 1, 1, 3, ['-one', '+one', '+one and a half', '+one and three quarters']),
+      hunk(6, 2, 8, 2, [' six', '-seven', '+SEVEN']),
+    ]);
+    assert.deepEqual(result.appliedHunks, [0, 1]);
+    assert.match(result.content, /one and three quarters\ntwo/);
+    assert.match(result.content, /six\nSEVEN\n$/);
+  });
+
+  it('drops mismatched outer context up to the fuzz factor', () => {
+    const edited = ORIGINAL.replace('two', 'TWO').replace('four', 'FOUR');
+    const result = applyHunks(edited, [hunk(2, 3, 2, 3, [' two', '-three', '+3', ' four'])], 1);
+    assert.deepEqual(result.rejectedHunks, []);
+    assert.equal(result.content, edited.replace('three', '3'));
+  });
+
+  it('rejects a hunk whose context is off by more than the fuzz factor', () => {
+    const edited = ORIGINAL.replace('two', 'TWO');
+    const result = applyHunks(edited, [hunk(2, 3, 2, 3, [' two', '-three', '+3', ' four'])], 0);
+    assert.equal(result.content, edited);
+    assert.equal(result.rejectedHunks.length, 1);
+    assert.match(result.rejectedHunks[0]?.reason ?? '', /fuzz 0/);
+  });
+
+  it('never fuzzes away every line a hunk removes against', () => {
+    const result = applyHunks('a\nb\n', [hunk(1, 2, 1, 1, [' x', ' y'])], 2);
+    assert.equal(result.rejectedHunks.length, 1);
+  });
+
+  it('inserts a pure addition after its anchor line', () => {
+    const result = applyHunks(ORIGINAL, [hunk(2, 0, 3, 1, ['+two and a half'])]);
+    assert.match(result.content, /^one\ntwo\ntwo and a half\nthree\n/);
+  });
+
+  it('creates content from an empty file and keeps the trailing newline state', () => {
+    assert.equal(applyHunks('', [hunk(0, 0, 1, 2, ['+a', '+b'])]).content, 'a\nb\n');
+    assert.equal(applyHunks('a\nb', [hunk(2, 1, 2, 1, ['-b', '+c'])]).content, 'a\nc');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Unified Diff - Agent Bridge Middleware v2.0
+ * Parses unified diffs and applies hunks with context matching and fuzz
+ */
+
+import { DiffHunk, RejectedHunk } from './types';
+
+export interface FileDiff {
+  oldPath: string | null; // null for /dev/null (file creation)
+  newPath: string | null; // null for /dev/null (file deletion)
+  hunks: DiffHunk[];
+}
+
+export interface PatchResult {
+  content: string;
+  appliedHunks: number[];
+  rejectedHunks: RejectedHunk[];
+}
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parse unified diff text into per-file hunks
+ */
+export function parseUnifiedDiff(diffText: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  const lines = diffText.replace(/\r\n/g, '\n').split('\n');
+  let currentFile: FileDiff | null = null;
+  let currentHunk: DiffHunk | null = null;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+    const next = lines[i + 1];
+
+    if (currentHunk && (remainingOld > 0 || remainingNew > 0)) {
+      // Some tools drop the leading space of empty context lines
+      const hunkLine = line === '' ? ' ' : line;
+      const marker = hunkLine[0];
+
+      if (marker === ' ' || marker === '-' || marker === '+') {
+        currentHunk.lines.push(hunkLine);
+        if (marker !== '+') remainingOld--;
+        if (marker !== '-') remainingNew--;
+        continue;
+      }
+      if (marker !== '\\') {
+        currentHunk = null;
+      }
+    }
+
+    if (line.startsWith('--- ') && next?.startsWith('+++ ')) {
+      currentFile = {
+        oldPath: parseHeaderPath(line.slice(4)),
+        newPath: parseHeaderPath(next.slice(4)),
+        hunks: [],
+      };
+      files.push(currentFile);
+      currentHunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER_PATTERN);
+    if (header && currentFile) {
+      currentHunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      remainingOld = currentHunk.oldLines;
+      remainingNew = currentHunk.newLines;
+      currentFile.hunks.push(currentHunk);
+    }
+  }
+
+  return files.filter(file => file.hunks.length > 0);
+}
+
+/**
+ * Apply hunks to content, searching near the expected line and relaxing
+ * up to `fuzz` leading/trailing context lines when an exact match fails
+ */
+export function applyHunks(content: string, hunks: DiffHunk[], fuzz: number = 2): PatchResult {
+  const hasTrailingNewline = content.endsWith('\n');
+  const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const appliedHunks: number[] = [];
+  const rejectedHunks: RejectedHunk[] = [];
+  let offset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const match = locateHunk(lines, hunk, offset, fuzz);
+
+    if (!match) {
+      rejectedHunks.push({
+        index,
+        hunk,
+        reason: `Context did not match near line ${hunk.oldStart} (fuzz ${fuzz})`,
+      });
+      return;
+    }
+
+    lines.splice(match.position, match.oldLines.length, ...match.newLines);
+    offset += match.newLines.length - match.oldLines.length;
+    appliedHunks.push(index);
+  });
+
+  const patched = lines.join('\n');
+  return {
+    content: lines.length > 0 && (hasTrailingNewline || content === '') ? `${patched}\n` : patched,
+    appliedHunks,
+    rejectedHunks,
+  };
+}
+
+function locateHunk(
+  lines: string[],
+  hunk: DiffHunk,
+  offset: number,
+  maxFuzz: number
+): { position: number; oldLines: string[]; newLines: string[] } | null {
+  const leadingContext = countContext(hunk.lines);
+  const trailingContext = countContext([...hunk.lines].reverse());
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    const dropLeading = Math.min(fuzz, leadingContext);
+    const dropTrailing = Math.min(fuzz, trailingContext);
+    if (fuzz > 0 && dropLeading === 0 && dropTrailing === 0) {
+      break;
+    }
+
+    const body = hunk.lines.slice(dropLeading, hunk.lines.length - dropTrailing);
+    const oldLines = body.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+    const newLines = body.filter(line => !line.startsWith('-')).map(line => line.slice(1));
+
+    // A pure insertion (-N,0) goes after line N; otherwise the hunk starts at line N
+    const anchor = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const expected = Math.max(0, Math.min(lines.length, anchor + offset + dropLeading));
+
+    if (oldLines.length === 0) {
+      // Fuzz must never strip every anchoring line from a hunk
+      if (hunk.oldLines > 0) {
+        break;
+      }
+      return { position: expected, oldLines, newLines };
+    }
+
+    for (let distance = 0; distance <= lines.length; distance++) {
+      for (const position of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+        if (position >= 0 && position + oldLines.length <= lines.length &&
+            oldLines.every((line, i) => lines[position + i] === line)) {
+          return { position, oldLines, newLines };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function countContext(hunkLines: string[]): number {
+  let count = 0;
+  while (hunkLines[count]?.startsWith(' ')) {
+    count++;
+  }
+  return count;
+}
+
+function parseHeaderPath(header: string): string | null {
+  const [filePath = ''] = header.split('\t').map(part => part.trim());
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  return filePath.replace(/^[ab]\//, '');
+}
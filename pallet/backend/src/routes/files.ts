@@ -25,7 +25,7 @@ router.get('/', async (req, res) => {
 router.get('*', async (req, res) => {
   try {
     const filePath = (req.params as any)['0'];
-    const safePath = resolveSafePath(filePath, workspaceRoot);
+    const safePath = await resolveSafePath(filePath, workspaceRoot);
     
     const stats = await fs.stat(safePath);
     
@@ -54,7 +54,7 @@ router.post('*', async (req, res) => {
   try {
     const filePath = (req.params as any)['0'];
     const { content } = req.body;
-    const safePath = resolveSafePath(filePath, workspaceRoot);
+    const safePath = await resolveSafePath(filePath, workspaceRoot);
     
     // Ensure parent directory exists
     await ensureDirectory(path.dirname(safePath));
@@ -78,7 +78,7 @@ router.post('*', async (req, res) => {
 router.delete('*', async (req, res) => {
   try {
     const filePath = (req.params as any)['0'];
-    const safePath = resolveSafePath(filePath, workspaceRoot);
+    const safePath = await resolveSafePath(filePath, workspaceRoot);
     
     const stats = await fs.stat(safePath);
     
@@ -4,9 +4,20 @@
 
 import express from 'express';
 import { agentBridge } from '../services/middleware/index.js';
+import { pickConfigUpdates } from '../services/middleware/config-updates.js';
+import type { ApprovalStatus } from '../services/middleware/types.js';
 
 const router = express.Router();
 
+const APPROVAL_STATUSES: ApprovalStatus[] = ['pending', 'approved', 'rejected', 'expired', 'executed'];
+
+// Map approval lifecycle errors onto HTTP status codes
+function approvalErrorStatus(message: string): number {
+  if (message.includes('not found')) return 404;
+  if (message.includes('is not pending')) return 409;
+  return 500;
+}
+
 // Get middleware status
 router.get('/status', (req, res) => {
   try {
@@ -46,25 +57,92 @@ router.get('/config', (req, res) => {
   }
 });
 
-// Get pending approvals (placeholder for future implementation)
-router.get('/approvals', (req, res) => {
+// Update runtime configuration
+router.put('/config', (req, res) => {
   try {
-    // This would return pending intents requiring manual approval
-    res.json({
-      pending: [],
-      total: 0,
-      message: 'Approval system ready for implementation',
-    });
+    const { updates, errors } = pickConfigUpdates(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid configuration', details: errors });
+    }
+
+    agentBridge.updateConfig(updates);
+    return res.json(agentBridge.getConfig());
+  } catch (error) {
+    console.error('[Middleware] Error updating config:', error);
+    return res.status(500).json({ error: 'Failed to update configuration' });
+  }
+});
+
+// Get approvals, pending ones unless ?status=<status|all> is given
+router.get('/approvals', async (req, res) => {
+  const status = (req.query.status as string | undefined) || 'pending';
+  if (status !== 'all' && !APPROVAL_STATUSES.includes(status as ApprovalStatus)) {
+    return res.status(400).json({ error: `Unknown approval status: ${status}` });
+  }
+
+  try {
+    return res.json(await agentBridge.getApprovals(status === 'all' ? undefined : status as ApprovalStatus));
   } catch (error) {
     console.error('[Middleware] Error getting approvals:', error);
-    res.status(500).json({ error: 'Failed to get pending approvals' });
+    return res.status(500).json({ error: 'Failed to get approvals' });
+  }
+});
+
+// Approve a pending intent
+router.post('/approve/:intentId', async (req, res) => {
+  try {
+    const { sessionId = 'approval-session', userId, reason } = req.body || {};
+    const execution = await agentBridge.approveIntent(req.params.intentId, sessionId, userId, reason);
+    return res.json(execution);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Middleware] Error approving intent:', error);
+    return res.status(approvalErrorStatus(message)).json({ error: message });
+  }
+});
+
+// Reject a pending intent
+router.post('/reject/:intentId', async (req, res) => {
+  try {
+    const { userId, reason } = req.body || {};
+    return res.json(await agentBridge.rejectIntent(req.params.intentId, userId, reason));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Middleware] Error rejecting intent:', error);
+    return res.status(approvalErrorStatus(message)).json({ error: message });
+  }
+});
+
+// Get governance rules
+router.get('/rules', async (req, res) => {
+  try {
+    res.json(await agentBridge.getGovernanceRules());
+  } catch (error) {
+    console.error('[Middleware] Error getting governance rules:', error);
+    res.status(500).json({ error: 'Failed to get governance rules' });
+  }
+});
+
+// Replace governance rules
+router.put('/rules', async (req, res) => {
+  try {
+    const rules = Array.isArray(req.body) ? req.body : req.body?.rules;
+    if (!Array.isArray(rules)) {
+      return res.status(400).json({ error: 'Request body must contain a rules array' });
+    }
+
+    await agentBridge.updateGovernanceRules(rules);
+    return res.json(await agentBridge.getGovernanceRules());
+  } catch (error) {
+    console.error('[Middleware] Error updating governance rules:', error);
+    return res.status(500).json({ error: 'Failed to update governance rules' });
   }
 });
 
 // Process intent manually (for testing)
 router.post('/process', async (req, res) => {
   try {
-    const { message, sessionId = 'manual-session', userId = 'manual-user' } = req.body;
+    const { message, sessionId = 'manual-session', userId = 'manual-user', autoExecute = false } = req.body;
     
     if (!message) {
       return res.status(400).json({ error: 'Message is required' });
@@ -72,7 +150,7 @@ router.post('/process', async (req, res) => {
 
     const result = await agentBridge.processChatMessage(message, sessionId, {
       userId,
-      autoExecute: true,
+      autoExecute,
     });
 
     return res.json(result);
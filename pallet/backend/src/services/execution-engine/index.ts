@@ -7,7 +7,7 @@ import { EventEmitter } from 'events';
 import fs from 'fs/promises';
 import path from 'path';
 import { nanoid } from 'nanoid';
-import { ensureDirectory, resolveSafePath, isWithinWorkspace } from '../../utils/filesystem.js';
+import { ensureDirectory, resolveSafePath } from '../../utils/filesystem.js';
 
 export interface FileOperationEvent {
   intentId: string;
@@ -148,7 +148,7 @@ export class ExecutionEngine extends EventEmitter {
       console.log(`[ExecutionEngine] Processing ${event.operation} on ${event.targetPath}`);
       
       // Validate operation
-      this.validateOperation(event);
+      await this.validateOperation(event);
       
       // Execute the operation
       let result: ExecutionResult;
@@ -216,7 +216,7 @@ export class ExecutionEngine extends EventEmitter {
   /**
    * Validate file operation
    */
-  private validateOperation(event: FileOperationEvent): void {
+  private async validateOperation(event: FileOperationEvent): Promise<void> {
     // Check file extension
     const ext = path.extname(event.targetPath);
     if (ext && !this.allowedExtensions.includes(ext)) {
@@ -228,18 +228,15 @@ export class ExecutionEngine extends EventEmitter {
       throw new Error(`File content exceeds maximum size limit (${this.maxFileSize} bytes)`);
     }
 
-    // Validate path is within workspace
-    const safePath = resolveSafePath(event.targetPath, this.workspaceRoot);
-    if (!isWithinWorkspace(safePath, this.workspaceRoot)) {
-      throw new Error(`Path ${event.targetPath} is outside allowed workspace`);
-    }
+    // Validate path is within workspace (throws when it resolves outside)
+    await resolveSafePath(event.targetPath, this.workspaceRoot);
   }
 
   /**
    * Execute file creation
    */
   private async executeCreateFile(event: FileOperationEvent, startTime: number): Promise<ExecutionResult> {
-    const safePath = resolveSafePath(event.targetPath, this.workspaceRoot);
+    const safePath = await resolveSafePath(event.targetPath, this.workspaceRoot);
     
     // Ensure parent directory exists
     await ensureDirectory(path.dirname(safePath));
@@ -264,7 +261,7 @@ export class ExecutionEngine extends EventEmitter {
    * Execute file update
    */
   private async executeUpdateFile(event: FileOperationEvent, startTime: number): Promise<ExecutionResult> {
-    const safePath = resolveSafePath(event.targetPath, this.workspaceRoot);
+    const safePath = await resolveSafePath(event.targetPath, this.workspaceRoot);
     
     // Write file content (overwrite existing)
     await fs.writeFile(safePath, event.content || '', 'utf8');
@@ -286,7 +283,7 @@ export class ExecutionEngine extends EventEmitter {
    * Execute file deletion
    */
   private async executeDeleteFile(event: FileOperationEvent, startTime: number): Promise<ExecutionResult> {
-    const safePath = resolveSafePath(event.targetPath, this.workspaceRoot);
+    const safePath = await resolveSafePath(event.targetPath, this.workspaceRoot);
     
     // Check if file exists
     try {
@@ -11,8 +11,12 @@ import type {
   ParsedChatOutput, 
   ExecutionContext, 
   ExecutionResult,
-  ValidationResult
+  ValidationResult,
+  GovernanceRule,
+  ApprovalRecord,
+  ApprovalStatus
 } from './types.js';
+import { ApprovalStore } from './approval-store.js';
 import { IntentParser } from './intent-parser.js';
 import { GovernanceValidator } from './governance-validator.js';
 import { ExecutionRouter } from './execution-router.js';
@@ -24,6 +28,7 @@ export class AgentBridge extends EventEmitter {
   private validator: GovernanceValidator;
   private router: ExecutionRouter;
   private auditor: AuditLogger;
+  private approvals: ApprovalStore;
   private isInitialized = false;
 
   private constructor() {
@@ -32,6 +37,7 @@ export class AgentBridge extends EventEmitter {
     this.validator = new GovernanceValidator();
     this.router = ExecutionRouter.getInstance();
     this.auditor = AuditLogger.getInstance();
+    this.approvals = ApprovalStore.getInstance();
   }
 
   public static getInstance(): AgentBridge {
@@ -155,6 +161,16 @@ export class AgentBridge extends EventEmitter {
       }
     }
 
+    // Queue intents flagged by governance for manual approval
+    if (validation.isValid && validation.requiresApproval) {
+      await this.approvals.enqueue(
+        intent,
+        validation,
+        { sessionId, ...(options.userId && { userId: options.userId }) },
+        this.config.approvalTimeout
+      );
+    }
+
     // Step 3: Audit the entire process
     if (this.config.enableAudit) {
       await this.auditor.logIntentProcessing(
@@ -175,6 +191,138 @@ export class AgentBridge extends EventEmitter {
     };
   }
 
+  /**
+   * List approval records, newest first; all statuses when none is given
+   */
+  public async getApprovals(
+    status?: ApprovalStatus
+  ): Promise<ApprovalRecord[]> {
+    return this.approvals.list(status);
+  }
+
+  /**
+   * Approve and execute a pending intent
+   */
+  public async approveIntent(
+    intentId: string,
+    sessionId: string,
+    userId?: string,
+    reason?: string
+  ): Promise<ExecutionResult> {
+    const record = await this.approvals.approve(intentId, userId, reason);
+
+    const approvedValidation: ValidationResult = { ...record.validation, requiresApproval: false };
+    let execution: ExecutionResult;
+    try {
+      execution = await this.processApprovedIntent(record.intent, approvedValidation, sessionId, userId);
+    } catch (error: unknown) {
+      execution = {
+        success: false,
+        intent: record.intent,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: 0,
+      };
+    }
+
+    await this.approvals.markExecuted(intentId, execution);
+    return execution;
+  }
+
+  /**
+   * Reject a pending intent
+   */
+  public async rejectIntent(
+    intentId: string,
+    userId?: string,
+    reason?: string
+  ): Promise<ApprovalRecord> {
+    const record = await this.approvals.reject(intentId, userId, reason);
+
+    if (this.config.enableAudit) {
+      await this.auditor.logIntentProcessing(
+        record.intent,
+        {
+          ...record.validation,
+          isValid: false,
+          errors: [...record.validation.errors, `Rejected by ${userId || 'reviewer'}${reason ? `: ${reason}` : ''}`],
+          requiresApproval: false,
+        },
+        undefined,
+        { ...record.source, ...(userId && { userId }) }
+      );
+    }
+
+    return record;
+  }
+
+  /**
+   * Execute an approved intent and audit the outcome
+   */
+  private async processApprovedIntent(
+    intent: Intent,
+    validation: ValidationResult,
+    sessionId: string,
+    userId?: string
+  ): Promise<ExecutionResult> {
+    const context: ExecutionContext = {
+      intent,
+      validation,
+      environment: {
+        workingDirectory: process.env.PROJECTS_PATH || '/app/projects',
+        nodeEnv: process.env.NODE_ENV || 'development',
+        restrictions: [],
+      },
+      ...(userId && { user: { id: userId, permissions: ['read', 'write'] } }),
+    };
+
+    const execution = await this.router.routeIntent(context);
+
+    if (execution.success && (intent.type === 'file_operation' || intent.type === 'code_generation')) {
+      this.emit('intent-approved', {
+        intentId: intent.id,
+        operation: (intent as any).operation || 'create',
+        targetPath: (intent as any).target?.file || (intent as any).target?.path,
+        content: (intent as any).target?.content,
+        newPath: (intent as any).target?.newPath,
+        timestamp: new Date(),
+        userId,
+        sessionId,
+        executionResult: execution,
+      });
+    }
+
+    if (this.config.enableAudit) {
+      await this.auditor.logIntentProcessing(intent, validation, execution, {
+        sessionId,
+        ...(userId && { userId }),
+      });
+    }
+
+    return execution;
+  }
+
+  /**
+   * Get governance rules
+   */
+  public async getGovernanceRules(): Promise<GovernanceRule[]> {
+    return this.validator.getRules();
+  }
+
+  /**
+   * Update governance rules
+   */
+  public async updateGovernanceRules(rules: GovernanceRule[]): Promise<void> {
+    await this.validator.updateRules(rules);
+  }
+
+  /**
+   * Update configuration
+   */
+  public updateConfig(config: Partial<AgentBridgeConfig>): void {
+    this.config = { ...this.config, ...config };
+    console.log('[AgentBridge] Configuration updated:', this.config);
+  }
+
   /**
    * Get default configuration
    */
@@ -188,6 +336,7 @@ export class AgentBridge extends EventEmitter {
       auditLogPath: process.env.AUDIT_LOG_PATH || '/app/system/audit',
       maxConcurrentIntents: parseInt(process.env.MIDDLEWARE_MAX_CONCURRENT_INTENTS || '3'),
       intentTimeout: parseInt(process.env.MIDDLEWARE_INTENT_TIMEOUT || '30000'),
+      approvalTimeout: parseInt(process.env.MIDDLEWARE_APPROVAL_TIMEOUT || String(24 * 60 * 60 * 1000)),
     };
   }
 
@@ -209,13 +358,25 @@ export class AgentBridge extends EventEmitter {
    * Health check
    */
   public getHealthStatus(): {
-    isInitialized: boolean;
+    initialized: boolean;
     config: AgentBridgeConfig;
+    components: {
+      intentParser: boolean;
+      governance: boolean;
+      execution: boolean;
+      audit: boolean;
+    };
     timestamp: string;
   } {
     return {
-      isInitialized: this.isInitialized,
+      initialized: this.isInitialized,
       config: this.config,
+      components: {
+        intentParser: this.config.enableIntentParsing,
+        governance: this.config.enableGovernance,
+        execution: this.config.enableExecution,
+        audit: this.config.enableAudit,
+      },
       timestamp: new Date().toISOString(),
     };
   }
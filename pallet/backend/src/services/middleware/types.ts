@@ -138,6 +138,27 @@ export interface AuditEntry {
   outcome: 'processed' | 'rejected' | 'failed' | 'pending_approval';
 }
 
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'expired' | 'executed';
+
+export interface ApprovalRecord {
+  intentId: string;
+  intent: Intent;
+  validation: ValidationResult;
+  source: {
+    chatMessage?: string;
+    userId?: string;
+    sessionId: string;
+  };
+  status: ApprovalStatus;
+  requestedAt: Date;
+  expiresAt: Date;
+  reviewer?: string;
+  reviewedAt?: Date;
+  reason?: string;
+  executedAt?: Date;
+  execution?: ExecutionResult;
+}
+
 export interface AgentBridgeConfig {
   enableIntentParsing: boolean;
   enableGovernance: boolean;
@@ -147,6 +168,7 @@ export interface AgentBridgeConfig {
   auditLogPath: string;
   maxConcurrentIntents: number;
   intentTimeout: number;
+  approvalTimeout: number;
 }
 
 export interface ParsedChatOutput {
@@ -33,31 +33,60 @@ export async function ensureDirectory(dirPath: string): Promise<void> {
 }
 
 /**
- * Check if a path is within the allowed workspace
+ * Check if a path is within the allowed workspace. Compares path segments, so
+ * `/app/projects-evil` is not within `/app/projects`.
  */
 export function isWithinWorkspace(filePath: string, workspaceRoot: string): boolean {
-  const normalizedPath = path.normalize(filePath);
-  const normalizedWorkspace = path.normalize(workspaceRoot);
-  
-  return normalizedPath.startsWith(normalizedWorkspace);
+  const relative = path.relative(path.resolve(workspaceRoot), path.resolve(filePath));
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
 }
 
 /**
- * Resolve a safe file path within the workspace
+ * Resolve symlinks in the longest existing prefix of a path; the missing remainder
+ * (files about to be created) is appended unchanged
  */
-export function resolveSafePath(filePath: string, workspaceRoot: string): string {
-  // Remove any path traversal attempts
-  const safePath = filePath.replace(/\.\./g, '');
-  
-  // Resolve relative to workspace root
-  const resolvedPath = path.resolve(workspaceRoot, safePath.startsWith('/') ? safePath.slice(1) : safePath);
-  
-  // Ensure it's within the workspace
-  if (!isWithinWorkspace(resolvedPath, workspaceRoot)) {
+async function realpathExisting(target: string): Promise<string> {
+  let existing = target;
+  const missing: string[] = [];
+
+  while (true) {
+    try {
+      const resolved = await fs.realpath(existing);
+      return missing.length > 0 ? path.join(resolved, ...missing.reverse()) : resolved;
+    } catch (error) {
+      if ((error as any).code !== 'ENOENT' && (error as any).code !== 'ENOTDIR') {
+        throw error;
+      }
+      const parent = path.dirname(existing);
+      if (parent === existing) {
+        return path.join(existing, ...missing.reverse());
+      }
+      missing.push(path.basename(existing));
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a safe file path within the workspace. `..` segments are applied rather than
+ * stripped and symlinks are followed, so the result is the file that would actually be
+ * touched; anything that lands outside the workspace is rejected.
+ */
+export async function resolveSafePath(filePath: string, workspaceRoot: string): Promise<string> {
+  const root = await realpathExisting(path.resolve(workspaceRoot));
+
+  // Workspace-absolute paths ("/src/App.jsx") are relative to the workspace root
+  const resolvedPath = path.resolve(root, filePath.startsWith('/') ? `.${filePath}` : filePath);
+  if (!isWithinWorkspace(resolvedPath, root)) {
     throw new Error(`Path ${filePath} is outside workspace ${workspaceRoot}`);
   }
-  
-  return resolvedPath;
+
+  const realPath = await realpathExisting(resolvedPath);
+  if (!isWithinWorkspace(realPath, root)) {
+    throw new Error(`Path ${filePath} resolves outside workspace ${workspaceRoot} through a symlink`);
+  }
+
+  return realPath;
 }
 
 /**
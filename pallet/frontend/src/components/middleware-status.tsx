@@ -1,10 +1,10 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Shield, Activity, AlertTriangle, CheckCircle, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface MiddlewareStatusProps {
   isVisible: boolean;
@@ -24,6 +24,16 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
     enabled: isVisible,
   });
 
+  const reviewMutation = useMutation({
+    mutationFn: async ({ intentId, action }: { intentId: string; action: "approve" | "reject" }) => {
+      const response = await apiRequest("POST", `/api/middleware/${action}/${intentId}`, {});
+      return response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/middleware/approvals"] });
+    },
+  });
+
   const { data: auditStats } = useQuery({
     queryKey: ["/api/middleware/audit"],
     refetchInterval: 30000,
@@ -114,14 +124,14 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-3">
-                      {Array.isArray(approvals) && approvals.slice(0, 5).map((approval: any, index: number) => (
-                        <div key={index} className="flex items-center justify-between p-3 rde-bg-accent rounded">
+                      {Array.isArray(approvals) && approvals.slice(0, 5).map((approval: any) => (
+                        <div key={approval.intentId} className="flex items-center justify-between p-3 rde-bg-accent rounded">
                           <div className="flex-1">
                             <p className="text-sm font-medium rde-text-primary">
                               {approval.intent.type.replace('_', ' ').toUpperCase()}
                             </p>
                             <p className="text-xs rde-text-secondary">
-                              {approval.intent.id} • {new Date(approval.timestamp).toLocaleTimeString()}
+                              {approval.intentId} • {new Date(approval.requestedAt).toLocaleTimeString()}
                             </p>
                           </div>
                           <div className="flex space-x-2">
@@ -129,10 +139,8 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
                               size="sm"
                               variant="outline"
                               className="text-xs"
-                              onClick={() => {
-                                // Handle approval
-                                apiRequest("POST", `/api/middleware/approve/${approval.intent.id}`, {});
-                              }}
+                              disabled={reviewMutation.isPending}
+                              onClick={() => reviewMutation.mutate({ intentId: approval.intentId, action: "approve" })}
                             >
                               Approve
                             </Button>
@@ -140,6 +148,8 @@ export default function MiddlewareStatus({ isVisible, onClose }: MiddlewareStatu
                               size="sm"
                               variant="ghost"
                               className="text-xs"
+                              disabled={reviewMutation.isPending}
+                              onClick={() => reviewMutation.mutate({ intentId: approval.intentId, action: "reject" })}
                             >
                               Reject
                             </Button>
@@ -0,0 +1,115 @@
+import type { Express } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { toUserContext } from "./requestUser";
+
+declare module "express-session" {
+  interface SessionData {
+    userId: number;
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const SESSION_MAX_AGE = 24 * 60 * 60 * 1000;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, 64);
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, salt, 64);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Create the first admin account. ADMIN_PASSWORD sets its password; without it a random
+ * one is generated and printed once, so a fresh server never starts with an open admin.
+ */
+async function ensureAdminUser(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME || "admin";
+  if (await storage.getUserByUsername(username)) {
+    return;
+  }
+
+  const password = process.env.ADMIN_PASSWORD || randomBytes(12).toString("base64url");
+  await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+  if (!process.env.ADMIN_PASSWORD) {
+    console.log(`[Auth] Created admin user '${username}' with password: ${password}`);
+  }
+}
+
+/**
+ * Cookie sessions plus login and logout routes. Request identity comes only from the
+ * session, see resolveRequestUser.
+ */
+export async function setupAuth(app: Express): Promise<void> {
+  const MemoryStore = createMemoryStore(session);
+
+  if (!process.env.SESSION_SECRET) {
+    console.warn("[Auth] SESSION_SECRET is not set; sessions will not survive a restart");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: SESSION_MAX_AGE }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+
+  await ensureAdminUser();
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const { username, password } = req.body ?? {};
+      if (typeof username !== "string" || typeof password !== "string") {
+        return res.status(400).json({ error: "username and password are required" });
+      }
+
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      req.session.regenerate((error) => {
+        if (error) {
+          console.error("[Auth] Session regeneration failed:", error);
+          return res.status(500).json({ error: "Failed to log in" });
+        }
+        req.session.userId = user.id;
+        res.json(toUserContext(user));
+      });
+    } catch (error) {
+      console.error("[Auth] Login failed:", error);
+      res.status(500).json({ error: "Failed to log in" });
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((error) => {
+      if (error) {
+        console.error("[Auth] Logout failed:", error);
+        return res.status(500).json({ error: "Failed to log out" });
+      }
+      res.clearCookie("connect.sid");
+      res.json({ success: true });
+    });
+  });
+}
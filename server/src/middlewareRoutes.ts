@@ -0,0 +1,473 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import type { AgentBridge } from "../../middleware/agentBridge.js";
+import type { ApprovalRecord, ApprovalStatus } from "../../middleware/types.js";
+import { pickConfigUpdates } from "../../middleware/configUpdates.js";
+import { applyHunks } from "../../middleware/unifiedDiff.js";
+import { analyzeMigration } from "../../middleware/sqlMigration.js";
+import { DEFAULT_PROJECT_PATH } from "../../middleware/pathResolver.js";
+import { RuleValidationError } from "../../middleware/conditionOperators.js";
+import { PolicyTestFailureError } from "../../middleware/policyTests.js";
+import { ChangeFreezeError } from "../../middleware/changeFreeze.js";
+import { PERMISSIONS, PermissionDeniedError, hasPermission } from "../../middleware/permissions.js";
+import { ROLE_PERMISSIONS, USER_ROLES, type UserRole } from "../../shared/schema.js";
+import { changeFreezeInputSchema, formatProtocolIssues } from "../../shared/governance.js";
+import { resolveRequestUser } from "./requestUser";
+import type { ExecutionEngine } from "./services/execution-engine/index";
+
+const APPROVAL_STATUSES: ApprovalStatus[] = ["pending", "approved", "rejected", "expired", "executed"];
+
+// Map approval lifecycle errors onto HTTP status codes
+function approvalErrorStatus(error: unknown, message: string): number {
+  if (error instanceof PermissionDeniedError) return 403;
+  if (error instanceof ChangeFreezeError) return 409;
+  if (message.includes("not found")) return 404;
+  if (message.includes("is not pending")) return 409;
+  return 500;
+}
+
+// Map migration listing and revert errors onto HTTP status codes
+function migrationErrorStatus(message: string): number {
+  if (message.includes("not found")) return 404;
+  if (message.includes("disabled") || message.includes("Only the latest") || message.includes("no down script")) return 409;
+  if (message.includes("already applied") || message.includes("Cannot revert")) return 409;
+  if (message.includes("project directory") || message.includes("outside")) return 400;
+  return 500;
+}
+
+// Describe what an approval would do: file diff, command or migration SQL, plus the rules that held it back
+async function buildApprovalPreview(record: ApprovalRecord, bridge: AgentBridge, executionEngine: ExecutionEngine | null) {
+  // Preview what will run: redacted secrets replace the raw values from the reply
+  const modifications = record.validation.modifications || {};
+  const raw = record.intent as any;
+  const intent = {
+    ...raw,
+    command: modifications["command"] ?? raw.command,
+    target: raw.target && {
+      ...raw.target,
+      content: modifications["target.content"] ?? raw.target.content,
+      hunks: modifications["target.hunks"] ?? raw.target.hunks,
+    },
+  };
+  const preview: Record<string, any> = {
+    intentId: record.intentId,
+    type: intent.type,
+    priority: intent.priority,
+    status: record.status,
+    requestedAt: record.requestedAt,
+    expiresAt: record.expiresAt,
+    appliedRules: record.validation.appliedRules,
+    warnings: record.validation.warnings,
+    errors: record.validation.errors,
+    secretFindings: record.validation.secretFindings || [],
+    transforms: record.validation.transforms || [],
+    diagnostics: record.validation.diagnostics || [],
+  };
+
+  if (intent.type === "file_operation" || intent.type === "code_generation") {
+    const targetPath: string = intent.target?.path || intent.target?.file;
+    const current = executionEngine && targetPath ? await executionEngine.readWorkspaceFile(targetPath) : null;
+    let proposed: string | null = intent.target?.content ?? null;
+    let rejectedHunks: unknown[] = [];
+
+    if (intent.operation === "delete") {
+      proposed = null;
+    } else if (intent.operation === "rename" || intent.operation === "move") {
+      proposed = current;
+    } else if (intent.operation === "patch") {
+      const patched = applyHunks(current ?? "", intent.target?.hunks || []);
+      proposed = patched.content;
+      rejectedHunks = patched.rejectedHunks;
+    }
+
+    preview.file = {
+      path: targetPath,
+      operation: intent.operation || "create",
+      newPath: intent.target?.newPath,
+      exists: current !== null,
+      current: current ?? "",
+      proposed: proposed ?? "",
+      rejectedHunks,
+      diskAvailable: executionEngine !== null,
+      // The AI's content before 'modify' rule transforms rewrote it
+      beforeTransforms: proposed !== null ? record.validation.contentBeforeTransforms : undefined,
+    };
+  } else if (intent.type === "terminal_command") {
+    preview.command = {
+      command: intent.command,
+      workingDirectory: intent.workingDirectory || "/projects/default-app",
+      timeout: intent.timeout,
+      requireConfirmation: intent.validation?.requireConfirmation ?? false,
+    };
+  } else if (intent.type === "migration") {
+    // A revert checks the down script on the stand-in and withdraws the up script drizzle has not applied yet
+    const reverting = intent.operation === "revert";
+    const analysis = reverting ? analyzeMigration(intent.down || "", intent.up) : analyzeMigration(intent.up, intent.down);
+    preview.migration = {
+      operation: intent.operation,
+      project: intent.project,
+      name: intent.name,
+      description: intent.description,
+      up: intent.up,
+      down: intent.down ?? null,
+      statements: analysis.statements.map(({ sql, kind, tables, destructive }) => ({ sql, kind, tables, destructive })),
+      destructive: analysis.destructive,
+      reversible: analysis.reversible,
+      parseError: analysis.parseError,
+      dryRun: await bridge.dryRunMigration(intent),
+    };
+  }
+
+  return preview;
+}
+
+/**
+ * REST surface for Agent Bridge Middleware, mounted at /api/middleware
+ */
+export function createMiddlewareRouter(
+  agentBridge: AgentBridge | null,
+  executionEngine: ExecutionEngine | null = null
+): Router {
+  const router = Router();
+
+  // Every endpoint needs a live Agent Bridge
+  router.use((_req: Request, res: Response, next: NextFunction) => {
+    if (!agentBridge) {
+      return res.status(503).json({ error: "Agent Bridge Middleware is not available" });
+    }
+    next();
+  });
+  const bridge = agentBridge as AgentBridge;
+
+  // Resolve the acting user for permission checks
+  router.use(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await resolveRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Unknown user" });
+      }
+      res.locals.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Policy and configuration changes are limited to users who manage rules
+  const requireRuleManager = <P>(_req: Request<P>, res: Response, next: NextFunction) => {
+    if (!hasPermission(res.locals.user, PERMISSIONS.MANAGE_RULES)) {
+      return res.status(403).json({ error: new PermissionDeniedError(res.locals.user, PERMISSIONS.MANAGE_RULES).message });
+    }
+    next();
+  };
+
+  // Health and component status
+  router.get("/status", async (_req, res) => {
+    try {
+      res.json({
+        ...bridge.getHealthStatus(),
+        protocol: await bridge.getProtocolStatus(),
+        uptime: process.uptime(),
+        memory: process.memoryUsage(),
+        nodeVersion: process.version,
+      });
+    } catch (error) {
+      console.error("[Middleware] Error getting status:", error);
+      res.status(500).json({ error: "Failed to get middleware status" });
+    }
+  });
+
+  // Runtime configuration
+  router.get("/config", (_req, res) => {
+    res.json(bridge.getConfig());
+  });
+
+  router.put("/config", requireRuleManager, (req, res) => {
+    const { updates, errors } = pickConfigUpdates(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Invalid configuration", details: errors });
+    }
+
+    bridge.updateConfig(updates);
+    res.json(bridge.getConfig());
+  });
+
+  // Approval workflow
+  router.get("/approvals", async (req, res) => {
+    const status = (req.query.status as string | undefined) || "pending";
+    if (status !== "all" && !APPROVAL_STATUSES.includes(status as ApprovalStatus)) {
+      return res.status(400).json({ error: `Unknown approval status: ${status}` });
+    }
+
+    try {
+      res.json(await bridge.getApprovals(status === "all" ? undefined : status as ApprovalStatus));
+    } catch (error) {
+      console.error("[Middleware] Error getting approvals:", error);
+      res.status(500).json({ error: "Failed to get approvals" });
+    }
+  });
+
+  router.get("/approvals/:intentId/preview", async (req, res) => {
+    try {
+      const record = await bridge.getApproval(req.params.intentId);
+      if (!record) {
+        return res.status(404).json({ error: `Intent ${req.params.intentId} not found in approval queue` });
+      }
+      res.json(await buildApprovalPreview(record, bridge, executionEngine));
+    } catch (error) {
+      console.error("[Middleware] Error building approval preview:", error);
+      res.status(500).json({ error: "Failed to build approval preview" });
+    }
+  });
+
+  router.post("/approve/:intentId", async (req, res) => {
+    try {
+      const { sessionId = "approval-session", reason, overrideFreeze = false } = req.body || {};
+      const execution = await bridge.approveIntent(req.params.intentId, sessionId, res.locals.user, reason, {
+        overrideFreeze: overrideFreeze === true,
+      });
+      res.json(execution);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("[Middleware] Error approving intent:", error);
+      res.status(approvalErrorStatus(error, message)).json({ error: message });
+    }
+  });
+
+  router.post("/reject/:intentId", async (req, res) => {
+    try {
+      const { reason } = req.body || {};
+      res.json(await bridge.rejectIntent(req.params.intentId, res.locals.user, reason));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("[Middleware] Error rejecting intent:", error);
+      res.status(approvalErrorStatus(error, message)).json({ error: message });
+    }
+  });
+
+  // Audit statistics
+  router.get("/audit", async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 7;
+      res.json(await bridge.getAuditStatistics(days));
+    } catch (error) {
+      console.error("[Middleware] Error getting audit stats:", error);
+      res.status(500).json({ error: "Failed to get audit statistics" });
+    }
+  });
+
+  // Governance rules
+  router.get("/rules", async (_req, res) => {
+    try {
+      res.json(await bridge.getGovernanceRules());
+    } catch (error) {
+      console.error("[Middleware] Error getting governance rules:", error);
+      res.status(500).json({ error: "Failed to get governance rules" });
+    }
+  });
+
+  router.put("/rules", requireRuleManager, async (req, res) => {
+    const rules = Array.isArray(req.body) ? req.body : req.body?.rules;
+    if (!Array.isArray(rules)) {
+      return res.status(400).json({ error: "Request body must contain a rules array" });
+    }
+
+    try {
+      const version = await bridge.updateGovernanceRules(rules, req.body?.note);
+      res.json({ rules: await bridge.getGovernanceRules(), version });
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        return res.status(400).json({ error: "Invalid governance rules", details: error.errors });
+      }
+      if (error instanceof PolicyTestFailureError) {
+        return res.status(409).json({ error: "Rule change breaks policy tests", details: error.failures, report: error.report });
+      }
+      console.error("[Middleware] Error updating governance rules:", error);
+      res.status(500).json({ error: "Failed to update governance rules" });
+    }
+  });
+
+  router.get("/rules/history", async (_req, res) => {
+    try {
+      res.json(await bridge.getGovernanceRuleHistory());
+    } catch (error) {
+      console.error("[Middleware] Error getting rule history:", error);
+      res.status(500).json({ error: "Failed to get governance rule history" });
+    }
+  });
+
+  router.post("/rules/revert/:versionId", requireRuleManager, async (req, res) => {
+    try {
+      const version = await bridge.revertGovernanceRules(req.params.versionId);
+      res.json({ rules: await bridge.getGovernanceRules(), version });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      if (error instanceof RuleValidationError) {
+        return res.status(400).json({ error: "Invalid governance rules", details: error.errors });
+      }
+      if (error instanceof PolicyTestFailureError) {
+        return res.status(409).json({ error: "Reverting breaks policy tests", details: error.failures, report: error.report });
+      }
+      console.error("[Middleware] Error reverting governance rules:", error);
+      res.status(message.includes("not found") ? 404 : 500).json({ error: message });
+    }
+  });
+
+  router.get("/quotas", async (_req, res) => {
+    try {
+      res.json(await bridge.getQuotaUsage());
+    } catch (error) {
+      console.error("[Middleware] Error getting quota usage:", error);
+      res.status(500).json({ error: "Failed to get quota usage" });
+    }
+  });
+
+  // Explain how governance would treat an intent or chat message, without executing it
+  router.post("/governance/simulate", async (req, res) => {
+    const { intent, message, rules, role, at } = req.body || {};
+    if (!intent && !message) {
+      return res.status(400).json({ error: "Either intent or message is required" });
+    }
+    if (intent && typeof intent.type !== "string") {
+      return res.status(400).json({ error: "Intent must have a type" });
+    }
+    if (rules !== undefined && !Array.isArray(rules)) {
+      return res.status(400).json({ error: "Rules must be an array" });
+    }
+    if (role !== undefined && !USER_ROLES.includes(role)) {
+      return res.status(400).json({ error: `Role must be one of: ${USER_ROLES.join(", ")}` });
+    }
+    // Optionally evaluate at another time to check schedule conditions
+    const evaluatedAt = at !== undefined ? new Date(at) : undefined;
+    if (evaluatedAt && isNaN(evaluatedAt.getTime())) {
+      return res.status(400).json({ error: "at must be an ISO timestamp" });
+    }
+
+    // Optionally simulate as another role to see how role conditions behave
+    const user = role
+      ? { id: "simulated", role: role as UserRole, permissions: ROLE_PERMISSIONS[role as UserRole] }
+      : res.locals.user;
+
+    try {
+      res.json(await bridge.simulateGovernance({ intent, message, rules, user, at: evaluatedAt }));
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        return res.status(400).json({ error: "Invalid governance rules", details: error.errors });
+      }
+      console.error("[Middleware] Error simulating governance:", error);
+      res.status(500).json({ error: "Failed to simulate governance" });
+    }
+  });
+
+  // Change freeze: while declared, matching intents are denied or held for approval
+  router.get("/governance/freeze", async (_req, res) => {
+    try {
+      res.json({ freeze: await bridge.getChangeFreeze() });
+    } catch (error) {
+      console.error("[Middleware] Error getting change freeze:", error);
+      res.status(500).json({ error: "Failed to get change freeze" });
+    }
+  });
+
+  router.post("/governance/freeze", requireRuleManager, async (req, res) => {
+    const parsed = changeFreezeInputSchema.safeParse(req.body || {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid change freeze", details: formatProtocolIssues(parsed.error) });
+    }
+    if (parsed.data.until && new Date(parsed.data.until) <= new Date()) {
+      return res.status(400).json({ error: "until must be in the future" });
+    }
+
+    try {
+      res.json({ freeze: await bridge.declareChangeFreeze(parsed.data, res.locals.user) });
+    } catch (error) {
+      console.error("[Middleware] Error declaring change freeze:", error);
+      res.status(500).json({ error: "Failed to declare change freeze" });
+    }
+  });
+
+  router.delete("/governance/freeze", requireRuleManager, async (_req, res) => {
+    try {
+      res.json({ lifted: await bridge.liftChangeFreeze() });
+    } catch (error) {
+      console.error("[Middleware] Error lifting change freeze:", error);
+      res.status(500).json({ error: "Failed to lift change freeze" });
+    }
+  });
+
+  // Run the build protocol's policy tests against the saved rules or a draft
+  router.post("/governance/tests/run", async (req, res) => {
+    const { rules } = req.body || {};
+    if (rules !== undefined && !Array.isArray(rules)) {
+      return res.status(400).json({ error: "Rules must be an array" });
+    }
+
+    try {
+      res.json(await bridge.runPolicyTests(rules));
+    } catch (error) {
+      if (error instanceof RuleValidationError) {
+        return res.status(400).json({ error: "Invalid governance rules", details: error.errors });
+      }
+      console.error("[Middleware] Error running policy tests:", error);
+      res.status(500).json({ error: "Failed to run policy tests" });
+    }
+  });
+
+  // Migrations applied to a project through migration intents
+  router.get("/migrations", async (req, res) => {
+    const project = (req.query.project as string | undefined) || DEFAULT_PROJECT_PATH;
+
+    try {
+      res.json({
+        project,
+        enabled: (await bridge.getMigrationSettings()).enabled,
+        migrations: await bridge.listMigrations(project),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("[Middleware] Error listing migrations:", error);
+      res.status(migrationErrorStatus(message)).json({ error: message });
+    }
+  });
+
+  // Revert the latest migration; governance may hold the revert for approval
+  router.post("/migrations/:tag/revert", async (req, res) => {
+    if (!hasPermission(res.locals.user, PERMISSIONS.EXECUTE)) {
+      return res.status(403).json({ error: new PermissionDeniedError(res.locals.user, PERMISSIONS.EXECUTE).message });
+    }
+    const { project = DEFAULT_PROJECT_PATH, sessionId = "migration-session" } = req.body || {};
+
+    try {
+      const { intent, validation, execution } = await bridge.revertMigration(project, req.params.tag, sessionId, res.locals.user);
+      res.json({
+        intentId: intent.id,
+        decision: validation.decision,
+        decidedBy: validation.decidedBy,
+        requiresApproval: validation.isValid && validation.requiresApproval,
+        errors: validation.errors,
+        warnings: validation.warnings,
+        execution: execution ?? null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error("[Middleware] Error reverting migration:", error);
+      res.status(migrationErrorStatus(message)).json({ error: message });
+    }
+  });
+
+  // Run a message through the pipeline manually (for testing)
+  router.post("/process", async (req, res) => {
+    const { message, sessionId = "manual-session", autoExecute = false } = req.body || {};
+    if (!message) {
+      return res.status(400).json({ error: "Message is required" });
+    }
+
+    try {
+      res.json(await bridge.processChatMessage(message, sessionId, { user: res.locals.user, autoExecute }));
+    } catch (error) {
+      console.error("[Middleware] Error processing message:", error);
+      res.status(500).json({ error: "Failed to process message" });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,49 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { ROLE_PERMISSIONS, USER_ROLES, type UserRole, type User } from "../../shared/schema.js";
+import type { UserContext } from "../../middleware/types.js";
+import { PermissionDeniedError, hasPermission } from "../../middleware/permissions.js";
+
+// Requests without a logged-in session may only look around
+export const ANONYMOUS_USER: UserContext = { id: "anonymous", role: "viewer", permissions: ROLE_PERMISSIONS.viewer };
+
+export function toUserContext(user: Pick<User, "id" | "role">): UserContext {
+  const role = USER_ROLES.includes(user.role as UserRole) ? (user.role as UserRole) : "viewer";
+  return { id: String(user.id), role, permissions: ROLE_PERMISSIONS[role] };
+}
+
+/**
+ * Resolve the user a request acts for from its authenticated session. Client-supplied
+ * headers are never trusted; requests without a session act as an anonymous viewer, and
+ * null means the session names a user that no longer exists.
+ */
+export async function resolveRequestUser(req: Pick<Request, "session">): Promise<UserContext | null> {
+  const userId = req.session?.userId;
+  if (userId === undefined) {
+    return ANONYMOUS_USER;
+  }
+
+  const user = await storage.getUser(userId);
+  return user ? toUserContext(user) : null;
+}
+
+/**
+ * Route guard: resolve the request user into res.locals.user and require a permission
+ */
+export function requirePermission(permission: string) {
+  return async <P>(req: Request<P>, res: Response, next: NextFunction) => {
+    try {
+      const user = await resolveRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Unknown user" });
+      }
+      if (!hasPermission(user, permission)) {
+        return res.status(403).json({ error: new PermissionDeniedError(user, permission).message });
+      }
+      res.locals.user = user;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,11 +1,29 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { fileService } from "./services/fileService";
 import { terminalService } from "./services/terminalService";
 import { chatService } from "./services/chatService";
-import { insertFileSchema, insertChatMessageSchema } from "../../shared/schema.js";
+import { createMiddlewareRouter } from "./middlewareRoutes";
+import { requirePermission, resolveRequestUser, toUserContext } from "./requestUser";
+import { hashPassword } from "./auth";
+import { insertFileSchema, insertChatMessageSchema, insertUserSchema } from "../../shared/schema.js";
+import type { AgentBridge } from "../../middleware/agentBridge.js";
+import { PERMISSIONS } from "../../middleware/permissions.js";
+import type { ExecutionEngine } from "./services/execution-engine/index";
+
+const DEFAULT_CHAT_SESSION = "chat-default";
+
+// Last middleware result per logged-in user and chat session, fed back to Claude on the next turn
+const lastMiddlewareResults = new Map<string, any>();
+
+// The client names the chat session, so results are only kept under the session's own user;
+// anonymous requests have no lasting session and get no carry-over
+function middlewareResultKey(req: Request, sessionId: string): string | null {
+  const userId = req.session?.userId;
+  return userId === undefined ? null : `${userId}:${sessionId}`;
+}
 
 // Helper function to create middleware summary
 function createMiddlewareSummary(middlewareResult: any): string {
@@ -29,16 +47,69 @@ function createMiddlewareSummary(middlewareResult: any): string {
     summaryText += `⏳ ${summary.pendingApprovals} intent(s) require manual approval\n`;
   }
 
+  const diagnostics = middlewareResult.results.flatMap((result: any) => result.validation.diagnostics || []);
+  const diagnosticErrors = diagnostics.filter((diagnostic: any) => diagnostic.severity === "error").length;
+  if (diagnostics.length > 0) {
+    summaryText += `🔎 Quality gate: ${diagnosticErrors} error(s), ${diagnostics.length - diagnosticErrors} warning(s) in AI-written files\n`;
+  }
+
   return summaryText;
 }
 
+// Helper function to flatten middleware results into a per-intent report
+function serializeMiddlewareResult(middlewareResult: any) {
+  return {
+    summary: middlewareResult.summary,
+    changesetId: middlewareResult.changesetId,
+    changesetIds: middlewareResult.changesetIds,
+    confidence: middlewareResult.parsed.confidence,
+    parseErrors: middlewareResult.parsed.parseErrors,
+    intents: middlewareResult.results.map((result: any) => {
+      const { intent, validation, execution } = result;
+      let status: string;
+      if (!validation.isValid) {
+        status = "rejected";
+      } else if (validation.requiresApproval) {
+        status = "pending_approval";
+      } else if (execution) {
+        status = execution.success ? "executed" : "failed";
+      } else {
+        status = "validated";
+      }
+
+      return {
+        intentId: intent.id,
+        type: intent.type,
+        priority: intent.priority,
+        status,
+        decision: validation.decision,
+        decidedBy: validation.decidedBy,
+        overriddenRules: validation.overriddenRules || [],
+        appliedRules: validation.appliedRules,
+        errors: validation.errors,
+        warnings: validation.warnings,
+        secretFindings: validation.secretFindings || [],
+        diagnostics: validation.diagnostics || [],
+        execution: execution ? {
+          success: execution.success,
+          output: execution.output,
+          error: execution.error,
+          duration: execution.duration,
+          affectedFiles: execution.affectedFiles,
+        } : null,
+      };
+    }),
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize file service
   await fileService.initializeProjectsDirectory();
 
   // Initialize Agent Bridge Middleware
+  let agentBridge: AgentBridge | null = null;
   try {
-    const { agentBridge } = await import('../../middleware/agentBridge.js');
+    ({ agentBridge } = await import('../../middleware/agentBridge.js'));
     await agentBridge.initialize({
       enableIntentParsing: true,
       enableGovernance: true, 
@@ -48,16 +119,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log("[Routes] Agent Bridge Middleware activated successfully");
   } catch (error) {
     console.error("[Routes] Failed to initialize Agent Bridge Middleware:", error);
+    agentBridge = null;
   }
 
   // Initialize Execution Engine
+  let executionEngine: ExecutionEngine | null = null;
   try {
-    const { executionEngine } = await import('./services/execution-engine/index');
+    ({ executionEngine } = await import('./services/execution-engine/index'));
     await executionEngine.initialize();
     executionEngine.subscribeToMiddlewareEvents();
     console.log("[Routes] Execution Engine v1.0 initialized successfully");
   } catch (error) {
     console.error("[Routes] Failed to initialize Execution Engine:", error);
+    executionEngine = null;
   }
 
   // File operations
@@ -127,6 +201,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User operations
+  app.get("/api/users/me", async (req, res) => {
+    const user = await resolveRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Unknown user" });
+    }
+    res.json(user);
+  });
+
+  app.post("/api/users", async (req, res) => {
+    try {
+      const actor = await resolveRequestUser(req);
+      if (!actor) {
+        return res.status(401).json({ error: "Unknown user" });
+      }
+      if (!actor.permissions.includes("manage_users")) {
+        return res.status(403).json({ error: "Managing users requires the admin role" });
+      }
+
+      const userData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+      const user = await storage.createUser({ ...userData, password: await hashPassword(userData.password) });
+      res.json(toUserContext(user));
+    } catch (error) {
+      res.status(400).json({ error: "Invalid user data" });
+    }
+  });
+
   // Chat operations
   app.get("/api/chat/messages", async (req, res) => {
     try {
@@ -140,28 +244,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/chat/message", async (req, res) => {
     try {
       const messageData = insertChatMessageSchema.parse(req.body);
+      const user = await resolveRequestUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Unknown user" });
+      }
       
       // Store user message
       const userMessage = await storage.addChatMessage(messageData);
       
-      // Generate AI response
+      // Generate AI response, including the previous turn's middleware outcome
+      const sessionId: string = req.body.sessionId || DEFAULT_CHAT_SESSION;
+      const resultKey = middlewareResultKey(req, sessionId);
       const files = await storage.getFiles();
       const context = {
         files: files.map(f => f.path),
         currentFile: req.body.currentFile,
+        middlewareResult: resultKey ? lastMiddlewareResults.get(resultKey) : undefined,
       };
       
       const aiResponse = await chatService.processMessage(messageData.content, context);
+
+      // Run the AI response through Agent Bridge: parse → validate → execute → audit
+      let middlewareResult: ReturnType<typeof serializeMiddlewareResult> | null = null;
+      let summaryText = "";
+      if (agentBridge) {
+        try {
+          const bridgeResult = await agentBridge.processChatMessage(aiResponse, sessionId, {
+            currentFile: req.body.currentFile,
+            autoExecute: true,
+            user,
+          });
+          middlewareResult = serializeMiddlewareResult(bridgeResult);
+          summaryText = createMiddlewareSummary(bridgeResult);
+          if (resultKey) {
+            lastMiddlewareResults.set(resultKey, middlewareResult);
+          }
+        } catch (error) {
+          console.error("[Routes] Agent Bridge processing failed:", error);
+        }
+      }
       
       // Store AI response
       const assistantMessage = await storage.addChatMessage({
-        content: aiResponse,
+        content: aiResponse + summaryText,
         role: "assistant",
       });
 
       res.json({
         userMessage,
         assistantMessage,
+        middlewareResult,
       });
     } catch (error) {
       console.error("Chat error:", error);
@@ -172,17 +304,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/chat/messages", async (req, res) => {
     try {
       await storage.clearChatMessages();
+      lastMiddlewareResults.clear();
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to clear chat messages" });
     }
   });
 
+  // Agent Bridge Middleware API
+  app.use("/api/middleware", createMiddlewareRouter(agentBridge, executionEngine));
+
+  // Execution changesets; before-images hold file contents, so only users who may roll back see them
+  app.get("/api/execution/changesets", requirePermission(PERMISSIONS.READ), async (req, res) => {
+    if (!executionEngine) {
+      return res.status(503).json({ error: "Execution Engine is not available" });
+    }
+
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      res.json(await executionEngine.listChangesets(limit));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch changesets" });
+    }
+  });
+
+  app.get("/api/execution/changesets/:id", requirePermission(PERMISSIONS.EXECUTE), async (req, res) => {
+    if (!executionEngine) {
+      return res.status(503).json({ error: "Execution Engine is not available" });
+    }
+
+    try {
+      const changeset = await executionEngine.getChangeset(req.params.id);
+      if (!changeset) {
+        return res.status(404).json({ error: "Changeset not found" });
+      }
+      res.json(changeset);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch changeset" });
+    }
+  });
+
+  app.post("/api/execution/changesets/:id/rollback", requirePermission(PERMISSIONS.EXECUTE), async (req, res) => {
+    if (!executionEngine) {
+      return res.status(503).json({ error: "Execution Engine is not available" });
+    }
+
+    try {
+      res.json(await executionEngine.rollbackChangeset(req.params.id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const status = message.includes("not found") ? 404 : message.includes("cannot be rolled back") ? 409 : 500;
+      res.status(status).json({ error: message });
+    }
+  });
+
   const httpServer = createServer(app);
 
   // WebSocket server for terminal and real-time features
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
+  // Push governance policy changes to every connected client
+  const broadcast = (message: Record<string, unknown>) => {
+    const data = JSON.stringify(message);
+    wss.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data);
+      }
+    });
+  };
+  agentBridge?.on('governance-updated', (event) => broadcast({ type: 'governance:updated', ...event }));
+  agentBridge?.on('governance-reload-failed', (event) => broadcast({ type: 'governance:reload_failed', ...event }));
+  agentBridge?.on('governance-freeze-changed', (freeze) => broadcast({ type: 'governance:freeze', freeze }));
+
   wss.on('connection', (ws: WebSocket) => {
     console.log('WebSocket connection established');
     
@@ -1,18 +1,24 @@
 /**
  * Execution Engine v1.0
- * Subscribes to Agent Bridge Middleware approval events and executes approved file operations
+ * Subscribes to Agent Bridge Middleware approval events and applies approved file operations
+ * as atomic changesets that can be rolled back from their stored before-images
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import { EventEmitter } from 'events';
+import { applyHunks } from '../../../../middleware/unifiedDiff.js';
+import { resolveWorkspacePath } from '../../../../middleware/pathResolver.js';
+import type { DiffHunk, RejectedHunk, ChangesetApprovedEvent, ChangesetOutcome } from '../../../../middleware/types.js';
 
 interface FileOperationEvent {
   intentId: string;
-  operation: 'create' | 'update' | 'delete' | 'rename' | 'move';
+  operation: 'create' | 'update' | 'delete' | 'rename' | 'move' | 'patch';
   targetPath: string;
   content?: string;
   newPath?: string;
+  hunks?: DiffHunk[];
   timestamp: Date;
   userId?: string;
   sessionId: string;
@@ -26,15 +32,63 @@ interface ExecutionResult {
   error?: string;
   duration: number;
   timestamp: Date;
+  rejectedHunks?: RejectedHunk[];
+}
+
+interface ChangesetEvent {
+  changesetId: string;
+  operations: FileOperationEvent[];
+  timestamp: Date;
+  userId?: string;
+  sessionId: string;
+}
+
+interface BeforeImage {
+  targetPath: string;
+  fullPath: string;
+  content: string | null; // File bytes, base64-encoded; null when the file did not exist
+  encoding?: 'base64'; // Absent in older records, whose content is utf-8 text
+  afterHash?: string | null; // sha256 once the changeset applied; null when the path was removed
+}
+
+export interface ChangesetRecord {
+  id: string;
+  sessionId: string;
+  userId?: string;
+  status: 'applying' | 'applied' | 'failed' | 'rolled_back';
+  operations: Array<Omit<FileOperationEvent, 'content' | 'hunks'>>;
+  results: ExecutionResult[];
+  beforeImages: BeforeImage[];
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+  rolledBackAt?: Date;
+}
+
+/**
+ * Raised when a patch cannot be applied cleanly; the target file is left untouched
+ */
+class HunkRejectionError extends Error {
+  constructor(public rejectedHunks: RejectedHunk[], targetPath: string) {
+    super(`${rejectedHunks.length} hunk(s) rejected for ${targetPath}: ${rejectedHunks.map(rejected => `#${rejected.index + 1} ${rejected.reason}`).join('; ')}`);
+    this.name = 'HunkRejectionError';
+  }
+}
+
+// Fingerprint of a file's bytes; null for a file that does not exist
+function hashContent(content: Buffer | null): string | null {
+  return content && createHash('sha256').update(content).digest('hex');
 }
 
 export class ExecutionEngine extends EventEmitter {
   private static instance: ExecutionEngine;
   private isInitialized = false;
-  private executionQueue: FileOperationEvent[] = [];
+  private executionQueue: Array<{ run: () => Promise<ChangesetRecord>; resolve: (record: ChangesetRecord) => void; reject: (error: unknown) => void }> = [];
   private isProcessing = false;
-  private maxConcurrentExecutions = 5;
   private workspaceRoot = './projects/default-app';
+  private projectsRoot = './projects'; // Disk location of the virtual /projects root
+  private changesetDir = './system/changesets';
+  private patchFuzz = 2;
 
   private constructor() {
     super();
@@ -56,8 +110,9 @@ export class ExecutionEngine extends EventEmitter {
       return;
     }
 
-    // Ensure workspace directory exists
+    // Ensure workspace and changeset directories exist
     await this.ensureDirectoryExists(this.workspaceRoot);
+    await this.ensureDirectoryExists(this.changesetDir);
 
     this.isInitialized = true;
     console.log('[ExecutionEngine] v1.0 initialized successfully');
@@ -66,42 +121,212 @@ export class ExecutionEngine extends EventEmitter {
   }
 
   /**
-   * Subscribe to Agent Bridge Middleware approval events
+   * Register with Agent Bridge Middleware as the applier of approved changesets; the bridge
+   * waits for each outcome so later intents of a reply run against the applied files
    */
   public async subscribeToMiddlewareEvents(): Promise<void> {
     try {
       const { agentBridge } = await import('../../../../middleware/agentBridge.js');
-      
-      // Subscribe to approved intent events
-      agentBridge.on('intent-approved', async (approvalEvent: any) => {
-        console.log(`[ExecutionEngine] Received approved intent: ${approvalEvent.intentId}`);
-        
+
+      agentBridge.setChangesetApplier(async (approvalEvent: ChangesetApprovedEvent): Promise<ChangesetOutcome> => {
+        console.log(`[ExecutionEngine] Received approved changeset: ${approvalEvent.changesetId} (${approvalEvent.operations.length} operations)`);
+
         // Convert to execution event format
-        const executionEvent: FileOperationEvent = {
-          intentId: approvalEvent.intentId,
-          operation: approvalEvent.operation,
-          targetPath: approvalEvent.targetPath,
-          content: approvalEvent.content,
-          newPath: approvalEvent.newPath,
+        const changesetEvent: ChangesetEvent = {
+          changesetId: approvalEvent.changesetId,
+          operations: approvalEvent.operations.map(operation => ({
+            ...operation,
+            timestamp: approvalEvent.timestamp,
+            userId: approvalEvent.userId,
+            sessionId: approvalEvent.sessionId,
+          })),
           timestamp: approvalEvent.timestamp,
           userId: approvalEvent.userId,
           sessionId: approvalEvent.sessionId,
         };
-        
-        // Process the approved intent
-        await this.queueApprovedIntent(executionEvent);
+
+        const record = await this.queueChangeset(changesetEvent);
+        return {
+          changesetId: record.id,
+          status: record.status === 'applied' ? 'applied' : 'failed',
+          error: record.error,
+          results: record.results.map(({ intentId, success, error }) => ({ intentId, success, error })),
+        };
       });
-      
+
       console.log('[ExecutionEngine] Successfully subscribed to Agent Bridge Middleware approval events');
     } catch (error) {
       console.error('[ExecutionEngine] Failed to subscribe to middleware events:', error);
     }
   }
 
+  /**
+   * Apply a changeset all-or-nothing, restoring before-images on the first failure
+   */
+  public async applyChangeset(changeset: ChangesetEvent): Promise<ChangesetRecord> {
+    const record: ChangesetRecord = {
+      id: changeset.changesetId,
+      sessionId: changeset.sessionId,
+      userId: changeset.userId,
+      status: 'applying',
+      operations: changeset.operations.map(({ content, hunks, ...operation }) => operation),
+      results: [],
+      beforeImages: [],
+      createdAt: new Date(),
+    };
+
+    try {
+      record.beforeImages = await this.captureBeforeImages(changeset.operations);
+    } catch (error) {
+      record.status = 'failed';
+      record.error = `Failed to capture before-images: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      record.completedAt = new Date();
+      await this.saveChangeset(record);
+      this.emit('changeset-failed', record);
+      return record;
+    }
+
+    await this.saveChangeset(record);
+
+    for (const operation of changeset.operations) {
+      const result = await this.processApprovedIntent(operation);
+      record.results.push(result);
+
+      if (!result.success) {
+        await this.restoreBeforeImages(record.beforeImages);
+        record.status = 'failed';
+        record.error = `Operation ${operation.operation} on ${operation.targetPath} failed: ${result.error}. Changeset rolled back.`;
+        record.completedAt = new Date();
+        await this.saveChangeset(record);
+
+        console.error(`[ExecutionEngine] ❌ Changeset ${record.id} failed and was rolled back`);
+        this.emit('changeset-failed', record);
+        return record;
+      }
+    }
+
+    // Remember what each path looks like now so a rollback can tell whether it changed since
+    for (const image of record.beforeImages) {
+      image.afterHash = hashContent(await this.readFileBytes(image.fullPath));
+    }
+
+    record.status = 'applied';
+    record.completedAt = new Date();
+    await this.saveChangeset(record);
+
+    console.log(`[ExecutionEngine] ✅ Changeset ${record.id} applied (${record.results.length} operations)`);
+    this.emit('changeset-applied', record);
+    return record;
+  }
+
+  /**
+   * Roll back an applied changeset to its before-images. Refused while a newer applied
+   * changeset touches the same paths, or when a file no longer matches what the changeset
+   * wrote, since restoring would silently discard those later edits. Runs on the execution
+   * queue so it cannot interleave with a changeset being applied.
+   */
+  public rollbackChangeset(changesetId: string): Promise<ChangesetRecord> {
+    return this.enqueue(() => this.restoreChangeset(changesetId));
+  }
+
+  private async restoreChangeset(changesetId: string): Promise<ChangesetRecord> {
+    const record = await this.getChangeset(changesetId);
+    if (!record) {
+      throw new Error(`Changeset ${changesetId} not found`);
+    }
+    if (record.status !== 'applied') {
+      throw new Error(`Changeset ${changesetId} cannot be rolled back from status '${record.status}'`);
+    }
+
+    const touched = new Set(record.beforeImages.map(image => image.targetPath));
+    const newer = (await this.loadChangesets()).filter(other =>
+      other.status === 'applied'
+      && other.createdAt.getTime() > record.createdAt.getTime()
+      && other.beforeImages.some(image => touched.has(image.targetPath))
+    );
+    if (newer.length > 0) {
+      throw new Error(
+        `Changeset ${changesetId} cannot be rolled back: newer changeset(s) ${newer.map(other => other.id).join(', ')} changed the same files; roll those back first`
+      );
+    }
+
+    // Records written before after-images were kept cannot be checked for drift
+    const drifted: string[] = [];
+    for (const image of record.beforeImages) {
+      if (image.afterHash === undefined) {
+        continue;
+      }
+      const current = hashContent(await this.readFileBytes(await this.resolveFilePath(image.targetPath)));
+      if (current !== image.afterHash) {
+        drifted.push(image.targetPath);
+      }
+    }
+    if (drifted.length > 0) {
+      throw new Error(
+        `Changeset ${changesetId} cannot be rolled back: ${drifted.join(', ')} changed since the changeset was applied`
+      );
+    }
+
+    await this.restoreBeforeImages(record.beforeImages);
+
+    record.status = 'rolled_back';
+    record.rolledBackAt = new Date();
+    await this.saveChangeset(record);
+
+    console.log(`[ExecutionEngine] ↩️ Changeset ${record.id} rolled back`);
+    this.emit('changeset-rolled-back', record);
+    return record;
+  }
+
+  /**
+   * Get a stored changeset
+   */
+  public async getChangeset(changesetId: string): Promise<ChangesetRecord | null> {
+    if (!/^[\w-]+$/.test(changesetId)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(path.join(this.changesetDir, `${changesetId}.json`), 'utf-8');
+      return this.reviveChangeset(JSON.parse(content));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * List stored changesets, newest first, without their before-images
+   */
+  public async listChangesets(limit: number = 20): Promise<Array<Omit<ChangesetRecord, 'beforeImages'>>> {
+    return (await this.loadChangesets())
+      .slice(0, limit)
+      .map(({ beforeImages, ...record }) => record);
+  }
+
+  /**
+   * Load every stored changeset, newest first
+   */
+  private async loadChangesets(): Promise<ChangesetRecord[]> {
+    let fileNames: string[];
+    try {
+      fileNames = (await fs.readdir(this.changesetDir)).filter(name => name.endsWith('.json'));
+    } catch (error) {
+      return [];
+    }
+
+    const records = await Promise.all(
+      fileNames.map(name => this.getChangeset(name.replace(/\.json$/, '')))
+    );
+
+    return records
+      .filter((record): record is ChangesetRecord => record !== null)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
   /**
    * Process approved file operation intent
    */
-  public async processApprovedIntent(event: FileOperationEvent): Promise<ExecutionResult> {
+  private async processApprovedIntent(event: FileOperationEvent): Promise<ExecutionResult> {
     const startTime = Date.now();
     
     console.log(`[ExecutionEngine] Processing approved intent: ${event.intentId} - ${event.operation} on ${event.targetPath}`);
@@ -125,37 +350,16 @@ export class ExecutionEngine extends EventEmitter {
         case 'move':
           result = await this.executeFileMove(event, startTime);
           break;
+        case 'patch':
+          result = await this.executeFilePatch(event, startTime);
+          break;
         default:
           throw new Error(`Unsupported operation: ${event.operation}`);
       }
 
-      // Log successful execution to system audit
+      // The bridge audits the changeset outcome
       console.log(`[ExecutionEngine] ✅ Successfully executed ${event.operation} on ${event.targetPath} (${result.duration}ms)`);
       
-      // Log to system audit via middleware
-      try {
-        const { agentBridge } = await import('../../../../middleware/agentBridge.js');
-        const auditor = (agentBridge as any).auditor;
-        if (auditor) {
-          await auditor.logIntentProcessing(
-            { 
-              id: event.intentId,
-              type: 'file_operation',
-              operation: event.operation,
-              target: { path: event.targetPath, content: event.content },
-              timestamp: event.timestamp,
-              source: 'ai_chat',
-              priority: 'medium'
-            },
-            { isValid: true, appliedRules: [], errors: [], warnings: [], modifications: {}, requiresApproval: false },
-            result,
-            { sessionId: event.sessionId, userId: event.userId }
-          );
-        }
-      } catch (auditError) {
-        console.warn('[ExecutionEngine] Failed to log to system audit:', auditError);
-      }
-      
       // Emit success event
       this.emit('execution-success', result);
       
@@ -170,6 +374,7 @@ export class ExecutionEngine extends EventEmitter {
         error: error instanceof Error ? error.message : 'Unknown error',
         duration: Date.now() - startTime,
         timestamp: new Date(),
+        ...(error instanceof HunkRejectionError && { rejectedHunks: error.rejectedHunks }),
       };
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -186,7 +391,7 @@ export class ExecutionEngine extends EventEmitter {
    * Execute file creation
    */
   private async executeFileCreation(event: FileOperationEvent, startTime: number): Promise<ExecutionResult> {
-    const fullPath = this.resolveFilePath(event.targetPath);
+    const fullPath = await this.resolveFilePath(event.targetPath);
     
     // Ensure parent directory exists
     await this.ensureDirectoryExists(path.dirname(fullPath));
@@ -208,7 +413,7 @@ export class ExecutionEngine extends EventEmitter {
    * Execute file update
    */
   private async executeFileUpdate(event: FileOperationEvent, startTime: number): Promise<ExecutionResult> {
-    const fullPath = this.resolveFilePath(event.targetPath);
+    const fullPath = await this.resolveFilePath(event.targetPath);
     
     // Check if file exists
     try {
@@ -230,11 +435,46 @@ export class ExecutionEngine extends EventEmitter {
     };
   }
 
+  /**
+   * Execute file patch from unified-diff hunks
+   */
+  private async executeFilePatch(event: FileOperationEvent, startTime: number): Promise<ExecutionResult> {
+    const fullPath = await this.resolveFilePath(event.targetPath);
+
+    if (!event.hunks?.length) {
+      throw new Error('Hunks are required for patch operation');
+    }
+
+    let original: string;
+    try {
+      original = await fs.readFile(fullPath, 'utf-8');
+    } catch (error) {
+      throw new Error(`File does not exist: ${event.targetPath}`);
+    }
+
+    // Apply all hunks or none
+    const patch = applyHunks(original, event.hunks, this.patchFuzz);
+    if (patch.rejectedHunks.length > 0) {
+      throw new HunkRejectionError(patch.rejectedHunks, event.targetPath);
+    }
+
+    await fs.writeFile(fullPath, patch.content, 'utf-8');
+
+    return {
+      success: true,
+      intentId: event.intentId,
+      operation: event.operation,
+      targetPath: event.targetPath,
+      duration: Date.now() - startTime,
+      timestamp: new Date(),
+    };
+  }
+
   /**
    * Execute file deletion
    */
   private async executeFileDeletion(event: FileOperationEvent, startTime: number): Promise<ExecutionResult> {
-    const fullPath = this.resolveFilePath(event.targetPath);
+    const fullPath = await this.resolveFilePath(event.targetPath);
     
     // Check if file exists
     try {
@@ -264,8 +504,8 @@ export class ExecutionEngine extends EventEmitter {
       throw new Error('New path is required for rename operation');
     }
 
-    const oldPath = this.resolveFilePath(event.targetPath);
-    const newPath = this.resolveFilePath(event.newPath);
+    const oldPath = await this.resolveFilePath(event.targetPath);
+    const newPath = await this.resolveFilePath(event.newPath);
     
     // Ensure target directory exists
     await this.ensureDirectoryExists(path.dirname(newPath));
@@ -292,18 +532,34 @@ export class ExecutionEngine extends EventEmitter {
   }
 
   /**
-   * Queue approved intent for processing
+   * Queue a single approved file operation as its own changeset
    */
-  public async queueApprovedIntent(event: FileOperationEvent): Promise<void> {
-    this.executionQueue.push(event);
-    
-    if (!this.isProcessing) {
-      await this.processQueue();
-    }
+  public async queueApprovedIntent(event: FileOperationEvent): Promise<ChangesetRecord> {
+    return await this.queueChangeset({
+      changesetId: event.intentId,
+      operations: [event],
+      timestamp: event.timestamp,
+      userId: event.userId,
+      sessionId: event.sessionId,
+    });
   }
 
   /**
-   * Process the execution queue
+   * Queue approved changeset for processing; resolves once it is applied or has failed
+   */
+  public queueChangeset(changeset: ChangesetEvent): Promise<ChangesetRecord> {
+    return this.enqueue(() => this.applyChangeset(changeset));
+  }
+
+  private enqueue(run: () => Promise<ChangesetRecord>): Promise<ChangesetRecord> {
+    return new Promise((resolve, reject) => {
+      this.executionQueue.push({ run, resolve, reject });
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Process the execution queue one changeset application or rollback at a time
    */
   private async processQueue(): Promise<void> {
     if (this.isProcessing || this.executionQueue.length === 0) {
@@ -311,36 +567,116 @@ export class ExecutionEngine extends EventEmitter {
     }
 
     this.isProcessing = true;
-    
-    try {
-      while (this.executionQueue.length > 0) {
-        const batch = this.executionQueue.splice(0, this.maxConcurrentExecutions);
-        
-        await Promise.allSettled(
-          batch.map(event => this.processApprovedIntent(event))
-        );
+
+    while (this.executionQueue.length > 0) {
+      const { run, resolve, reject } = this.executionQueue.shift()!;
+      try {
+        resolve(await run());
+      } catch (error) {
+        reject(error);
       }
-    } finally {
-      this.isProcessing = false;
     }
+
+    this.isProcessing = false;
   }
 
   /**
-   * Resolve file path relative to workspace
+   * Snapshot every path a changeset touches
    */
-  private resolveFilePath(filePath: string): string {
-    // If path is already absolute and within workspace, use it
-    if (path.isAbsolute(filePath)) {
-      return filePath;
+  private async captureBeforeImages(operations: FileOperationEvent[]): Promise<BeforeImage[]> {
+    const targetPaths = new Set<string>();
+    for (const operation of operations) {
+      targetPaths.add(operation.targetPath);
+      if (operation.newPath) {
+        targetPaths.add(operation.newPath);
+      }
     }
-    
-    // If path starts with workspace root, resolve relative to current directory
-    if (filePath.startsWith('./projects/') || filePath.startsWith('projects/')) {
-      return path.resolve(filePath);
+
+    // Bytes, not text, so binary files and non-UTF-8 encodings restore exactly
+    const images: BeforeImage[] = [];
+    for (const targetPath of Array.from(targetPaths)) {
+      const fullPath = await this.resolveFilePath(targetPath);
+      const content = await this.readFileBytes(fullPath);
+      images.push({ targetPath, fullPath, content: content && content.toString('base64'), encoding: 'base64' });
     }
-    
-    // Otherwise, resolve relative to workspace root
-    return path.resolve(this.workspaceRoot, filePath);
+
+    return images;
+  }
+
+  /**
+   * Restore files to their before-images
+   */
+  private async restoreBeforeImages(images: BeforeImage[]): Promise<void> {
+    for (const image of [...images].reverse()) {
+      // Re-resolve so stored records can never redirect a restore outside the workspace
+      const fullPath = await this.resolveFilePath(image.targetPath);
+      if (image.content === null) {
+        await fs.rm(fullPath, { force: true });
+      } else {
+        await this.ensureDirectoryExists(path.dirname(fullPath));
+        await fs.writeFile(fullPath, Buffer.from(image.content, image.encoding === 'base64' ? 'base64' : 'utf-8'));
+      }
+    }
+  }
+
+  /**
+   * Persist changeset record
+   */
+  private async saveChangeset(record: ChangesetRecord): Promise<void> {
+    await this.ensureDirectoryExists(this.changesetDir);
+    await fs.writeFile(
+      path.join(this.changesetDir, `${record.id}.json`),
+      JSON.stringify(record, null, 2),
+      'utf-8'
+    );
+  }
+
+  /**
+   * Restore Date fields of a stored changeset
+   */
+  private reviveChangeset(data: any): ChangesetRecord {
+    return {
+      ...data,
+      createdAt: new Date(data.createdAt),
+      completedAt: data.completedAt ? new Date(data.completedAt) : undefined,
+      rolledBackAt: data.rolledBackAt ? new Date(data.rolledBackAt) : undefined,
+    };
+  }
+
+  /**
+   * Read a workspace file as the engine would see it, or null when it does not exist
+   */
+  public async readWorkspaceFile(targetPath: string): Promise<string | null> {
+    try {
+      return await fs.readFile(await this.resolveFilePath(targetPath), 'utf-8');
+    } catch (error) {
+      if ((error as any).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read a file's bytes, or null when it does not exist
+   */
+  private async readFileBytes(fullPath: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(fullPath);
+    } catch (error) {
+      if ((error as any).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve an intent path to its location under the projects directory.
+   * Paths that escape it, directly or through symlinks, are refused.
+   */
+  private async resolveFilePath(filePath: string): Promise<string> {
+    return await resolveWorkspacePath(filePath, this.projectsRoot);
   }
 
   /**
@@ -406,4 +742,4 @@ export class ExecutionEngine extends EventEmitter {
 }
 
 // Export singleton instance
-export const executionEngine = ExecutionEngine.getInstance();
\ No newline at end of file
+export const executionEngine = ExecutionEngine.getInstance();
@@ -246,7 +246,7 @@ code {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, role: insertUser.role ?? "developer", id };
     this.users.set(id, user);
     return user;
   }
@@ -0,0 +1,287 @@
+import { z } from "zod";
+
+// Governance rule vocabulary shared by the rule editor and the Governance Validator
+
+export const INTENT_TYPES = [
+  "file_operation",
+  "terminal_command",
+  "external_service",
+  "project_scaffold",
+  "code_generation",
+  "migration",
+  "seo_optimization",
+  "deployment",
+] as const;
+
+export const RULE_ACTIONS = ["allow", "deny", "require_approval", "modify", "quota"] as const;
+
+export const QUOTA_SCOPES = ["session", "message", "user", "global"] as const;
+
+export const QUOTA_MEASURES = ["count", "bytes"] as const;
+
+export const CONDITION_OPERATORS = [
+  "equals",
+  "contains",
+  "matches",
+  "not_matches",
+  "starts_with",
+  "ends_with",
+  "glob",
+  "in",
+  "exists",
+  "greater_than",
+  "less_than",
+  "between",
+  "length_greater_than",
+  "length_less_than",
+  "byte_length_greater_than",
+  "byte_length_less_than",
+  "contains_any",
+  "any_matches",
+] as const;
+
+export const CONTENT_TRANSFORMS = ["prettier", "license_header", "line_endings", "strip_console_log"] as const;
+
+export const COMBINING_ALGORITHMS = ["deny-overrides", "allow-overrides", "first-match"] as const;
+
+export const INTENT_PRIORITIES = ["low", "medium", "high", "critical"] as const;
+
+export const SECRET_SCANNING_ACTIONS = ["deny", "redact", "require_approval"] as const;
+
+export const QUALITY_GATE_ACTIONS = ["deny", "require_approval", "allow"] as const;
+
+// Version of build-protocol.json this code reads and writes; older files are migrated on load
+export const CURRENT_PROTOCOL_VERSION = "2.2";
+
+const WEEKLY_POINT = /^(sun|mon|tue|wed|thu|fri|sat)\s+([01]?\d|2[0-3]):[0-5]\d$/i;
+const LOCAL_DATE_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+// Time zones and cron expressions are checked further when rules are loaded
+export const scheduleSchema = z.object({
+  timezone: z.string().min(1).optional(),
+  weekly: z.array(z.object({
+    start: z.string().regex(WEEKLY_POINT, "Use a day and time like 'fri 16:00'"),
+    end: z.string().regex(WEEKLY_POINT, "Use a day and time like 'mon 08:00'"),
+  }).strict()).min(1).optional(),
+  cron: z.string().min(1).optional(),
+  from: z.string().regex(LOCAL_DATE_TIME, "Use a date like 2025-12-24 or 2025-12-24T18:30").optional(),
+  until: z.string()
+    .regex(LOCAL_DATE_TIME, "Use a date like 2025-12-24 (through the end of that day) or 2025-12-24T18:30")
+    .optional(),
+}).strict();
+
+export const fieldConditionSchema = z.object({
+  field: z.string().min(1, "Field is required"),
+  operator: z.enum(CONDITION_OPERATORS),
+  value: z.any(),
+}).strict();
+
+export type RuleConditionInput =
+  | z.infer<typeof fieldConditionSchema>
+  | { schedule: ScheduleInput }
+  | { all: RuleConditionInput[] }
+  | { any: RuleConditionInput[] }
+  | { not: RuleConditionInput };
+
+export const ruleConditionSchema: z.ZodType<RuleConditionInput> = z.lazy(() =>
+  z.union([
+    fieldConditionSchema,
+    z.object({ schedule: scheduleSchema }).strict(),
+    z.object({ all: z.array(ruleConditionSchema) }).strict(),
+    z.object({ any: z.array(ruleConditionSchema) }).strict(),
+    z.object({ not: ruleConditionSchema }).strict(),
+  ])
+);
+
+export const quotaSchema = z.object({
+  scope: z.enum(QUOTA_SCOPES),
+  measure: z.enum(QUOTA_MEASURES),
+  limit: z.number().nonnegative(),
+  windowMs: z.number().int().positive().optional(),
+  onExceeded: z.enum(["deny", "require_approval"]),
+}).strict();
+
+// Options each content transform accepts; see middleware/contentTransformers.ts
+export const contentTransformSchema = z.discriminatedUnion("name", [
+  z.object({
+    name: z.literal("prettier"),
+    options: z.object({
+      printWidth: z.number().int().positive().optional(),
+      tabWidth: z.number().int().positive().optional(),
+      useTabs: z.boolean().optional(),
+      semi: z.boolean().optional(),
+      singleQuote: z.boolean().optional(),
+      trailingComma: z.enum(["all", "es5", "none"]).optional(),
+    }).strict().optional(),
+  }).strict(),
+  z.object({
+    name: z.literal("license_header"),
+    options: z.object({
+      text: z.string().min(1, "License header text is required"),
+    }).strict(),
+  }).strict(),
+  z.object({
+    name: z.literal("line_endings"),
+    options: z.object({
+      eol: z.enum(["lf", "crlf"]).optional(),
+      finalNewline: z.boolean().optional(),
+    }).strict().optional(),
+  }).strict(),
+  z.object({
+    name: z.literal("strip_console_log"),
+    options: z.object({
+      methods: z.array(z.string().regex(/^[a-z]+$/i)).min(1).optional(),
+    }).strict().optional(),
+  }).strict(),
+]);
+
+export const governanceRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]+$/i, "Use letters, numbers, '_' or '-'"),
+  name: z.string().min(1, "Name is required"),
+  description: z.string().default(""),
+  intentTypes: z.array(z.enum(INTENT_TYPES)).min(1, "Select at least one intent type"),
+  conditions: z.array(ruleConditionSchema),
+  action: z.enum(RULE_ACTIONS),
+  priority: z.number().int().optional(),
+  enabled: z.boolean().optional(),
+  modifications: z.record(z.any()).optional(),
+  transforms: z.array(contentTransformSchema).optional(),
+  quota: quotaSchema.optional(),
+});
+
+export const governanceRulesSchema = z.array(governanceRuleSchema).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "id"], message: `Duplicate rule id: ${rule.id}` });
+    }
+    seen.add(rule.id);
+    if (rule.action === "quota" && !rule.quota) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "quota"], message: "Quota rules need quota settings" });
+    }
+    if (rule.transforms && rule.transforms.length > 0 && rule.action !== "modify") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "transforms"], message: "Only modify rules can transform content" });
+    }
+  });
+});
+
+const regexPattern = z.string().refine(pattern => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid regular expression");
+
+export const secretScanningSchema = z.object({
+  enabled: z.boolean(),
+  action: z.enum(SECRET_SCANNING_ACTIONS),
+  entropyThreshold: z.number().positive(),
+  minEntropyLength: z.number().int().positive(),
+  allowlist: z.array(regexPattern),
+}).strict();
+
+export const qualityGateSchema = z.object({
+  enabled: z.boolean(),
+  typescript: z.boolean(),
+  eslint: z.boolean(),
+  onError: z.enum(QUALITY_GATE_ACTIONS),
+  extensions: z.array(z.string().regex(/^\.[a-z0-9]+$/i, "Use an extension like '.ts'")),
+  projectsRoot: z.string().min(1),
+  ignore: z.array(z.string().min(1)),
+}).strict();
+
+export const governanceSettingsSchema = z.object({
+  requireApprovalThreshold: z.enum(INTENT_PRIORITIES),
+  auditLevel: z.string().min(1),
+  autoApprove: z.array(z.enum(INTENT_PRIORITIES)),
+  combiningAlgorithm: z.enum(COMBINING_ALGORITHMS),
+  secretScanning: secretScanningSchema,
+  qualityGate: qualityGateSchema,
+}).strict();
+
+export const changeFreezeInputSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+  action: z.enum(["deny", "require_approval"]).default("deny"),
+  intentTypes: z.array(z.enum(INTENT_TYPES)).default([]),
+  until: z.string().datetime({ offset: true }).optional(),
+}).strict();
+
+// A sample intent and the decision the policy must reach for it
+export const policyTestSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  intent: z.object({ type: z.enum(INTENT_TYPES) }).passthrough(),
+  role: z.string().min(1).optional(), // Checked against USER_ROLES when the test runs
+  at: z.string().datetime({ offset: true }).optional(),
+  expect: z.object({
+    decision: z.enum(["allow", "deny", "require_approval"]),
+    decidedBy: z.string().optional(),
+    appliedRules: z.array(z.string()).optional(),
+  }).strict(),
+}).strict();
+
+const featureToggleSchema = <T extends z.ZodRawShape>(shape: T) =>
+  z.object({ enabled: z.boolean(), ...shape }).strict();
+
+// The whole of system/build-protocol.json at CURRENT_PROTOCOL_VERSION
+export const buildProtocolSchema = z.object({
+  version: z.literal(CURRENT_PROTOCOL_VERSION),
+  governance: z.object({
+    enabled: z.boolean(),
+    rules: governanceRulesSchema,
+    settings: governanceSettingsSchema,
+    tests: z.array(policyTestSchema).optional(),
+  }).strict(),
+  middleware: z.object({
+    intentParser: featureToggleSchema({
+      confidence_threshold: z.number().min(0).max(1),
+      mode: z.enum(["regex", "tool_use"]),
+      provider: z.enum(["anthropic", "recorded"]),
+      recordingsPath: z.string().optional(),
+      model: z.string().optional(),
+    }),
+    executionRouter: featureToggleSchema({
+      timeout: z.number().int().positive(),
+    }),
+    auditLogger: featureToggleSchema({
+      retention_days: z.number().int().positive(),
+    }),
+  }).strict(),
+  skeleton: featureToggleSchema({ auto_scaffold: z.boolean() }),
+  seo: featureToggleSchema({ auto_optimize: z.boolean() }),
+  migration: featureToggleSchema({ auto_migrate: z.boolean() }),
+}).strict();
+
+export type GovernanceRuleInput = z.infer<typeof governanceRuleSchema>;
+export type QuotaInput = z.infer<typeof quotaSchema>;
+export type ScheduleInput = z.infer<typeof scheduleSchema>;
+export type ContentTransformInput = z.infer<typeof contentTransformSchema>;
+export type ChangeFreezeInput = z.infer<typeof changeFreezeInputSchema>;
+export type PolicyTestInput = z.infer<typeof policyTestSchema>;
+export type BuildProtocol = z.infer<typeof buildProtocolSchema>;
+
+export interface PolicyVersion {
+  id: string;
+  savedAt: string;
+  ruleCount: number;
+  note?: string;
+}
+
+// Flatten zod issues into "path: message" strings
+export function formatRuleIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.length > 0 ? `rules[${issue.path[0]}]${issue.path.slice(1).map(part => typeof part === "number" ? `[${part}]` : `.${part}`).join("")}` : "rules";
+    return `${path}: ${issue.message}`;
+  });
+}
+
+// Flatten zod issues for a whole protocol file into "path: message" strings
+export function formatProtocolIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path
+      .map((part, index) => typeof part === "number" ? `[${part}]` : `${index > 0 ? "." : ""}${part}`)
+      .join("");
+    return `${path || "protocol"}: ${issue.message}`;
+  });
+}
@@ -2,10 +2,22 @@ import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+export const USER_ROLES = ["viewer", "developer", "maintainer", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Permissions granted by each role; governance rules can match on either
+export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
+  viewer: ["read", "chat"],
+  developer: ["read", "chat", "write", "execute"],
+  maintainer: ["read", "chat", "write", "execute", "approve", "approve_critical"],
+  admin: ["read", "chat", "write", "execute", "approve", "approve_critical", "manage_rules", "manage_users"],
+};
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("developer"), // 'viewer' | 'developer' | 'maintainer' | 'admin'
 });
 
 export const files = pgTable("files", {
@@ -29,6 +41,9 @@ export const chatMessages = pgTable("chat_messages", {
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+}).extend({
+  role: z.enum(USER_ROLES).optional(),
 });
 
 export const insertFileSchema = createInsertSchema(files).omit({